@@ -1,23 +1,144 @@
 -- Production database schema for URL Summarizer
 -- Run this in your production Supabase SQL editor
 
+-- gen_random_bytes() and digest() for API keys and webhook secrets; enabled on Supabase projects by default
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+-- pgvector, for the embedded page chunks behind semantic search
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Create workspaces table (URLs, prompts and summaries are shared by a workspace's members)
+CREATE TABLE IF NOT EXISTS workspaces (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    personal BOOLEAN NOT NULL DEFAULT FALSE -- created for created_by when they signed up
+);
+
+-- Create workspace_members table (owners manage members, editors change content, viewers read)
+CREATE TABLE IF NOT EXISTS workspace_members (
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    email TEXT,                       -- shown in the member list
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS workspace_members_user_id_idx ON workspace_members (user_id);
+
+-- Create workspace_invites table (sent by the invite-member function)
+CREATE TABLE IF NOT EXISTS workspace_invites (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    workspace_name TEXT NOT NULL,     -- shown to the invitee, who can't read the workspace yet
+    email TEXT NOT NULL,              -- lowercased
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '14 days',
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (workspace_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS workspace_invites_email_idx ON workspace_invites (email);
+
+-- Role of the signed-in user in a workspace, NULL when they aren't a member. Security
+-- definer, so the policies on workspace_members can use it without recursing.
+CREATE OR REPLACE FUNCTION workspace_role(ws BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM workspace_members WHERE workspace_id = ws AND user_id = auth.uid();
+$$;
+
+-- The signed-in user's email address, lowercased, once they have confirmed it; NULL
+-- before. Invitations are matched on it, so an account signed up with someone else's
+-- address can't see or accept their invitations.
+CREATE OR REPLACE FUNCTION confirmed_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT lower(email) FROM auth.users WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+$$;
+
 -- Create urls table
 CREATE TABLE IF NOT EXISTS urls (
     id BIGSERIAL PRIMARY KEY,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE, -- creator
+    workspace_id BIGINT REFERENCES workspaces(id) ON DELETE CASCADE,
     url TEXT NOT NULL,
-    caption TEXT
+    caption TEXT,                     -- defaults to the page title
+    -- detected when the page is scraped
+    document_type TEXT CHECK (document_type IN ('html', 'pdf', 'feed', 'json', 'markdown', 'text')),
+    title TEXT,
+    description TEXT,
+    author TEXT,
+    published_date TEXT,
+    canonical_url TEXT,               -- normalized URL (or the page's rel=canonical), one row per page and workspace
+    site_name TEXT,
+    image_url TEXT,                   -- OpenGraph / Twitter card preview image
+    favicon_url TEXT,
+    language TEXT,
+    -- kept from bulk imports (import-urls)
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    saved_at TIMESTAMP WITH TIME ZONE, -- when the link was saved in the bookmarking or read-later service
+    import_source TEXT,               -- import format; NULL for links added in the app
+    UNIQUE (workspace_id, canonical_url)
 );
 
+CREATE INDEX IF NOT EXISTS urls_tags_idx ON urls USING GIN (tags);
+CREATE INDEX IF NOT EXISTS urls_workspace_id_idx ON urls (workspace_id, created_at DESC);
+
 -- Create prompts table
 CREATE TABLE IF NOT EXISTS prompts (
     id BIGSERIAL PRIMARY KEY,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE, -- creator
+    workspace_id BIGINT REFERENCES workspaces(id) ON DELETE CASCADE, -- NULL for prompts shared with every workspace
     prompt_name TEXT NOT NULL,
     prompt TEXT NOT NULL,
-    description TEXT
+    description TEXT,
+    target_language TEXT,             -- value of {{target_language}}; NULL means English
+    -- Model settings; NULL uses the edge function defaults
+    provider TEXT CHECK (provider IN ('openai', 'anthropic', 'openai_compatible')),
+    model TEXT,
+    temperature REAL CHECK (temperature >= 0 AND temperature <= 2),
+    max_tokens INTEGER CHECK (max_tokens > 0),
+    output_schema JSONB               -- JSON Schema for structured output; NULL means free text
 );
 
+CREATE INDEX IF NOT EXISTS prompts_user_id_idx ON prompts (user_id);
+CREATE INDEX IF NOT EXISTS prompts_workspace_id_idx ON prompts (workspace_id);
+
+-- Create page_snapshots table (scrape cache, one row per distinct page version)
+CREATE TABLE IF NOT EXISTS page_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    url TEXT NOT NULL,
+    content_hash TEXT NOT NULL,       -- SHA-256 of the extracted text
+    etag TEXT,
+    last_modified TEXT,
+    title TEXT,
+    published_date TEXT,
+    text TEXT NOT NULL,
+    document_type TEXT,               -- html, pdf, feed, json, markdown or text
+    page_count INTEGER,               -- pages in a PDF document, NULL for web pages
+    metadata JSONB,                   -- description, author, site name, image etc.
+    fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (url, content_hash)
+);
+
+CREATE INDEX IF NOT EXISTS page_snapshots_url_checked_at_idx ON page_snapshots (url, checked_at DESC);
+
 -- Create url_summery table (note: keeping the typo for consistency)
 CREATE TABLE IF NOT EXISTS url_summery (
     id BIGSERIAL PRIMARY KEY,
@@ -25,22 +146,878 @@ CREATE TABLE IF NOT EXISTS url_summery (
     url_id BIGINT REFERENCES urls(id) ON DELETE CASCADE,
     prompt_id BIGINT REFERENCES prompts(id) ON DELETE CASCADE,
     scraped_data TEXT,
-    ai_response TEXT
+    ai_response TEXT,
+    structured_response JSONB,        -- parsed response for prompts with an output_schema
+    chunk_count INTEGER,              -- number of content chunks the model read
+    summary_strategy TEXT,            -- 'single' or 'map_reduce'
+    model TEXT,                       -- model that produced the response
+    snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL,
+    prompt_tokens INTEGER,            -- summed over every model call for the summary
+    completion_tokens INTEGER,
+    tokens_estimated BOOLEAN NOT NULL DEFAULT FALSE, -- provider reported no usage; counted from the text
+    cost_usd NUMERIC(12, 6),          -- estimated from the price table in _shared/usage.ts
+    scrape_ms INTEGER,                -- time to fetch or revalidate the page
+    llm_ms INTEGER,                   -- time spent in model calls
+    total_ms INTEGER,                 -- request start to save
+    user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL, -- who ran the prompt
+    workspace_id BIGINT REFERENCES workspaces(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS url_summery_created_at_idx ON url_summery (created_at);
+CREATE INDEX IF NOT EXISTS url_summery_user_id_idx ON url_summery (user_id);
+CREATE INDEX IF NOT EXISTS url_summery_workspace_id_idx ON url_summery (workspace_id);
+
+-- Full-text search documents, indexed by expression for search_urls()
+-- Caption and title weigh more than words in the address
+CREATE OR REPLACE FUNCTION url_search_vector(url_text TEXT, caption_text TEXT, title_text TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE PARALLEL SAFE
+AS $$
+    SELECT setweight(to_tsvector('english', concat_ws(' ', caption_text, title_text)), 'A')
+        || setweight(to_tsvector('english', coalesce(url_text, '')), 'B');
+$$;
+
+-- The response weighs more than the page it was written from. Only the start of very
+-- long pages is indexed, to stay under the tsvector size limit.
+CREATE OR REPLACE FUNCTION summary_search_vector(response_text TEXT, scraped_text TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE PARALLEL SAFE
+AS $$
+    SELECT setweight(to_tsvector('english', coalesce(response_text, '')), 'A')
+        || setweight(to_tsvector('english', left(coalesce(scraped_text, ''), 100000)), 'C');
+$$;
+
+CREATE INDEX IF NOT EXISTS urls_search_idx ON urls USING GIN (url_search_vector(url, caption, title));
+CREATE INDEX IF NOT EXISTS url_summery_search_idx ON url_summery USING GIN (summary_search_vector(ai_response, scraped_data));
+
+-- Create summary_batches table (many URLs x many prompts, queued by process-batch)
+CREATE TABLE IF NOT EXISTS summary_batches (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    workspace_id BIGINT REFERENCES workspaces(id) ON DELETE CASCADE,
+    url_ids BIGINT[] NOT NULL,
+    prompt_ids BIGINT[] NOT NULL,
+    force_refresh BOOLEAN NOT NULL DEFAULT FALSE,
+    concurrency INTEGER NOT NULL DEFAULT 3 CHECK (concurrency > 0) -- jobs of the batch running at once
+);
+
+-- Create summary_jobs table (queue drained by the summary-worker function)
+CREATE TABLE IF NOT EXISTS summary_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    url_id BIGINT NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+    prompt_id BIGINT NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    force_refresh BOOLEAN NOT NULL DEFAULT FALSE,
+    merge_duplicate BOOLEAN NOT NULL DEFAULT FALSE, -- URL row was created for this job; merge it if the page turns out to be saved already
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- not claimed before this (retry backoff)
+    locked_until TIMESTAMP WITH TIME ZONE, -- lease of the worker running the job
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    progress TEXT,                    -- latest status note while running
+    error_code TEXT,                  -- stable code from _shared/errors.ts
+    error_message TEXT,
+    summary_id BIGINT REFERENCES url_summery(id) ON DELETE SET NULL,
+    result JSONB,                     -- same payload as the synchronous process-url response
+    batch_id BIGINT REFERENCES summary_batches(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS summary_jobs_pending_idx ON summary_jobs (run_after) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS summary_jobs_url_id_idx ON summary_jobs (url_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS summary_jobs_batch_id_idx ON summary_jobs (batch_id) WHERE batch_id IS NOT NULL;
+
+-- Claim up to batch_size jobs for a worker. Jobs whose worker died (lease expired)
+-- are picked up again until they run out of attempts, and a batch job only while
+-- fewer than the batch's concurrency are running (claims are serialized for this).
+CREATE OR REPLACE FUNCTION claim_summary_jobs(batch_size INTEGER DEFAULT 1, lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF summary_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('claim_summary_jobs'));
+
+    UPDATE summary_jobs
+    SET status = 'failed',
+        error_code = 'job_interrupted',
+        error_message = 'The job stopped before it finished',
+        finished_at = NOW(),
+        locked_until = NULL
+    WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts;
+
+    RETURN QUERY
+    UPDATE summary_jobs AS job
+    SET status = 'running',
+        attempts = job.attempts + 1,
+        started_at = NOW(),
+        locked_until = NOW() + make_interval(secs => lease_seconds),
+        progress = NULL,
+        error_code = NULL,
+        error_message = NULL
+    WHERE job.id IN (
+        SELECT candidate.id FROM summary_jobs AS candidate
+        LEFT JOIN summary_batches AS batch ON batch.id = candidate.batch_id
+        WHERE ((candidate.status = 'queued' AND candidate.run_after <= NOW())
+           OR (candidate.status = 'running' AND candidate.locked_until < NOW()))
+          AND (batch.id IS NULL OR batch.concurrency > (
+              SELECT COUNT(*) FROM summary_jobs AS sibling
+              WHERE sibling.batch_id = batch.id
+                AND sibling.status = 'running'
+                AND sibling.locked_until >= NOW()
+          ))
+        ORDER BY candidate.run_after, candidate.id
+        LIMIT batch_size
+        FOR UPDATE OF candidate SKIP LOCKED
+    )
+    RETURNING job.*;
+END;
+$$;
+
+-- Live job status in the UI
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'summary_jobs'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE summary_jobs;
+    END IF;
+END;
+$$;
+
+-- Create url_watches table (pages re-scraped on a schedule by the watch-urls function;
+-- a big enough change is recorded and the watch's prompt is run again)
+CREATE TABLE IF NOT EXISTS url_watches (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    url_id BIGINT NOT NULL UNIQUE REFERENCES urls(id) ON DELETE CASCADE,
+    prompt_id BIGINT REFERENCES prompts(id) ON DELETE SET NULL, -- re-run on change; NULL only records the change
+    user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    interval_minutes INTEGER NOT NULL DEFAULT 1440 CHECK (interval_minutes >= 15),
+    min_change_ratio NUMERIC(5,4) NOT NULL DEFAULT 0.02, -- share of the text that must change to count
+    next_check_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE, -- held while a check runs
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    last_snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL, -- compared against; moves on each recorded change
+    last_change_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS url_watches_due_idx ON url_watches (next_check_at) WHERE enabled;
+
+-- Create url_changes table (meaningful changes found by watch-urls)
+CREATE TABLE IF NOT EXISTS url_changes (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    url_id BIGINT NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+    watch_id BIGINT REFERENCES url_watches(id) ON DELETE SET NULL,
+    previous_snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL,
+    snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL,
+    change_ratio NUMERIC(5,4) NOT NULL,
+    added_lines INTEGER NOT NULL,
+    removed_lines INTEGER NOT NULL,
+    diff JSONB NOT NULL,              -- hunks from _shared/diff.ts
+    previous_summary_id BIGINT REFERENCES url_summery(id) ON DELETE SET NULL, -- latest summary before the change
+    job_id BIGINT REFERENCES summary_jobs(id) ON DELETE SET NULL,             -- re-run of the watch's prompt
+    acknowledged_at TIMESTAMP WITH TIME ZONE -- dismissed in the UI
+);
+
+CREATE INDEX IF NOT EXISTS url_changes_url_id_idx ON url_changes (url_id, created_at DESC);
+
+-- Create api_keys table (personal keys for the api function; only the hash is kept)
+CREATE TABLE IF NOT EXISTS api_keys (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    key_prefix TEXT NOT NULL,         -- first characters of the key, to tell keys apart
+    key_hash TEXT NOT NULL UNIQUE,    -- hex SHA-256 of the key
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_user_id_idx ON api_keys (user_id, created_at DESC);
+
+-- Create page_chunks table (embedded passages of each URL's page, for semantic search and library Q&A)
+CREATE TABLE IF NOT EXISTS page_chunks (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    url_id BIGINT NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+    snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL, -- the page version that was embedded
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    token_count INTEGER,
+    embedding_model TEXT NOT NULL,    -- provider/model; vectors are only compared within a model
+    embedding extensions.vector NOT NULL, -- any dimension, so the model can be changed
+    UNIQUE (url_id, embedding_model, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS page_chunks_workspace_model_idx ON page_chunks (workspace_id, embedding_model);
+
+-- Create page_indexes table (one row per indexed URL, including pages without text)
+CREATE TABLE IF NOT EXISTS page_indexes (
+    url_id BIGINT PRIMARY KEY REFERENCES urls(id) ON DELETE CASCADE,
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL,
+    embedding_model TEXT NOT NULL,
+    chunk_count INTEGER NOT NULL,
+    indexed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS page_indexes_workspace_model_idx ON page_indexes (workspace_id, embedding_model);
+
+-- Create webhooks table (endpoints notified of a workspace's events)
+CREATE TABLE IF NOT EXISTS webhooks (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL, -- creator
+    url TEXT NOT NULL CHECK (url ~ '^https?://'),
+    description TEXT,
+    events TEXT[] NOT NULL CHECK (
+        cardinality(events) > 0
+        AND events <@ ARRAY['summary.created', 'summary.failed', 'url.changed']::TEXT[]
+    ),
+    secret TEXT NOT NULL DEFAULT 'whsec_' || encode(extensions.gen_random_bytes(24), 'hex'), -- HMAC key for X-Webhook-Signature
+    enabled BOOLEAN NOT NULL DEFAULT TRUE
 );
 
+CREATE INDEX IF NOT EXISTS webhooks_workspace_id_idx ON webhooks (workspace_id);
+
+-- Create webhook_deliveries table (queue drained by the deliver-webhooks function, kept as the delivery log)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    webhook_id BIGINT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,           -- request body without the delivery id
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 6,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- not claimed before this (retry backoff)
+    locked_until TIMESTAMP WITH TIME ZONE, -- held while an attempt runs
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    response_status INTEGER,
+    response_body TEXT,               -- start of the endpoint's response
+    error TEXT,                       -- why the last attempt failed
+    duration_ms INTEGER,
+    replay_of BIGINT REFERENCES webhook_deliveries(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_pending_idx ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_id_idx ON webhook_deliveries (webhook_id, created_at DESC);
+
+-- Claim due deliveries for an attempt. Attempts whose function died are retried once
+-- the lock expires.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(batch_size INTEGER DEFAULT 10, lock_seconds INTEGER DEFAULT 60)
+RETURNS SETOF webhook_deliveries
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE webhook_deliveries AS delivery
+    SET locked_until = NOW() + make_interval(secs => lock_seconds),
+        attempts = delivery.attempts + 1
+    WHERE delivery.id IN (
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'pending'
+          AND next_attempt_at <= NOW()
+          AND (locked_until IS NULL OR locked_until < NOW())
+        ORDER BY next_attempt_at
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING delivery.*;
+END;
+$$;
+
+-- Claim due watches for a check. Checks whose function died are retried once the
+-- lock expires.
+CREATE OR REPLACE FUNCTION claim_due_watches(batch_size INTEGER DEFAULT 10, lock_seconds INTEGER DEFAULT 300)
+RETURNS SETOF url_watches
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE url_watches AS watch
+    SET locked_until = NOW() + make_interval(secs => lock_seconds)
+    WHERE watch.id IN (
+        SELECT id FROM url_watches
+        WHERE enabled
+          AND next_check_at <= NOW()
+          AND (locked_until IS NULL OR locked_until < NOW())
+        ORDER BY next_check_at
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING watch.*;
+END;
+$$;
+
+-- Job counts per batch
+CREATE OR REPLACE VIEW summary_batch_progress WITH (security_invoker = true) AS
+SELECT
+    b.id AS batch_id,
+    b.created_at,
+    b.user_id,
+    b.concurrency,
+    COUNT(j.id) AS total,
+    COUNT(j.id) FILTER (WHERE j.status = 'queued') AS queued,
+    COUNT(j.id) FILTER (WHERE j.status = 'running') AS running,
+    COUNT(j.id) FILTER (WHERE j.status = 'succeeded') AS succeeded,
+    COUNT(j.id) FILTER (WHERE j.status = 'failed') AS failed,
+    COUNT(j.id) FILTER (WHERE j.status = 'cancelled') AS cancelled,
+    MAX(j.finished_at) AS last_finished_at,
+    b.workspace_id
+FROM summary_batches b
+LEFT JOIN summary_jobs j ON j.batch_id = b.id
+GROUP BY b.id;
+
+-- Spend per day, prompt and user (and workspace)
+CREATE OR REPLACE VIEW summary_usage WITH (security_invoker = true) AS
+SELECT
+    (s.created_at AT TIME ZONE 'UTC')::date AS day,
+    s.prompt_id,
+    p.prompt_name,
+    s.user_id,
+    COUNT(*) AS summaries,
+    COALESCE(SUM(s.prompt_tokens), 0) AS prompt_tokens,
+    COALESCE(SUM(s.completion_tokens), 0) AS completion_tokens,
+    COALESCE(SUM(s.cost_usd), 0) AS cost_usd,
+    COUNT(*) FILTER (WHERE s.prompt_tokens IS NOT NULL AND s.cost_usd IS NULL) AS unpriced_summaries,
+    ROUND(AVG(s.scrape_ms)) AS avg_scrape_ms,
+    ROUND(AVG(s.llm_ms)) AS avg_llm_ms,
+    ROUND(AVG(s.total_ms)) AS avg_total_ms,
+    s.workspace_id
+FROM url_summery s
+LEFT JOIN prompts p ON p.id = s.prompt_id
+GROUP BY 1, 2, 3, 4, s.workspace_id;
+
+-- Search a workspace's URLs, best match first. search_query takes web search syntax
+-- ("quoted phrases", or, -excluded); an empty query lists every URL that passes the
+-- filters, newest first. Each row is a URL with its best matching summary, and the
+-- snippets mark the matched words with <mark></mark>. Runs as the caller, so Row Level
+-- Security limits it to workspaces they belong to.
+CREATE OR REPLACE FUNCTION search_urls(
+    target_workspace BIGINT,
+    search_query TEXT DEFAULT '',
+    prompt_filter BIGINT DEFAULT NULL,   -- only URLs with a summary from this prompt
+    domain_filter TEXT DEFAULT NULL,     -- host, including its subdomains
+    added_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    added_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    result_limit INTEGER DEFAULT 50,
+    result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    url_id BIGINT,
+    rank REAL,
+    url_snippet TEXT,
+    summary_id BIGINT,
+    prompt_id BIGINT,
+    prompt_name TEXT,
+    summary_snippet TEXT,
+    content_snippet TEXT,
+    matching_summaries INTEGER,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS q
+    ),
+    candidates AS (
+        SELECT u.id, u.url, u.caption, u.title, u.created_at
+        FROM urls u
+        WHERE u.workspace_id = target_workspace
+          AND (domain_filter IS NULL OR domain_filter = ''
+               OR lower(substring(u.url FROM '^[a-zA-Z]+://(?:www\.)?([^/:?#]+)')) = lower(domain_filter)
+               OR lower(substring(u.url FROM '^[a-zA-Z]+://([^/:?#]+)')) LIKE '%.' || lower(domain_filter))
+          AND (added_after IS NULL OR u.created_at >= added_after)
+          AND (added_before IS NULL OR u.created_at < added_before)
+          AND (prompt_filter IS NULL OR EXISTS (
+              SELECT 1 FROM url_summery s WHERE s.url_id = u.id AND s.prompt_id = prompt_filter
+          ))
+    ),
+    summary_hits AS (
+        SELECT DISTINCT ON (s.url_id)
+            s.url_id,
+            s.id,
+            ts_rank(summary_search_vector(s.ai_response, s.scraped_data), query.q) AS rank,
+            COUNT(*) OVER (PARTITION BY s.url_id) AS hits
+        FROM url_summery s, query
+        WHERE s.workspace_id = target_workspace
+          AND s.url_id IN (SELECT id FROM candidates)
+          AND (prompt_filter IS NULL OR s.prompt_id = prompt_filter)
+          AND summary_search_vector(s.ai_response, s.scraped_data) @@ query.q
+        ORDER BY s.url_id, rank DESC, s.id DESC
+    ),
+    ranked AS (
+        SELECT
+            c.id,
+            c.created_at,
+            -- A match in the caption or address counts twice
+            (2 * ts_rank(url_search_vector(c.url, c.caption, c.title), query.q) + coalesce(sh.rank, 0))::REAL AS rank,
+            sh.id AS summary_id,
+            coalesce(sh.hits, 0)::INTEGER AS hits,
+            COUNT(*) OVER () AS total_count
+        FROM candidates c
+        CROSS JOIN query
+        LEFT JOIN summary_hits sh ON sh.url_id = c.id
+        WHERE numnode(query.q) = 0
+           OR sh.id IS NOT NULL
+           OR url_search_vector(c.url, c.caption, c.title) @@ query.q
+        ORDER BY rank DESC, c.created_at DESC, c.id DESC
+        LIMIT result_limit
+        OFFSET result_offset
+    )
+    SELECT
+        r.id,
+        r.rank,
+        ts_headline('english', concat_ws(' · ', coalesce(u.title, u.caption), u.url), query.q,
+            'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+        s.id,
+        s.prompt_id,
+        p.prompt_name,
+        CASE WHEN s.id IS NOT NULL THEN ts_headline('english', coalesce(s.ai_response, ''), query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=12') END,
+        CASE WHEN s.id IS NOT NULL THEN ts_headline('english', left(coalesce(s.scraped_data, ''), 100000), query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=12') END,
+        r.hits,
+        r.total_count
+    FROM ranked r
+    JOIN urls u ON u.id = r.id
+    CROSS JOIN query
+    LEFT JOIN url_summery s ON s.id = r.summary_id
+    LEFT JOIN prompts p ON p.id = s.prompt_id
+    ORDER BY r.rank DESC, r.created_at DESC, r.id DESC;
+$$;
+
+-- The chunks are scanned exactly, which is quick for a personal or team library. For
+-- a large one, add an approximate index for the model in use, e.g.
+--   CREATE INDEX ON page_chunks USING hnsw ((embedding::extensions.vector(1536)) extensions.vector_cosine_ops)
+--       WHERE embedding_model = 'openai/text-embedding-3-small';
+-- and cast the same way in match_page_chunks().
+
+-- The chunks of a workspace closest in meaning to query_embedding, most similar
+-- first. Similarity is cosine similarity (1 is identical). Runs as the caller, so Row
+-- Level Security limits it to workspaces they belong to.
+CREATE OR REPLACE FUNCTION match_page_chunks(
+    target_workspace BIGINT,
+    query_embedding extensions.vector,
+    model TEXT,
+    match_count INTEGER DEFAULT 8,
+    min_similarity REAL DEFAULT 0
+)
+RETURNS TABLE (
+    id BIGINT,
+    url_id BIGINT,
+    chunk_index INTEGER,
+    content TEXT,
+    similarity REAL,
+    url TEXT,
+    title TEXT,
+    caption TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    SELECT c.id, c.url_id, c.chunk_index, c.content, c.similarity, u.url, u.title, u.caption
+    FROM (
+        SELECT pc.id, pc.url_id, pc.chunk_index, pc.content,
+            (1 - (pc.embedding <=> query_embedding))::REAL AS similarity
+        FROM page_chunks pc
+        WHERE pc.workspace_id = target_workspace
+          AND pc.embedding_model = model
+          AND vector_dims(pc.embedding) = vector_dims(query_embedding)
+        ORDER BY pc.embedding <=> query_embedding
+        LIMIT match_count
+    ) c
+    JOIN urls u ON u.id = c.url_id
+    WHERE c.similarity >= min_similarity
+    ORDER BY c.similarity DESC;
+$$;
+
+-- Replace a URL's chunks, from any snapshot or model, with new ones in one
+-- transaction, and record the page as indexed. chunks is an array of
+-- {"content", "token_count", "embedding"} in chunk order; it may be empty.
+CREATE OR REPLACE FUNCTION replace_page_chunks(
+    target_url BIGINT,
+    target_workspace BIGINT,
+    snapshot BIGINT,
+    model TEXT,
+    chunks JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+    -- Concurrent indexing of the same URL waits instead of colliding on chunk_index
+    PERFORM 1 FROM urls WHERE id = target_url FOR UPDATE;
+
+    DELETE FROM page_chunks WHERE url_id = target_url;
+
+    INSERT INTO page_chunks (workspace_id, url_id, snapshot_id, chunk_index, content, token_count, embedding_model, embedding)
+    SELECT target_workspace, target_url, snapshot, (c.ordinality - 1)::INTEGER, c.value->>'content',
+        (c.value->>'token_count')::INTEGER, model, (c.value->>'embedding')::extensions.vector
+    FROM jsonb_array_elements(chunks) WITH ORDINALITY AS c(value, ordinality);
+
+    INSERT INTO page_indexes (url_id, workspace_id, snapshot_id, embedding_model, chunk_count, indexed_at)
+    VALUES (target_url, target_workspace, snapshot, model, jsonb_array_length(chunks), NOW())
+    ON CONFLICT (url_id) DO UPDATE SET
+        workspace_id = EXCLUDED.workspace_id,
+        snapshot_id = EXCLUDED.snapshot_id,
+        embedding_model = EXCLUDED.embedding_model,
+        chunk_count = EXCLUDED.chunk_count,
+        indexed_at = EXCLUDED.indexed_at;
+
+    RETURN jsonb_array_length(chunks);
+END;
+$$;
+
 -- Insert sample prompts
-INSERT INTO prompts (prompt_name, prompt, description) VALUES 
-('General Summary', 'Please provide a concise summary of this webpage in 2-3 sentences, focusing on the main points and key information.', 'General purpose summary for any webpage'),
-('Key Insights', 'Analyze this webpage and extract the top 3-5 key insights or takeaways. Present them as bullet points.', 'Focuses on extracting actionable insights'),
-('Technical Analysis', 'Provide a technical analysis of this webpage, focusing on any technical concepts, methodologies, or implementations discussed.', 'Best for technical content and documentation'),
-('Business Analysis', 'Analyze this webpage from a business perspective. What are the business implications, opportunities, or strategies mentioned?', 'Business-focused analysis for commercial content');
-
--- Enable Row Level Security (RLS) - Optional, remove if you want to keep it simple
--- ALTER TABLE urls ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE prompts ENABLE ROW LEVEL SECURITY;
--- ALTER TABLE url_summery ENABLE ROW LEVEL SECURITY;
-
--- Create policies (optional - only if you enabled RLS above)
--- CREATE POLICY "Allow all operations for authenticated users" ON urls FOR ALL USING (true);
--- CREATE POLICY "Allow all operations for authenticated users" ON prompts FOR ALL USING (true);
--- CREATE POLICY "Allow all operations for authenticated users" ON url_summery FOR ALL USING (true);
\ No newline at end of file
+INSERT INTO prompts (prompt_name, prompt, description, output_schema) VALUES 
+('General Summary', 'Please provide a concise summary of this webpage in 2-3 sentences, focusing on the main points and key information.', 'General purpose summary for any webpage', NULL),
+('Key Insights', 'Analyze this webpage and extract the top 3-5 key insights or takeaways. Present them as bullet points.', 'Focuses on extracting actionable insights', '{"type": "object", "properties": {"insights": {"type": "array", "minItems": 1, "maxItems": 5, "items": {"type": "object", "properties": {"insight": {"type": "string"}, "why_it_matters": {"type": "string"}}, "required": ["insight", "why_it_matters"]}}}, "required": ["insights"]}'),
+('Technical Analysis', 'Provide a technical analysis of this webpage, focusing on any technical concepts, methodologies, or implementations discussed.', 'Best for technical content and documentation', NULL),
+('Business Analysis', 'Analyze this webpage from a business perspective. What are the business implications, opportunities, or strategies mentioned?', 'Business-focused analysis for commercial content', '{"type": "object", "properties": {"summary": {"type": "string"}, "implications": {"type": "array", "items": {"type": "string"}}, "opportunities": {"type": "array", "items": {"type": "string"}}, "risks": {"type": "array", "items": {"type": "string"}}, "strategies": {"type": "array", "items": {"type": "string"}}}, "required": ["summary", "implications", "opportunities"]}');
+
+-- Personal workspace for every new account
+CREATE OR REPLACE FUNCTION create_personal_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    personal_id BIGINT;
+BEGIN
+    INSERT INTO workspaces (name, created_by, personal) VALUES ('Personal', NEW.id, TRUE)
+    RETURNING id INTO personal_id;
+    INSERT INTO workspace_members (workspace_id, user_id, email, role) VALUES (personal_id, NEW.id, NEW.email, 'owner');
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.create_personal_workspace();
+
+-- Row Level Security: members of a workspace read its rows, owners and editors change
+-- them. The edge functions use the service role and check the caller's role themselves.
+ALTER TABLE urls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE url_summery ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE summary_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE summary_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE url_watches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE url_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_indexes ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces are created with create_workspace()
+CREATE POLICY "Members read their workspaces" ON workspaces
+    FOR SELECT TO authenticated
+    USING (workspace_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners rename workspaces" ON workspaces
+    FOR UPDATE TO authenticated
+    USING (workspace_role(id) = 'owner');
+
+REVOKE UPDATE ON workspaces FROM anon, authenticated;
+GRANT UPDATE (name) ON workspaces TO authenticated;
+
+-- Members join with accept_workspace_invite()
+CREATE POLICY "Members read the member list" ON workspace_members
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Owners change roles" ON workspace_members
+    FOR UPDATE TO authenticated
+    USING (workspace_role(workspace_id) = 'owner')
+    WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+REVOKE UPDATE ON workspace_members FROM anon, authenticated;
+GRANT UPDATE (role) ON workspace_members TO authenticated;
+
+CREATE POLICY "Owners remove members and members leave" ON workspace_members
+    FOR DELETE TO authenticated
+    USING (workspace_role(workspace_id) = 'owner' OR user_id = auth.uid());
+
+-- Users can't leave a workspace without an owner. Changes made with the service role
+-- (deleting an account, for instance) aren't checked.
+CREATE OR REPLACE FUNCTION keep_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL
+       AND OLD.role = 'owner'
+       AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+       AND NOT EXISTS (
+           SELECT 1 FROM workspace_members
+           WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND user_id <> OLD.user_id
+       ) THEN
+        RAISE EXCEPTION 'A workspace needs at least one owner';
+    END IF;
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_workspace_owner ON workspace_members;
+CREATE TRIGGER keep_workspace_owner
+    BEFORE UPDATE OR DELETE ON workspace_members
+    FOR EACH ROW EXECUTE FUNCTION keep_workspace_owner();
+
+-- Invitations are created by the invite-member function
+CREATE POLICY "Owners and invitees read invitations" ON workspace_invites
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) = 'owner' OR email = confirmed_email());
+
+CREATE POLICY "Owners revoke and invitees decline invitations" ON workspace_invites
+    FOR DELETE TO authenticated
+    USING (workspace_role(workspace_id) = 'owner' OR email = confirmed_email());
+
+CREATE POLICY "Members read workspace URLs" ON urls
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Editors manage workspace URLs" ON urls
+    FOR ALL TO authenticated
+    USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+    WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- The sample prompts above have no workspace and are shared with every user
+CREATE POLICY "Members read workspace and shared prompts" ON prompts
+    FOR SELECT TO authenticated
+    USING (workspace_id IS NULL OR workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Editors manage workspace prompts" ON prompts
+    FOR ALL TO authenticated
+    USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+    WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- Summaries are written by the edge functions
+CREATE POLICY "Members read workspace summaries" ON url_summery
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Members read snapshots of workspace summaries" ON page_snapshots
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM url_summery s
+        WHERE s.snapshot_id = page_snapshots.id AND workspace_role(s.workspace_id) IS NOT NULL
+    ));
+
+CREATE POLICY "Members read workspace batches" ON summary_batches
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Members read jobs for workspace URLs" ON summary_jobs
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = summary_jobs.url_id AND workspace_role(urls.workspace_id) IS NOT NULL
+    ));
+
+-- Only an unfinished job can be moved, and only to cancelled
+CREATE POLICY "Editors cancel jobs for workspace URLs" ON summary_jobs
+    FOR UPDATE TO authenticated
+    USING (
+        status IN ('queued', 'running')
+        AND EXISTS (
+            SELECT 1 FROM urls WHERE urls.id = summary_jobs.url_id AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+        )
+    )
+    WITH CHECK (
+        status = 'cancelled'
+        AND EXISTS (
+            SELECT 1 FROM urls WHERE urls.id = summary_jobs.url_id AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+        )
+    );
+
+CREATE POLICY "Members read watches on workspace URLs" ON url_watches
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = url_watches.url_id AND workspace_role(urls.workspace_id) IS NOT NULL
+    ));
+
+CREATE POLICY "Editors manage watches on workspace URLs" ON url_watches
+    FOR ALL TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = url_watches.url_id AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+    ))
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM urls
+        WHERE urls.id = url_watches.url_id
+          AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+          AND (url_watches.prompt_id IS NULL OR EXISTS (
+              SELECT 1 FROM prompts
+              WHERE prompts.id = url_watches.prompt_id
+                AND (prompts.workspace_id IS NULL OR prompts.workspace_id = urls.workspace_id)
+          ))
+    ));
+
+CREATE POLICY "Members read changes to workspace URLs" ON url_changes
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = url_changes.url_id AND workspace_role(urls.workspace_id) IS NOT NULL
+    ));
+
+CREATE POLICY "Editors dismiss changes to workspace URLs" ON url_changes
+    FOR UPDATE TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = url_changes.url_id AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+    ));
+
+-- Jobs are cancelled and changes dismissed from the browser; only the columns that takes can change
+REVOKE UPDATE ON summary_jobs FROM anon, authenticated;
+GRANT UPDATE (status, finished_at, locked_until, progress) ON summary_jobs TO authenticated;
+
+REVOKE UPDATE ON url_changes FROM anon, authenticated;
+GRANT UPDATE (acknowledged_at) ON url_changes TO authenticated;
+
+-- API keys are created with create_api_key() and revoked from the browser; the hash
+-- stays with the service role
+CREATE POLICY "Users read their API keys" ON api_keys
+    FOR SELECT TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users revoke their API keys" ON api_keys
+    FOR UPDATE TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+REVOKE SELECT, UPDATE ON api_keys FROM anon, authenticated;
+GRANT SELECT (id, created_at, user_id, name, key_prefix, last_used_at, revoked_at) ON api_keys TO authenticated;
+GRANT UPDATE (revoked_at) ON api_keys TO authenticated;
+
+-- Webhooks hold their signing secret, so viewers don't see them
+CREATE POLICY "Editors manage workspace webhooks" ON webhooks
+    FOR ALL TO authenticated
+    USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+    WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- The secret is generated by the table
+REVOKE INSERT, UPDATE ON webhooks FROM anon, authenticated;
+GRANT INSERT (workspace_id, url, description, events, enabled) ON webhooks TO authenticated;
+GRANT UPDATE (url, description, events, enabled) ON webhooks TO authenticated;
+
+-- Deliveries are written by the edge functions
+CREATE POLICY "Editors read deliveries of workspace webhooks" ON webhook_deliveries
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM webhooks
+        WHERE webhooks.id = webhook_deliveries.webhook_id AND workspace_role(webhooks.workspace_id) IN ('owner', 'editor')
+    ));
+
+-- Chunks and indexes are written by the edge functions
+CREATE POLICY "Members read workspace page chunks" ON page_chunks
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Members read workspace page indexes" ON page_indexes
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+-- New workspace with the caller as its owner
+CREATE OR REPLACE FUNCTION create_workspace(workspace_name TEXT)
+RETURNS workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    created workspaces;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to create a workspace';
+    END IF;
+
+    INSERT INTO workspaces (name, created_by) VALUES (trim(workspace_name), auth.uid())
+    RETURNING * INTO created;
+    INSERT INTO workspace_members (workspace_id, user_id, email, role)
+    VALUES (created.id, auth.uid(), auth.jwt() ->> 'email', 'owner');
+    RETURN created;
+END;
+$$;
+
+-- Join the workspace of an invitation sent to the caller's confirmed email address.
+-- Returns the workspace id; a member keeps the role they already have.
+CREATE OR REPLACE FUNCTION accept_workspace_invite(invite_id BIGINT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invite workspace_invites;
+BEGIN
+    SELECT * INTO invite FROM workspace_invites
+    WHERE id = invite_id
+      AND email = confirmed_email()
+      AND accepted_at IS NULL
+      AND expires_at > NOW();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'The invitation was not found or has expired';
+    END IF;
+
+    INSERT INTO workspace_members (workspace_id, user_id, email, role)
+    VALUES (invite.workspace_id, auth.uid(), invite.email, invite.role)
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+    UPDATE workspace_invites SET accepted_at = NOW() WHERE id = invite.id;
+    RETURN invite.workspace_id;
+END;
+$$;
+
+-- New API key for the caller. Returns the key, which can't be read back later.
+CREATE OR REPLACE FUNCTION create_api_key(key_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    new_key TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to create an API key';
+    END IF;
+
+    new_key := 'usk_' || encode(extensions.gen_random_bytes(24), 'hex');
+    INSERT INTO api_keys (user_id, name, key_prefix, key_hash)
+    VALUES (auth.uid(), trim(key_name), left(new_key, 12), encode(extensions.digest(new_key, 'sha256'), 'hex'));
+    RETURN new_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_workspace(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION accept_workspace_invite(BIGINT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION create_api_key(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_workspace(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_workspace_invite(BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_api_key(TEXT) TO authenticated;
+
+-- Queue functions are for the edge functions (service role) only
+REVOKE EXECUTE ON FUNCTION claim_summary_jobs(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_due_watches(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION replace_page_chunks(BIGINT, BIGINT, BIGINT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
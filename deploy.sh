@@ -32,6 +32,15 @@ read
 echo "Deploying edge functions..."
 supabase functions deploy summerize_url
 supabase functions deploy process-url
+supabase functions deploy summary-worker
+supabase functions deploy process-batch
+supabase functions deploy import-urls
+supabase functions deploy watch-urls
+supabase functions deploy invite-member
+supabase functions deploy deliver-webhooks
+supabase functions deploy ask-library
+supabase functions deploy index-library
+supabase functions deploy api --no-verify-jwt
 
 echo "📱 Preparing React app for deployment..."
 cd url-summarizer
@@ -50,4 +59,5 @@ echo "✅ Deployment preparation complete!"
 echo "Don't forget to:"
 echo "1. Update .env.production with your actual Supabase credentials"
 echo "2. Set environment variables in Vercel dashboard"
-echo "3. Test the deployed application"
\ No newline at end of file
+echo "3. Schedule summary-worker, watch-urls and deliver-webhooks with pg_cron (see production-setup.md)"
+echo "4. Test the deployed application"
\ No newline at end of file
@@ -0,0 +1,316 @@
+// Building blocks of the public REST API (the api function). Each route carries its
+// own documentation, so the OpenAPI document is generated from the same table that
+// dispatches requests and can't drift from it.
+//
+// Every response uses one of these envelopes:
+//   { "data": { ... } }                                           a resource
+//   { "data": [ ... ], "pagination": { limit, offset, total } }   a page of a list
+//   { "error": { "code", "message", "details"? } }                codes from errors.ts
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { classifyError, type ErrorCode } from './errors.ts'
+import type { JsonSchema } from './llm.ts'
+
+export type ApiMethod = 'GET' | 'POST' | 'DELETE'
+
+export interface ApiParameter {
+  name: string
+  in: 'path' | 'query'
+  description: string
+  required?: boolean
+  schema: JsonSchema
+}
+
+export interface ApiRequest {
+  supabase: SupabaseClient
+  // Null only on public routes
+  userId: string | null
+  params: Record<string, string>
+  query: URLSearchParams
+  body: Record<string, unknown>
+  // Base URL of the API, e.g. https://<project>.supabase.co/functions/v1/api
+  baseUrl: string
+}
+
+export interface ApiResult {
+  status?: number
+  // Sent as JSON; omitted for 204
+  body?: unknown
+}
+
+export interface ApiRoute {
+  method: ApiMethod
+  // OpenAPI-style template, e.g. /v1/urls/{id}
+  path: string
+  operationId: string
+  tag: string
+  summary: string
+  description?: string
+  // Served without an API key or access token
+  public?: boolean
+  parameters?: ApiParameter[]
+  requestBody?: JsonSchema
+  response: { status: number; description: string; schema?: JsonSchema }
+  handler: (request: ApiRequest) => Promise<ApiResult>
+}
+
+export interface Pagination {
+  limit: number
+  offset: number
+  total: number
+}
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  400: 'The request is invalid',
+  401: 'Missing, unknown or revoked API key',
+  403: "The caller's role in the workspace doesn't allow this",
+  404: 'Not found, or not visible to the caller',
+}
+
+// Raised by route handlers; `code` and `status` end up in the error envelope
+export class ApiError extends Error {
+  code: ErrorCode
+  status: number
+  details?: string
+
+  constructor(status: number, code: ErrorCode, message: string, details?: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+export function invalidRequest(message: string): ApiError {
+  return new ApiError(400, 'invalid_request', message)
+}
+
+export function notFound(message: string): ApiError {
+  return new ApiError(404, 'not_found', message)
+}
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-api-key, x-client-info, apikey, content-type',
+}
+
+export function jsonResponse(status: number, body?: unknown): Response {
+  if (status === 204) return new Response(null, { status, headers: corsHeaders })
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  })
+}
+
+export function errorResponse(error: unknown): Response {
+  if (error instanceof ApiError) {
+    return jsonResponse(error.status, {
+      error: { code: error.code, message: error.message, ...(error.details ? { details: error.details } : {}) },
+    })
+  }
+
+  // Postgres check_violation and invalid_text_representation: a value the table rejects
+  const pgCode = (error as { code?: string } | null)?.code
+  if (pgCode === '23514' || pgCode === '22P02') {
+    return jsonResponse(400, { error: { code: 'invalid_request', message: (error as Error).message } })
+  }
+
+  const { code, status, message } = classifyError(error)
+  console.error(`API error (${code}):`, error)
+  return jsonResponse(status, { error: { code, message } })
+}
+
+export function dataResult<T>(data: T, status = 200): ApiResult {
+  return { status, body: { data } }
+}
+
+export function listResult<T>(data: T[], pagination: Pagination): ApiResult {
+  return { body: { data, pagination } }
+}
+
+// The route for a method and path (relative to the function), with its path
+// parameters. Throws not_found, or a 405 when the path exists for other methods.
+export function matchRoute(
+  routes: ApiRoute[],
+  method: string,
+  path: string
+): { route: ApiRoute; params: Record<string, string> } {
+  let pathMatched = false
+
+  for (const route of routes) {
+    const names: string[] = []
+    const pattern = route.path.replace(/\{(\w+)\}/g, (_, name) => {
+      names.push(name)
+      return '([^/]+)'
+    })
+    const match = path.match(new RegExp(`^${pattern}/?$`))
+    if (!match) continue
+
+    pathMatched = true
+    if (route.method !== method) continue
+
+    const params = Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1])]))
+    return { route, params }
+  }
+
+  if (pathMatched) throw new ApiError(405, 'method_not_allowed', `${method} is not supported on ${path}`)
+  throw notFound(`No endpoint at ${path}`)
+}
+
+// limit and offset query parameters, shared by every list
+export const PAGINATION_PARAMETERS: ApiParameter[] = [
+  {
+    name: 'limit',
+    in: 'query',
+    description: 'Items per page',
+    schema: { type: 'integer', minimum: 1, maximum: 200, default: 50 },
+  },
+  {
+    name: 'offset',
+    in: 'query',
+    description: 'Items to skip',
+    schema: { type: 'integer', minimum: 0, default: 0 },
+  },
+]
+
+export function paginationFromQuery(query: URLSearchParams): { limit: number; offset: number } {
+  return {
+    limit: integerParam(query, 'limit', { min: 1, max: 200 }) ?? 50,
+    offset: integerParam(query, 'offset', { min: 0 }) ?? 0,
+  }
+}
+
+// An optional integer query parameter within bounds
+export function integerParam(
+  query: URLSearchParams,
+  name: string,
+  { min, max }: { min?: number; max?: number } = {}
+): number | null {
+  const raw = query.get(name)
+  if (raw === null || raw === '') return null
+
+  const value = Number(raw)
+  if (!Number.isInteger(value) || (min !== undefined && value < min) || (max !== undefined && value > max)) {
+    const range = max !== undefined ? ` between ${min ?? 0} and ${max}` : min !== undefined ? ` of at least ${min}` : ''
+    throw invalidRequest(`${name} must be an integer${range}`)
+  }
+  return value
+}
+
+// A positive integer id, from the path, the query string or the body
+export function idValue(value: unknown, name: string): number {
+  const id = typeof value === 'string' && value !== '' ? Number(value) : value
+  if (typeof id !== 'number' || !Number.isInteger(id) || id < 1) {
+    throw invalidRequest(`${name} must be a positive integer`)
+  }
+  return id
+}
+
+export function openApiDocument(
+  routes: ApiRoute[],
+  { title, version, description, serverUrl, schemas }: {
+    title: string
+    version: string
+    description: string
+    serverUrl: string
+    schemas: Record<string, JsonSchema>
+  }
+): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {}
+
+  for (const route of routes) {
+    const responses: Record<string, unknown> = {
+      [route.response.status]: {
+        description: route.response.description,
+        ...(route.response.schema ? { content: { 'application/json': { schema: route.response.schema } } } : {}),
+      },
+    }
+    const errorStatuses = [
+      ...(route.parameters?.length || route.requestBody ? [400] : []),
+      ...(route.public ? [] : [401]),
+      ...(route.method === 'GET' ? [] : [403]),
+      ...(route.public ? [] : [404]),
+    ]
+    for (const status of errorStatuses) {
+      responses[status] = {
+        description: STATUS_DESCRIPTIONS[status],
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      }
+    }
+
+    paths[route.path] ??= {}
+    paths[route.path][route.method.toLowerCase()] = {
+      operationId: route.operationId,
+      tags: [route.tag],
+      summary: route.summary,
+      ...(route.description ? { description: route.description } : {}),
+      ...(route.public ? { security: [] } : {}),
+      ...(route.parameters ? { parameters: route.parameters } : {}),
+      ...(route.requestBody
+        ? { requestBody: { required: true, content: { 'application/json': { schema: route.requestBody } } } }
+        : {}),
+      responses,
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title, version, description },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'An API key created in the app (usk_...), or a Supabase access token',
+        },
+      },
+      schemas: {
+        ...schemas,
+        Error: {
+          type: 'object',
+          required: ['error'],
+          properties: {
+            error: {
+              type: 'object',
+              required: ['code', 'message'],
+              properties: {
+                code: { type: 'string', description: 'Stable error code, e.g. invalid_request, not_found, forbidden' },
+                message: { type: 'string' },
+                details: { type: 'string' },
+              },
+            },
+          },
+        },
+        Pagination: {
+          type: 'object',
+          required: ['limit', 'offset', 'total'],
+          properties: {
+            limit: { type: 'integer' },
+            offset: { type: 'integer' },
+            total: { type: 'integer', description: 'Items in the whole list' },
+          },
+        },
+      },
+    },
+  }
+}
+
+// Response schemas of the two envelopes
+export function dataSchema(schema: JsonSchema): JsonSchema {
+  return { type: 'object', required: ['data'], properties: { data: schema } }
+}
+
+export function listSchema(itemSchema: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    required: ['data', 'pagination'],
+    properties: {
+      data: { type: 'array', items: itemSchema },
+      pagination: { $ref: '#/components/schemas/Pagination' },
+    },
+  }
+}
@@ -0,0 +1,100 @@
+// Identify the caller behind a request. The functions use the service role, which
+// bypasses Row Level Security, so they check access themselves: URLs, summaries and
+// jobs belong to a workspace, prompts to a workspace or (without one) to everyone.
+// Members of a workspace read its rows; owners and editors add to it and run prompts.
+// Requests made with the anon key carry a JWT without a user; those have no user id.
+// The api function also takes personal API keys (api_keys), which act as their user.
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { sha256Hex } from './hash.ts'
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+// Every key starts with this, so a key is never mistaken for a JWT
+export const API_KEY_PREFIX = 'usk_'
+
+export async function requestUserId(supabase: SupabaseClient, req: Request): Promise<string | null> {
+  const token = bearerToken(req)
+  if (!token) return null
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data.user) return null
+  return data.user.id
+}
+
+// The user behind an API key, sent as a bearer token or in X-API-Key. Null for a
+// missing, unknown or revoked key.
+export async function apiKeyUserId(supabase: SupabaseClient, req: Request): Promise<string | null> {
+  const key = bearerToken(req) ?? req.headers.get('X-API-Key')
+  if (!key?.startsWith(API_KEY_PREFIX)) return null
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id, user_id')
+    .eq('key_hash', await sha256Hex(key))
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  // Not awaited; a failed update shouldn't fail the request
+  supabase
+    .from('api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id)
+    .then(({ error }) => {
+      if (error) console.error(`Failed to record use of API key ${data.id}:`, error)
+    })
+
+  return data.user_id
+}
+
+// The user's role in a workspace, null when they aren't a member
+export async function workspaceRole(
+  supabase: SupabaseClient,
+  workspaceId: number,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return (data?.role as WorkspaceRole | undefined) ?? null
+}
+
+export function canEditWorkspace(role: WorkspaceRole | null): boolean {
+  return role === 'owner' || role === 'editor'
+}
+
+// PostgREST `or` filter for the prompts a workspace may run: its own and the shared ones
+export function promptAccessFilter(workspaceId: number): string {
+  return `workspace_id.is.null,workspace_id.eq.${workspaceId}`
+}
+
+// summary-worker, watch-urls and deliver-webhooks' queue mode are only called with the
+// service role key, by the other functions and by pg_cron. The token is compared with
+// the key itself rather than trusting an unverified role claim, so this holds even
+// when the gateway doesn't check JWTs (verify_jwt off, or `functions serve
+// --no-verify-jwt`).
+export function isServiceRoleRequest(req: Request): boolean {
+  const token = bearerToken(req)
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  return !!token && !!serviceKey && timingSafeEqual(token, serviceKey)
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a)
+  const right = new TextEncoder().encode(b)
+  if (left.length !== right.length) return false
+  let difference = 0
+  for (let i = 0; i < left.length; i++) difference |= left[i] ^ right[i]
+  return difference === 0
+}
+
+function bearerToken(req: Request): string | null {
+  return req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') || null
+}
@@ -0,0 +1,91 @@
+// Token-aware text chunking for long documents.
+// Token counts are estimated (~4 characters per token for English prose), which is
+// close enough for budgeting context windows without shipping a tokenizer.
+
+const CHARS_PER_TOKEN = 4
+
+export interface ChunkOptions {
+  maxTokens: number
+  overlapTokens?: number
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+// Split text into chunks of at most `maxTokens`, preferring paragraph boundaries,
+// then sentence boundaries, and only cutting mid-sentence as a last resort.
+// Consecutive chunks share `overlapTokens` of trailing context.
+export function chunkText(text: string, { maxTokens, overlapTokens = 0 }: ChunkOptions): string[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN
+  const overlapChars = Math.min(overlapTokens * CHARS_PER_TOKEN, Math.floor(maxChars / 4))
+
+  const trimmed = text.trim()
+  if (!trimmed) return []
+  if (trimmed.length <= maxChars) return [trimmed]
+
+  const pieces = splitIntoPieces(trimmed, maxChars - overlapChars)
+
+  const chunks: string[] = []
+  let current = ''
+  for (const piece of pieces) {
+    const candidate = current ? `${current}\n\n${piece}` : piece
+    if (candidate.length <= maxChars - overlapChars || !current) {
+      current = candidate
+      continue
+    }
+    chunks.push(current)
+    current = piece
+  }
+  if (current) chunks.push(current)
+
+  if (overlapChars === 0) return chunks
+
+  return chunks.map((chunk, index) => {
+    if (index === 0) return chunk
+    const previous = chunks[index - 1]
+    const tail = previous.slice(-overlapChars)
+    // Start the overlap on a word boundary
+    const boundary = tail.search(/\s/)
+    return `${boundary >= 0 ? tail.slice(boundary + 1) : tail}\n\n${chunk}`
+  })
+}
+
+// Break text into pieces no longer than `limit`, splitting by paragraph,
+// then sentence, then hard character cuts.
+function splitIntoPieces(text: string, limit: number): string[] {
+  const pieces: string[] = []
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const trimmed = paragraph.trim()
+    if (!trimmed) continue
+    if (trimmed.length <= limit) {
+      pieces.push(trimmed)
+      continue
+    }
+
+    let sentenceGroup = ''
+    for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+      if (sentence.length > limit) {
+        if (sentenceGroup) {
+          pieces.push(sentenceGroup)
+          sentenceGroup = ''
+        }
+        for (let i = 0; i < sentence.length; i += limit) {
+          pieces.push(sentence.slice(i, i + limit))
+        }
+        continue
+      }
+      const candidate = sentenceGroup ? `${sentenceGroup} ${sentence}` : sentence
+      if (candidate.length > limit) {
+        pieces.push(sentenceGroup)
+        sentenceGroup = sentence
+      } else {
+        sentenceGroup = candidate
+      }
+    }
+    if (sentenceGroup) pieces.push(sentenceGroup)
+  }
+
+  return pieces
+}
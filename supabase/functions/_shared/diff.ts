@@ -0,0 +1,219 @@
+// Line diff of two versions of a page's extracted text, for watched URLs.
+//
+// Lines are compared with whitespace collapsed and blank lines dropped, so reflowed
+// markup doesn't count as a change. The edit script comes from Myers' algorithm; past
+// MAX_EDIT_DISTANCE, aligning would take too much memory, so the lines only one version
+// has are reported without context. change_ratio is the share of characters on changed
+// lines, from 0 (identical) to 1 (nothing in common).
+
+export interface DiffLine {
+  type: 'context' | 'added' | 'removed'
+  text: string
+}
+
+export interface DiffHunk {
+  // 1-based line numbers (of the normalized text) where the hunk starts
+  old_start: number
+  new_start: number
+  lines: DiffLine[]
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[]
+  added_lines: number
+  removed_lines: number
+  change_ratio: number
+  // Some hunks were left out to keep the diff small
+  truncated: boolean
+}
+
+interface DiffOp {
+  type: DiffLine['type']
+  text: string
+  oldLine: number
+  newLine: number
+}
+
+const CONTEXT_LINES = 2
+const MAX_DIFF_LINES = 400
+const MAX_EDIT_DISTANCE = 2000
+
+export function diffText(before: string, after: string): TextDiff {
+  const a = normalizeLines(before)
+  const b = normalizeLines(after)
+  const ops = editScript(a, b)
+
+  let added = 0
+  let removed = 0
+  let changedChars = 0
+  for (const op of ops) {
+    if (op.type === 'added') added++
+    if (op.type === 'removed') removed++
+    if (op.type !== 'context') changedChars += op.text.length
+  }
+
+  const totalChars = a.join('').length + b.join('').length
+  const { hunks, truncated } = buildHunks(ops)
+
+  return {
+    hunks,
+    added_lines: added,
+    removed_lines: removed,
+    change_ratio: totalChars === 0 ? 0 : Math.min(1, changedChars / totalChars),
+    truncated,
+  }
+}
+
+function normalizeLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+}
+
+function editScript(a: string[], b: string[]): DiffOp[] {
+  // Common prefix and suffix don't need the full algorithm
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++
+
+  const context = (from: number, to: number, offsetB: number): DiffOp[] =>
+    a.slice(from, to).map((text, i) => ({
+      type: 'context',
+      text,
+      oldLine: from + i + 1,
+      newLine: from + i + offsetB + 1,
+    }))
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), prefix)
+  return [
+    ...context(0, prefix, 0),
+    ...middle,
+    ...context(a.length - suffix, a.length, b.length - a.length),
+  ]
+}
+
+// Myers' O(ND) diff. `offset` is the number of lines before the compared ranges.
+function myers(a: string[], b: string[], offset: number): DiffOp[] {
+  const n = a.length
+  const m = b.length
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+  const center = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // Endpoints per k for each edit distance, kept for walking the path back
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(center - d - 1, center + d + 2))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[center + k - 1] < v[center + k + 1])
+        ? v[center + k + 1]
+        : v[center + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[center + k] = x
+
+      if (x >= n && y >= m) return backtrack(a, b, trace, offset)
+    }
+  }
+
+  return unalignedDiff(a, b, offset)
+}
+
+// Too many edits to align: report the lines only one side has, without context
+function unalignedDiff(a: string[], b: string[], offset: number): DiffOp[] {
+  const only = (lines: string[], other: string[]) => {
+    const remaining = new Map<string, number>()
+    for (const line of other) remaining.set(line, (remaining.get(line) || 0) + 1)
+    return lines.map((line) => {
+      const count = remaining.get(line) || 0
+      if (count > 0) remaining.set(line, count - 1)
+      return count === 0
+    })
+  }
+  const removed = only(a, b)
+  const added = only(b, a)
+
+  return [
+    ...a.flatMap((text, i): DiffOp[] =>
+      removed[i] ? [{ type: 'removed', text, oldLine: offset + i + 1, newLine: offset + 1 }] : []
+    ),
+    ...b.flatMap((text, i): DiffOp[] =>
+      added[i] ? [{ type: 'added', text, oldLine: offset + a.length + 1, newLine: offset + i + 1 }] : []
+    ),
+  ]
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[], offset: number): DiffOp[] {
+  const ops: DiffOp[] = []
+  let x = a.length
+  let y = b.length
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const endpoints = trace[d]
+    const at = (k: number) => endpoints[k + d + 1]
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'context', text: a[x - 1], oldLine: offset + x, newLine: offset + y })
+      x--
+      y--
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'added', text: b[y - 1], oldLine: offset + x + 1, newLine: offset + y })
+      } else {
+        ops.push({ type: 'removed', text: a[x - 1], oldLine: offset + x, newLine: offset + y + 1 })
+      }
+    }
+    x = prevX
+    y = prevY
+  }
+
+  return ops.reverse()
+}
+
+// Changed lines with a little context around them; nearby changes share a hunk
+function buildHunks(ops: DiffOp[]): { hunks: DiffHunk[]; truncated: boolean } {
+  const keep = new Array<boolean>(ops.length).fill(false)
+  ops.forEach((op, i) => {
+    if (op.type === 'context') return
+    for (let j = Math.max(0, i - CONTEXT_LINES); j <= Math.min(ops.length - 1, i + CONTEXT_LINES); j++) {
+      keep[j] = true
+    }
+  })
+
+  const hunks: DiffHunk[] = []
+  let lineCount = 0
+  let current: DiffHunk | null = null
+
+  for (let i = 0; i < ops.length; i++) {
+    if (!keep[i]) {
+      current = null
+      continue
+    }
+    if (lineCount >= MAX_DIFF_LINES) {
+      return { hunks, truncated: true }
+    }
+    if (!current) {
+      current = { old_start: ops[i].oldLine, new_start: ops[i].newLine, lines: [] }
+      hunks.push(current)
+    }
+    current.lines.push({ type: ops[i].type, text: ops[i].text })
+    lineCount++
+  }
+
+  return { hunks, truncated: false }
+}
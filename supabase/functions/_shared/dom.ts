@@ -0,0 +1,44 @@
+// The part of the DOM the extractors use. linkedom implements it, but its typings
+// assume the browser DOM lib, which the edge runtime doesn't load, so documents are
+// parsed here and typed with these interfaces instead.
+import { DOMParser, parseHTML } from 'npm:linkedom@0.18'
+
+export interface DomNode {
+  // 1 for elements, 3 for text
+  nodeType: number
+  textContent: string | null
+  childNodes: ArrayLike<DomNode>
+  parentElement: DomElement | null
+  cloneNode(deep?: boolean): DomNode
+}
+
+export interface DomElement extends DomNode {
+  // Upper case for HTML elements, as written for XML ones
+  tagName: string
+  localName: string
+  children: ArrayLike<DomElement>
+  getAttribute(name: string): string | null
+  querySelector(selectors: string): DomElement | null
+  querySelectorAll(selectors: string): Iterable<DomElement>
+  getElementsByTagName(name: string): ArrayLike<DomElement>
+  closest(selectors: string): DomElement | null
+  contains(other: DomNode): boolean
+  appendChild(child: DomNode): DomNode
+  remove(): void
+}
+
+export interface DomDocument {
+  documentElement: DomElement | null
+  body: DomElement | null
+  querySelector(selectors: string): DomElement | null
+  querySelectorAll(selectors: string): Iterable<DomElement>
+  createElement(tagName: string): DomElement
+}
+
+export function parseHtml(html: string): DomDocument {
+  return (parseHTML(html) as unknown as { document: DomDocument }).document
+}
+
+export function parseXml(xml: string): DomDocument {
+  return new DOMParser().parseFromString(xml, 'text/xml') as unknown as DomDocument
+}
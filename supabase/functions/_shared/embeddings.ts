@@ -0,0 +1,182 @@
+// Text embeddings for semantic search (library.ts). Providers are pluggable: each
+// entry of EMBEDDING_BACKENDS says how to check its configuration and embed a batch
+// of texts. Both current ones speak the OpenAI /embeddings API, so a local server
+// (Ollama, llama.cpp, vLLM, LM Studio, ...) works through openai_compatible.
+//
+// Environment:
+//   EMBEDDING_PROVIDER     openai (default) or openai_compatible
+//   EMBEDDING_MODEL        default text-embedding-3-small (openai) or nomic-embed-text
+//   EMBEDDING_BASE_URL     openai_compatible server, default OPENAI_COMPATIBLE_BASE_URL
+//   EMBEDDING_API_KEY      openai_compatible bearer token, default OPENAI_COMPATIBLE_API_KEY
+//   EMBEDDING_BATCH_SIZE   texts per request, default 64
+// Requests share LLM_TIMEOUT_MS and the model-call retry policy with llm.ts, and fail
+// with the same LlmError codes; a provider that isn't set up raises EmbeddingConfigError.
+
+import {
+  asLlmError,
+  classifyProviderError,
+  configuredTimeout,
+  LlmConfigError,
+  LlmError,
+  providerLabel,
+} from './llm.ts'
+import { llmRetryPolicy, withRetry } from './retry.ts'
+
+export type EmbeddingProvider = 'openai' | 'openai_compatible'
+
+export const EMBEDDING_PROVIDERS: EmbeddingProvider[] = ['openai', 'openai_compatible']
+
+export interface EmbeddingSettings {
+  provider: EmbeddingProvider
+  model: string
+}
+
+// Raised when the embedding provider is missing its configuration
+export class EmbeddingConfigError extends LlmConfigError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmbeddingConfigError'
+  }
+}
+
+export interface EmbeddingResult {
+  // One vector per input text, in order
+  vectors: number[][]
+  // Input tokens, when the provider reports them
+  tokens: number | null
+}
+
+interface EmbeddingBackend {
+  defaultModel: () => string
+  // Throws EmbeddingConfigError when the provider can't be called
+  assertConfigured: () => void
+  embed: (model: string, texts: string[]) => Promise<EmbeddingResult>
+}
+
+const DEFAULT_BATCH_SIZE = 64
+
+const EMBEDDING_BACKENDS: Record<EmbeddingProvider, EmbeddingBackend> = {
+  openai: {
+    defaultModel: () => 'text-embedding-3-small',
+    assertConfigured: () => {
+      if (!Deno.env.get('OPENAI_API_KEY')) throw new EmbeddingConfigError('OpenAI API key not configured')
+    },
+    embed: (model, texts) =>
+      embedOpenAI('openai', 'https://api.openai.com/v1', Deno.env.get('OPENAI_API_KEY'), model, texts),
+  },
+  openai_compatible: {
+    defaultModel: () => 'nomic-embed-text',
+    assertConfigured: () => {
+      if (!compatibleBaseUrl()) throw new EmbeddingConfigError('OpenAI-compatible embedding base URL not configured')
+    },
+    embed: (model, texts) =>
+      embedOpenAI(
+        'openai_compatible',
+        compatibleBaseUrl()!,
+        Deno.env.get('EMBEDDING_API_KEY') || Deno.env.get('OPENAI_COMPATIBLE_API_KEY'),
+        model,
+        texts
+      ),
+  },
+}
+
+export function isEmbeddingProvider(value: unknown): value is EmbeddingProvider {
+  return typeof value === 'string' && (EMBEDDING_PROVIDERS as string[]).includes(value)
+}
+
+export function resolveEmbeddingSettings(): EmbeddingSettings {
+  const envProvider = Deno.env.get('EMBEDDING_PROVIDER')
+  const provider: EmbeddingProvider = isEmbeddingProvider(envProvider) ? envProvider : 'openai'
+  return {
+    provider,
+    model: Deno.env.get('EMBEDDING_MODEL')?.trim() || EMBEDDING_BACKENDS[provider].defaultModel(),
+  }
+}
+
+// Vectors from different models can't be compared; chunks are stored and matched
+// under this key
+export function embeddingModelKey(settings: EmbeddingSettings): string {
+  return `${settings.provider}/${settings.model}`
+}
+
+export function assertEmbeddingsConfigured(settings: EmbeddingSettings) {
+  EMBEDDING_BACKENDS[settings.provider].assertConfigured()
+}
+
+export function embeddingsConfigured(settings: EmbeddingSettings): boolean {
+  try {
+    assertEmbeddingsConfigured(settings)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Embed any number of texts, a batch per request. onBatch hears how many are done after each.
+export async function embedTexts(
+  settings: EmbeddingSettings,
+  texts: string[],
+  onBatch?: (embedded: number, total: number) => void
+): Promise<EmbeddingResult> {
+  assertEmbeddingsConfigured(settings)
+
+  const backend = EMBEDDING_BACKENDS[settings.provider]
+  const batchSize = Number(Deno.env.get('EMBEDDING_BATCH_SIZE')) || DEFAULT_BATCH_SIZE
+  const vectors: number[][] = []
+  let tokens: number | null = null
+
+  for (let start = 0; start < texts.length; start += batchSize) {
+    const batch = texts.slice(start, start + batchSize)
+    const result = await withRetry(`${providerLabel(settings.provider)} embeddings`, llmRetryPolicy(), () =>
+      backend.embed(settings.model, batch).catch((error) => {
+        throw asLlmError(error, settings.provider)
+      })
+    )
+    if (result.vectors.length !== batch.length) {
+      throw new LlmError('model_error', `Expected ${batch.length} embeddings, got ${result.vectors.length}`)
+    }
+    vectors.push(...result.vectors)
+    if (result.tokens !== null) tokens = (tokens ?? 0) + result.tokens
+    onBatch?.(vectors.length, texts.length)
+  }
+
+  return { vectors, tokens }
+}
+
+async function embedOpenAI(
+  provider: EmbeddingProvider,
+  baseUrl: string,
+  apiKey: string | undefined,
+  model: string,
+  texts: string[]
+): Promise<EmbeddingResult> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/embeddings`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ model, input: texts }),
+    signal: AbortSignal.timeout(configuredTimeout()),
+  })
+
+  if (!response.ok) {
+    throw classifyProviderError(provider, response.status, response.headers, await response.text())
+  }
+
+  const data = await response.json()
+  // Entries carry their input index; not every server keeps them in order
+  const entries = [...(data.data || [])].sort(
+    (a: { index?: number }, b: { index?: number }) => (a.index ?? 0) - (b.index ?? 0)
+  )
+  return {
+    vectors: entries.map((entry: { embedding: number[] }) => entry.embedding),
+    tokens: data.usage?.prompt_tokens ?? null,
+  }
+}
+
+function compatibleBaseUrl(): string | undefined {
+  return Deno.env.get('EMBEDDING_BASE_URL') || Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')
+}
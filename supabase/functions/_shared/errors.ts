@@ -0,0 +1,47 @@
+// Stable error codes returned by the edge functions as `code`, next to `error` and
+// `details`. The frontend maps them to messages (url-summarizer/src/lib/errorCodes.ts).
+import { EmbeddingConfigError } from './embeddings.ts'
+import { FetchError, type FetchErrorCode } from './fetcher.ts'
+import { LlmConfigError, LlmError, type LlmErrorCode } from './llm.ts'
+import { StructuredOutputError } from './structured.ts'
+
+export type ErrorCode =
+  | FetchErrorCode
+  | LlmErrorCode
+  | 'model_not_configured'
+  | 'embeddings_not_configured'
+  | 'structured_output_invalid'
+  | 'job_interrupted'
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'internal_error'
+
+export interface ClassifiedError {
+  code: ErrorCode
+  // HTTP status to respond with
+  status: number
+  message: string
+  // Transient: the same request may succeed later
+  retryable: boolean
+}
+
+export function classifyError(error: unknown): ClassifiedError {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof FetchError || error instanceof LlmError) {
+    return { code: error.code, status: error.status, message, retryable: error.retryable }
+  }
+  if (error instanceof EmbeddingConfigError) {
+    return { code: 'embeddings_not_configured', status: 500, message, retryable: false }
+  }
+  if (error instanceof LlmConfigError) {
+    return { code: 'model_not_configured', status: 500, message, retryable: false }
+  }
+  if (error instanceof StructuredOutputError) {
+    return { code: 'structured_output_invalid', status: 502, message, retryable: false }
+  }
+  return { code: 'internal_error', status: 500, message, retryable: false }
+}
@@ -0,0 +1,446 @@
+// Readability-style main content extraction shared by the edge functions.
+// Parses the page DOM, drops boilerplate (navigation, banners, footers, scripts),
+// scores the remaining blocks and serializes the winner as structured plain text.
+import { type DomDocument, type DomElement, type DomNode, parseHtml } from './dom.ts'
+
+export interface ExtractedContent {
+  title: string
+  text: string
+  publishedDate: string | null
+  metadata: PageMetadata
+}
+
+// Page-level metadata from <head>; keys match the columns on urls
+export interface PageMetadata {
+  description: string | null
+  author: string | null
+  canonical_url: string | null
+  site_name: string | null
+  image_url: string | null
+  favicon_url: string | null
+  language: string | null
+}
+
+export const EMPTY_METADATA: PageMetadata = {
+  description: null,
+  author: null,
+  canonical_url: null,
+  site_name: null,
+  image_url: null,
+  favicon_url: null,
+  language: null,
+}
+
+// Elements that never carry article content. Form controls go, but not <form> itself:
+// ASP.NET WebForms and many CMS templates wrap the whole page in one.
+const REMOVE_TAGS = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object',
+  'embed', 'button', 'input', 'select', 'textarea', 'nav', 'footer', 'aside',
+  'dialog', 'link', 'meta',
+]
+
+const REMOVE_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary', 'dialog', 'alertdialog', 'search']
+
+const UNLIKELY_CANDIDATES = /cookie|consent|gdpr|banner|combx|comment|community|disqus|footer|header|menu|modal|popup|related|remark|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|newsletter|breadcrumb|pagination|pager|advert|promo|outbrain|taboola|masthead/i
+const MAYBE_CANDIDATES = /and|article|body|column|content|main|shadow|post|entry|story|text/i
+const POSITIVE_CLASSES = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i
+const NEGATIVE_CLASSES = /hidden|banner|combx|comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|cookie|consent|nav|menu|ad-|ads/i
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION',
+  'TABLE', 'TBODY', 'THEAD', 'TR', 'TD', 'TH', 'UL',
+])
+
+// Minimum amount of text for a node to be considered a real paragraph
+const MIN_PARAGRAPH_LENGTH = 25
+
+// `pageUrl` is used to resolve relative links in the metadata (image, favicon, canonical URL)
+export function extractMainContent(html: string, pageUrl?: string): ExtractedContent {
+  const document = parseHtml(html)
+
+  // Social card titles usually leave out the " | Site name" suffix of <title>
+  const title = normalizeInline(
+    metaContent(document, 'meta[property="og:title"]', 'meta[name="twitter:title"]') ||
+      document.querySelector('title')?.textContent ||
+      ''
+  )
+  // Read before boilerplate stripping, which removes <meta> tags
+  const publishedDate = findPublishedDate(document)
+  const metadata = findMetadata(document, pageUrl)
+
+  stripBoilerplate(document)
+
+  const body = document.body || document.documentElement
+  if (!body) {
+    return { title, text: '', publishedDate, metadata }
+  }
+
+  const root = findContentRoot(document, body)
+  let text = serialize(root)
+
+  // Scoring can occasionally pick a block that is too small; fall back to the whole body
+  const bodyText = serialize(body)
+  if (text.length < 250 && bodyText.length > text.length * 2) {
+    text = bodyText
+  }
+
+  return { title, text, publishedDate, metadata }
+}
+
+const PUBLISHED_DATE_SELECTORS = [
+  'meta[property="article:published_time"]',
+  'meta[name="article:published_time"]',
+  'meta[itemprop="datePublished"]',
+  'meta[name="date"]',
+  'meta[name="DC.date.issued"]',
+  'meta[name="publish-date"]',
+]
+
+function findPublishedDate(document: DomDocument): string | null {
+  for (const selector of PUBLISHED_DATE_SELECTORS) {
+    const value = document.querySelector(selector)?.getAttribute('content')?.trim()
+    if (value) return value
+  }
+  const time = document.querySelector('article time[datetime], time[datetime]')
+  return time?.getAttribute('datetime')?.trim() || null
+}
+
+function findMetadata(document: DomDocument, pageUrl: string | undefined): PageMetadata {
+  // A <base href> changes what relative links resolve against
+  const baseHref = document.querySelector('base[href]')?.getAttribute('href')
+  const base = resolveUrl(baseHref, pageUrl) || pageUrl
+
+  const icon = document.querySelector('link[rel~="icon"][href], link[rel="apple-touch-icon"][href]')?.getAttribute('href')
+  const origin = pageUrl ? resolveUrl('/favicon.ico', pageUrl) : null
+
+  return {
+    description: metaContent(
+      document,
+      'meta[property="og:description"]',
+      'meta[name="twitter:description"]',
+      'meta[name="description"]'
+    ),
+    author: metaContent(document, 'meta[name="author"]', 'meta[name="article:author"]', 'meta[name="twitter:creator"]') ||
+      normalizeInline(document.querySelector('[rel="author"]')?.textContent || '') || null,
+    canonical_url: resolveUrl(document.querySelector('link[rel="canonical"]')?.getAttribute('href'), base) ||
+      resolveUrl(metaContent(document, 'meta[property="og:url"]'), base),
+    site_name: metaContent(document, 'meta[property="og:site_name"]', 'meta[name="application-name"]'),
+    image_url: resolveUrl(
+      metaContent(
+        document,
+        'meta[property="og:image"]',
+        'meta[property="og:image:url"]',
+        'meta[name="twitter:image"]',
+        'meta[name="twitter:image:src"]'
+      ),
+      base
+    ),
+    favicon_url: resolveUrl(icon, base) || origin,
+    language: document.documentElement?.getAttribute('lang')?.trim() ||
+      metaContent(document, 'meta[http-equiv="content-language"]', 'meta[property="og:locale"]'),
+  }
+}
+
+// First non-empty content attribute among the selectors
+function metaContent(document: DomDocument, ...selectors: string[]): string | null {
+  for (const selector of selectors) {
+    const value = normalizeInline(document.querySelector(selector)?.getAttribute('content') || '')
+    if (value) return value
+  }
+  return null
+}
+
+// Absolute http(s) URL, or null for missing or unusable values (data:, javascript:, ...)
+function resolveUrl(value: string | null | undefined, base: string | undefined): string | null {
+  if (!value) return null
+  try {
+    const url = new URL(value.trim(), base)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+function stripBoilerplate(document: DomDocument) {
+  for (const el of document.querySelectorAll(REMOVE_TAGS.join(','))) {
+    el.remove()
+  }
+
+  for (const el of document.querySelectorAll(REMOVE_ROLES.map((role) => `[role="${role}"]`).join(','))) {
+    el.remove()
+  }
+
+  for (const el of document.querySelectorAll('[hidden], [aria-hidden="true"]')) {
+    el.remove()
+  }
+
+  // Inline JSON blobs and similar data islands are never readable text
+  for (const el of document.querySelectorAll('[type="application/json"], [type="application/ld+json"]')) {
+    el.remove()
+  }
+
+  // Page-level <header> elements are site chrome; headers inside articles are kept
+  for (const el of document.querySelectorAll('header')) {
+    if (!el.closest('article, main')) {
+      el.remove()
+    }
+  }
+
+  for (const el of document.querySelectorAll('div, section, span, p, ul, ol, table, aside, header')) {
+    const matchString = `${el.getAttribute('class') || ''} ${el.getAttribute('id') || ''}`
+    if (
+      UNLIKELY_CANDIDATES.test(matchString) &&
+      !MAYBE_CANDIDATES.test(matchString) &&
+      !el.querySelector('article, main')
+    ) {
+      el.remove()
+    }
+  }
+}
+
+function findContentRoot(document: DomDocument, body: DomElement): DomElement {
+  const scores = new Map<DomElement, number>()
+
+  const addScore = (node: DomElement | null | undefined, amount: number) => {
+    if (!node || node === document.documentElement) return
+    if (!scores.has(node)) {
+      scores.set(node, initialScore(node))
+    }
+    scores.set(node, scores.get(node)! + amount)
+  }
+
+  for (const paragraph of body.querySelectorAll('p, pre, td, blockquote, li')) {
+    const text = normalizeInline(paragraph.textContent || '')
+    if (text.length < MIN_PARAGRAPH_LENGTH) continue
+
+    // One point per paragraph, one per comma, one per 100 chars (max 3)
+    const contentScore = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3)
+
+    addScore(paragraph.parentElement, contentScore)
+    addScore(paragraph.parentElement?.parentElement, contentScore / 2)
+    addScore(paragraph.parentElement?.parentElement?.parentElement, contentScore / 3)
+  }
+
+  let best: DomElement | null = null
+  let bestScore = 0
+  for (const [node, score] of scores) {
+    // Scale by link density so link farms and menus lose to prose
+    const adjusted = score * (1 - linkDensity(node))
+    if (adjusted > bestScore) {
+      best = node
+      bestScore = adjusted
+    }
+  }
+
+  const semantic = body.querySelector('article') || body.querySelector('main') || body.querySelector('[role="main"]')
+  if (!best) {
+    return semantic || body
+  }
+
+  // Prefer an explicit article/main container when it holds the winning block
+  if (semantic && semantic.contains(best) && textLength(semantic) < textLength(best) * 3) {
+    return semantic
+  }
+
+  return collectSiblings(document, best, bestScore, scores)
+}
+
+// Readability keeps siblings of the top candidate that look like part of the same article
+function collectSiblings(
+  document: DomDocument,
+  best: DomElement,
+  bestScore: number,
+  scores: Map<DomElement, number>
+): DomElement {
+  const parent = best.parentElement
+  if (!parent) return best
+
+  const threshold = Math.max(10, bestScore * 0.2)
+  const container = document.createElement('div')
+
+  for (const sibling of Array.from(parent.children)) {
+    if (sibling === best) {
+      container.appendChild(sibling.cloneNode(true))
+      continue
+    }
+
+    let append = false
+    const siblingScore = scores.get(sibling) ?? 0
+    if (siblingScore * (1 - linkDensity(sibling)) >= threshold) {
+      append = true
+    } else if (sibling.tagName === 'P') {
+      const length = textLength(sibling)
+      const density = linkDensity(sibling)
+      if (length > 80 && density < 0.25) {
+        append = true
+      } else if (length > 0 && density === 0 && /\.( |$)/.test(sibling.textContent || '')) {
+        append = true
+      }
+    }
+
+    if (append) {
+      container.appendChild(sibling.cloneNode(true))
+    }
+  }
+
+  return container
+}
+
+function initialScore(node: DomElement): number {
+  let score = 0
+  switch (node.tagName) {
+    case 'ARTICLE':
+    case 'MAIN':
+      score += 10
+      break
+    case 'DIV':
+    case 'SECTION':
+      score += 5
+      break
+    case 'PRE':
+    case 'TD':
+    case 'BLOCKQUOTE':
+      score += 3
+      break
+    case 'OL':
+    case 'UL':
+    case 'DL':
+    case 'DD':
+    case 'DT':
+    case 'LI':
+    case 'FORM':
+      score -= 3
+      break
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+    case 'TH':
+      score -= 5
+      break
+  }
+  return score + classWeight(node)
+}
+
+function classWeight(node: DomElement): number {
+  let weight = 0
+  for (const value of [node.getAttribute('class'), node.getAttribute('id')]) {
+    if (!value) continue
+    if (NEGATIVE_CLASSES.test(value)) weight -= 25
+    if (POSITIVE_CLASSES.test(value)) weight += 25
+  }
+  return weight
+}
+
+function textLength(node: DomNode): number {
+  return normalizeInline(node.textContent || '').length
+}
+
+function linkDensity(node: DomElement): number {
+  const length = textLength(node)
+  if (length === 0) return 0
+  let linkLength = 0
+  for (const link of node.querySelectorAll('a')) {
+    linkLength += textLength(link)
+  }
+  return Math.min(linkLength / length, 1)
+}
+
+function normalizeInline(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+// Same, but keeps the line breaks of <br> (addresses, poems, line-broken lists)
+function normalizeLines(text: string): string {
+  return text.split('\n').map(normalizeInline).filter(Boolean).join('\n')
+}
+
+// Serialize a DOM subtree to plain text, keeping headings, list markers,
+// quotes, preformatted blocks and paragraph breaks
+function serialize(root: DomElement): string {
+  const blocks: string[] = []
+  let inline = ''
+
+  const flush = () => {
+    const text = normalizeLines(inline)
+    if (text) blocks.push(text)
+    inline = ''
+  }
+
+  const walk = (node: DomNode) => {
+    if (node.nodeType === 3) {
+      // Newlines in the source are just whitespace; only <br> breaks a line
+      inline += (node.textContent || '').replace(/\n/g, ' ')
+      return
+    }
+    if (node.nodeType !== 1) return
+
+    const element = node as DomElement
+
+    const tag = element.tagName
+    if (tag === 'BR') {
+      inline += '\n'
+      return
+    }
+
+    if (/^H[1-6]$/.test(tag)) {
+      flush()
+      const text = normalizeInline(element.textContent || '')
+      if (text) blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`)
+      return
+    }
+
+    if (tag === 'PRE') {
+      flush()
+      const text = (element.textContent || '').replace(/\s+$/, '')
+      if (text.trim()) blocks.push(text)
+      return
+    }
+
+    if (tag === 'UL' || tag === 'OL') {
+      flush()
+      const items: string[] = []
+      let index = 1
+      for (const child of Array.from(element.children)) {
+        if (child.tagName !== 'LI') continue
+        const marker = tag === 'OL' ? `${index++}.` : '-'
+        const itemText = serialize(child).replace(/\n\n+/g, '\n')
+        if (!itemText) continue
+        items.push(`${marker} ${itemText.split('\n').join('\n   ')}`)
+      }
+      if (items.length) blocks.push(items.join('\n'))
+      return
+    }
+
+    if (tag === 'BLOCKQUOTE') {
+      flush()
+      const text = serialize(element)
+      if (text) blocks.push(text.split('\n').map((line) => `> ${line}`).join('\n'))
+      return
+    }
+
+    if (tag === 'TR') {
+      flush()
+      const cells = Array.from(element.children)
+        .map((cell) => normalizeInline(cell.textContent || ''))
+        .filter(Boolean)
+      if (cells.length) blocks.push(cells.join(' | '))
+      return
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag)
+    if (isBlock) flush()
+    for (const child of Array.from(element.childNodes)) {
+      walk(child)
+    }
+    if (isBlock) flush()
+  }
+
+  walk(root)
+  flush()
+
+  return blocks.join('\n\n').trim()
+}
@@ -0,0 +1,101 @@
+// RSS 2.0, RSS 1.0 (RDF) and Atom feed parsing.
+// A feed is turned into one section per item (title, date, link, summary) so the
+// model sees a list of entries rather than raw XML.
+import { type DomElement, parseHtml, parseXml } from './dom.ts'
+
+export interface ExtractedFeed {
+  title: string
+  text: string
+  publishedDate: string | null
+  description: string | null
+  language: string | null
+}
+
+// Item summaries are trimmed; the feed is an index, the articles themselves are elsewhere
+const MAX_SUMMARY_LENGTH = 600
+
+export function isFeedXml(xml: string): boolean {
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(rss|feed|rdf:RDF)[\s>]/i.test(xml)
+}
+
+export function extractFeed(xml: string): ExtractedFeed {
+  const document = parseXml(xml)
+  const root = document.documentElement
+  const isAtom = root?.localName === 'feed'
+
+  const channel = isAtom ? root : firstChild(root, 'channel') || root
+  const title = childText(channel, 'title')
+  const description = childText(channel, isAtom ? 'subtitle' : 'description')
+  const items: DomElement[] = isAtom ? children(root, 'entry') : elements(root, 'item')
+
+  const sections = items.map((item, index) => {
+    const itemTitle = childText(item, 'title') || `Item ${index + 1}`
+    const date = isAtom
+      ? childText(item, 'published') || childText(item, 'updated')
+      : childText(item, 'pubDate') || childText(item, 'dc:date')
+    const link = isAtom ? atomLink(item) : childText(item, 'link')
+    const summary = htmlToText(
+      isAtom
+        ? childText(item, 'summary') || childText(item, 'content')
+        : childText(item, 'description') || childText(item, 'content:encoded')
+    )
+
+    return [
+      `## ${itemTitle}`,
+      [date && `Published: ${date}`, link && `Link: ${link}`].filter(Boolean).join('\n'),
+      truncate(summary, MAX_SUMMARY_LENGTH),
+    ].filter(Boolean).join('\n\n')
+  })
+
+  const header = [title && `# ${title}`, description && htmlToText(description)].filter(Boolean).join('\n\n')
+  const text = [header, `${items.length} ${items.length === 1 ? 'item' : 'items'}`, ...sections]
+    .filter(Boolean)
+    .join('\n\n')
+
+  const publishedDate = isAtom
+    ? childText(root, 'updated') || null
+    : childText(channel, 'lastBuildDate') || childText(channel, 'pubDate') || null
+
+  return {
+    title,
+    text,
+    publishedDate,
+    description: description ? htmlToText(description) : null,
+    language: childText(channel, 'language') || root?.getAttribute('xml:lang') || null,
+  }
+}
+
+function children(parent: DomElement | null, name: string): DomElement[] {
+  return Array.from(parent?.children || []).filter((child) => child.tagName === name)
+}
+
+function firstChild(parent: DomElement | null, name: string): DomElement | null {
+  return children(parent, name)[0] || null
+}
+
+// RSS 1.0 puts items next to the channel rather than inside it
+function elements(root: DomElement | null, name: string): DomElement[] {
+  return Array.from(root?.getElementsByTagName(name) || [])
+}
+
+function childText(parent: DomElement | null, name: string): string {
+  return (firstChild(parent, name)?.textContent || '').trim()
+}
+
+// Prefer rel="alternate" (the default when rel is missing)
+function atomLink(entry: DomElement): string {
+  const links = children(entry, 'link')
+  const alternate = links.find((link) => !link.getAttribute('rel') || link.getAttribute('rel') === 'alternate')
+  return (alternate || links[0])?.getAttribute('href') || ''
+}
+
+// Descriptions are usually escaped HTML
+function htmlToText(html: string): string {
+  if (!/[<&]/.test(html)) return html.replace(/\s+/g, ' ').trim()
+  const document = parseHtml(`<!DOCTYPE html><html><body>${html}</body></html>`)
+  return (document.body?.textContent || '').replace(/\s+/g, ' ').trim()
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength).replace(/\s+\S*$/, '')}…` : text
+}
@@ -0,0 +1,400 @@
+// Hardened fetch for user-supplied URLs.
+// Only http(s) is allowed, every host is resolved and rejected if any address is
+// private, loopback, link-local or otherwise reserved, and redirects are followed
+// manually so each hop is checked again. Redirect count, response size and total
+// time are capped, and binary responses other than PDF are rejected before they are read.
+//
+// The address check runs before the request, so a host that re-resolves to a
+// different address between the check and the connection (DNS rebinding) is not
+// caught; keep the runtime's own egress rules as the outer boundary.
+//
+// Environment:
+//   SCRAPE_MAX_REDIRECTS   default 5
+//   SCRAPE_MAX_BYTES       default 5 MB
+//   SCRAPE_TIMEOUT_MS      total time for all hops and the body, default 15000
+import { parseRetryAfter } from './retry.ts'
+
+export type FetchErrorCode =
+  | 'invalid_url'
+  | 'unsupported_scheme'
+  | 'blocked_address'
+  | 'dns_failure'
+  | 'too_many_redirects'
+  | 'response_too_large'
+  | 'upstream_timeout'
+  | 'network_error'
+  | 'unsupported_content_type'
+  | 'rate_limited'
+  | 'target_4xx'
+  | 'target_5xx'
+  | 'content_empty'
+
+const ERROR_STATUS: Record<FetchErrorCode, number> = {
+  invalid_url: 400,
+  unsupported_scheme: 400,
+  blocked_address: 400,
+  dns_failure: 502,
+  too_many_redirects: 502,
+  response_too_large: 422,
+  upstream_timeout: 504,
+  network_error: 502,
+  unsupported_content_type: 415,
+  rate_limited: 429,
+  target_4xx: 502,
+  target_5xx: 502,
+  content_empty: 422,
+}
+
+// Worth another attempt after a pause (see retry.ts)
+const RETRYABLE_CODES = new Set<FetchErrorCode>(['upstream_timeout', 'network_error', 'rate_limited', 'target_5xx'])
+
+// Raised for URLs that may not be fetched and for responses that break the limits.
+// `code` is returned to the client so the UI can show a specific message.
+export class FetchError extends Error {
+  code: FetchErrorCode
+  // From the site's Retry-After header
+  retryAfterMs: number | null
+
+  constructor(code: FetchErrorCode, message: string, retryAfterMs: number | null = null) {
+    super(message)
+    this.name = 'FetchError'
+    this.code = code
+    this.retryAfterMs = retryAfterMs
+  }
+
+  // HTTP status the edge functions respond with
+  get status(): number {
+    return ERROR_STATUS[this.code]
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.has(this.code)
+  }
+}
+
+// Classify an error status from the target site
+export function httpStatusError(response: Response): FetchError {
+  const message = `HTTP ${response.status}${response.statusText ? `: ${response.statusText}` : ''}`
+  if (response.status === 429) {
+    return new FetchError('rate_limited', message, parseRetryAfter(response.headers.get('Retry-After')))
+  }
+  if (response.status === 408) return new FetchError('upstream_timeout', message)
+  if (response.status >= 500) {
+    return new FetchError('target_5xx', message, parseRetryAfter(response.headers.get('Retry-After')))
+  }
+  return new FetchError('target_4xx', message)
+}
+
+export interface FetchLimits {
+  maxRedirects: number
+  maxBytes: number
+  timeoutMs: number
+}
+
+const DEFAULT_LIMITS: FetchLimits = {
+  maxRedirects: 5,
+  maxBytes: 5 * 1024 * 1024,
+  timeoutMs: 15000,
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+// Successful statuses that can't carry a body (a Response with one can't be constructed)
+const NO_CONTENT_STATUSES = new Set([204, 205])
+
+// Content types the scraper can extract; anything else is refused
+const SUPPORTED_CONTENT_TYPES = [
+  /^text\//,
+  /^application\/(xhtml\+xml|xml|json|ld\+json|javascript|ecmascript|pdf)$/,
+  /^application\/[\w.+-]+\+(xml|json)$/,
+]
+
+// Fetch `url` under the protections above. Resolves with a Response whose body is
+// already buffered (at most maxBytes) and whose `url` is the final URL after redirects.
+export async function safeFetch(
+  url: string,
+  init: { headers?: Record<string, string> } = {},
+  limits: Partial<FetchLimits> = {}
+): Promise<Response> {
+  const { maxRedirects, maxBytes, timeoutMs } = { ...configuredLimits(), ...limits }
+  const signal = AbortSignal.timeout(timeoutMs)
+
+  let current = parseUrl(url)
+  let redirects = 0
+
+  try {
+    while (true) {
+      await assertPublicHost(current)
+
+      const response = await fetch(current, { headers: init.headers, redirect: 'manual', signal })
+
+      if (REDIRECT_STATUSES.has(response.status) && response.headers.has('Location')) {
+        await response.body?.cancel()
+        if (++redirects > maxRedirects) {
+          throw new FetchError('too_many_redirects', `More than ${maxRedirects} redirects`)
+        }
+        current = parseUrl(response.headers.get('Location')!, current)
+        continue
+      }
+
+      if (!response.ok) {
+        // Status-only responses (304, errors) are passed through for the caller to handle
+        await response.body?.cancel()
+        return withUrl(new Response(null, { status: response.status, statusText: response.statusText, headers: response.headers }), current)
+      }
+
+      if (NO_CONTENT_STATUSES.has(response.status)) {
+        await response.body?.cancel()
+        throw new FetchError('content_empty', `The server returned no content (${response.status})`)
+      }
+
+      const contentType = response.headers.get('Content-Type')
+      const untyped = !contentType || mediaTypeOf(contentType) === 'application/octet-stream'
+      if (!untyped && !isSupportedContentType(contentType)) {
+        await response.body?.cancel()
+        throw new FetchError('unsupported_content_type', `Unsupported content type: ${contentType.split(';')[0]}`)
+      }
+
+      const declaredLength = Number(response.headers.get('Content-Length'))
+      if (declaredLength > maxBytes) {
+        await response.body?.cancel()
+        throw new FetchError('response_too_large', `Response is larger than ${formatBytes(maxBytes)}`)
+      }
+
+      const body = await readLimited(response, maxBytes)
+
+      // Without a useful declared type, refuse anything binary that isn't a PDF
+      if (untyped && looksBinary(body) && !hasPdfSignature(body)) {
+        throw new FetchError('unsupported_content_type', 'Response appears to be binary')
+      }
+
+      return withUrl(new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers }), current)
+    }
+  } catch (error) {
+    if (error instanceof FetchError) throw error
+    if (signal.aborted) {
+      throw new FetchError('upstream_timeout', `Request timed out after ${timeoutMs / 1000}s`)
+    }
+    // Connection refused or reset, TLS failures etc.
+    if (error instanceof TypeError) {
+      throw new FetchError('network_error', error.message)
+    }
+    throw error
+  }
+}
+
+// Refuse a URL safeFetch wouldn't fetch: other schemes, credentials, and hosts that
+// resolve to private or local addresses. For callers that send their own requests.
+export async function assertPublicUrl(value: string): Promise<URL> {
+  const url = parseUrl(value)
+  await assertPublicHost(url)
+  return url
+}
+
+function configuredLimits(): FetchLimits {
+  const fromEnv = (name: string, fallback: number) => {
+    const value = Number(Deno.env.get(name))
+    return Number.isFinite(value) && value > 0 ? value : fallback
+  }
+  return {
+    maxRedirects: fromEnv('SCRAPE_MAX_REDIRECTS', DEFAULT_LIMITS.maxRedirects),
+    maxBytes: fromEnv('SCRAPE_MAX_BYTES', DEFAULT_LIMITS.maxBytes),
+    timeoutMs: fromEnv('SCRAPE_TIMEOUT_MS', DEFAULT_LIMITS.timeoutMs),
+  }
+}
+
+function parseUrl(value: string, base?: URL): URL {
+  let parsed: URL
+  try {
+    parsed = new URL(value, base)
+  } catch {
+    throw new FetchError('invalid_url', `Invalid URL: ${value}`)
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new FetchError('unsupported_scheme', `Only http and https URLs can be fetched (got ${parsed.protocol})`)
+  }
+  if (parsed.username || parsed.password) {
+    throw new FetchError('invalid_url', 'URLs with credentials are not allowed')
+  }
+  return parsed
+}
+
+// Response.url is read-only and empty for constructed responses
+function withUrl(response: Response, url: URL): Response {
+  Object.defineProperty(response, 'url', { value: url.toString() })
+  return response
+}
+
+async function assertPublicHost(url: URL) {
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    throw new FetchError('blocked_address', `Blocked host: ${host}`)
+  }
+
+  let addresses: string[]
+  if (parseIPv4(host) || parseIPv6(host)) {
+    addresses = [host]
+  } else {
+    const results = await Promise.allSettled([Deno.resolveDns(host, 'A'), Deno.resolveDns(host, 'AAAA')])
+    addresses = results.flatMap((result) => (result.status === 'fulfilled' ? result.value : []))
+    if (addresses.length === 0) {
+      throw new FetchError('dns_failure', `Could not resolve host: ${host}`)
+    }
+  }
+
+  // Reject the host if any of its addresses is non-public; the connection may use any of them
+  const blocked = addresses.find((address) => !isPublicAddress(address))
+  if (blocked) {
+    throw new FetchError('blocked_address', `Blocked address for ${host}: ${blocked}`)
+  }
+}
+
+function isPublicAddress(address: string): boolean {
+  const v4 = parseIPv4(address)
+  if (v4) return isPublicIPv4(v4)
+
+  const v6 = parseIPv6(address)
+  if (!v6) return false
+
+  // Forms that reach an IPv4 address are judged by that address (:: and ::1 come out
+  // as 0.0.0.0 and 0.0.0.1, which are blocked)
+  const v4Groups = embeddedIPv4Groups(v6)
+  if (v4Groups) {
+    const [high, low] = v4Groups
+    return isPublicIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff])
+  }
+
+  if (v6[0] === 0x2001 && v6[1] === 0x0000) return false // 2001::/32 Teredo, relays to an address it obscures
+  if ((v6[0] & 0xfe00) === 0xfc00) return false // fc00::/7 unique local
+  if ((v6[0] & 0xffc0) === 0xfe80) return false // fe80::/10 link-local
+  if ((v6[0] & 0xff00) === 0xff00) return false // ff00::/8 multicast
+  if (v6[0] === 0x2001 && v6[1] === 0x0db8) return false // 2001:db8::/32 documentation
+  if (v6[0] === 0x0100 && v6.slice(1, 4).every((group) => group === 0)) return false // 100::/64 discard
+  return true
+}
+
+// The two groups holding an IPv4 address in
+//   ::ffff:a.b.c.d     IPv4-mapped
+//   ::a.b.c.d          IPv4-compatible (deprecated, still routed by some stacks)
+//   64:ff9b::a.b.c.d   NAT64
+//   2002:aabb:ccdd::   6to4
+function embeddedIPv4Groups(v6: number[]): [number, number] | null {
+  const zeroUpTo = (end: number) => v6.slice(0, end).every((group) => group === 0)
+  if (zeroUpTo(5) && (v6[5] === 0xffff || v6[5] === 0)) return [v6[6], v6[7]]
+  if (v6[0] === 0x64 && v6[1] === 0xff9b && v6.slice(2, 6).every((group) => group === 0)) return [v6[6], v6[7]]
+  if (v6[0] === 0x2002) return [v6[1], v6[2]]
+  return null
+}
+
+// [prefix, length] pairs of non-public IPv4 ranges
+const BLOCKED_IPV4_RANGES: [number[], number][] = [
+  [[0, 0, 0, 0], 8], // "this" network
+  [[10, 0, 0, 0], 8], // private
+  [[100, 64, 0, 0], 10], // carrier-grade NAT
+  [[127, 0, 0, 0], 8], // loopback
+  [[169, 254, 0, 0], 16], // link-local, including cloud metadata endpoints
+  [[172, 16, 0, 0], 12], // private
+  [[192, 0, 0, 0], 24], // IETF protocol assignments
+  [[192, 0, 2, 0], 24], // documentation
+  [[192, 88, 99, 0], 24], // 6to4 relay
+  [[192, 168, 0, 0], 16], // private
+  [[198, 18, 0, 0], 15], // benchmarking
+  [[198, 51, 100, 0], 24], // documentation
+  [[203, 0, 113, 0], 24], // documentation
+  [[224, 0, 0, 0], 4], // multicast
+  [[240, 0, 0, 0], 4], // reserved and broadcast
+]
+
+function isPublicIPv4(octets: number[]): boolean {
+  const value = toUint32(octets)
+  return !BLOCKED_IPV4_RANGES.some(([prefix, length]) => {
+    const mask = length === 0 ? 0 : (~0 << (32 - length)) >>> 0
+    return ((value & mask) >>> 0) === ((toUint32(prefix) & mask) >>> 0)
+  })
+}
+
+function toUint32(octets: number[]): number {
+  return ((octets[0] << 24) | (octets[1] << 16) | (octets[2] << 8) | octets[3]) >>> 0
+}
+
+function parseIPv4(address: string): number[] | null {
+  const match = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/)
+  if (!match) return null
+  const octets = match.slice(1).map(Number)
+  return octets.every((octet) => octet <= 255) ? octets : null
+}
+
+// Parse an IPv6 address into its eight 16-bit groups
+function parseIPv6(address: string): number[] | null {
+  if (!address.includes(':')) return null
+  let text = address.split('%')[0] // drop any zone id
+
+  // A trailing dotted IPv4 part becomes the last two groups
+  const dotted = text.match(/(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})$/)
+  if (dotted) {
+    const v4 = parseIPv4(dotted[1])
+    if (!v4) return null
+    text = text.slice(0, -dotted[1].length) + `${((v4[0] << 8) | v4[1]).toString(16)}:${((v4[2] << 8) | v4[3]).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+  const parse = (part: string) => (part ? part.split(':') : [])
+  const head = parse(halves[0])
+  const tail = halves.length === 2 ? parse(halves[1]) : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/i.test(group))) return null
+  return groups.map((group) => parseInt(group, 16))
+}
+
+function mediaTypeOf(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase()
+}
+
+function isSupportedContentType(contentType: string): boolean {
+  const mediaType = mediaTypeOf(contentType)
+  return SUPPORTED_CONTENT_TYPES.some((pattern) => pattern.test(mediaType))
+}
+
+export function hasPdfSignature(body: ArrayBuffer): boolean {
+  return new TextDecoder().decode(body.slice(0, 5)) === '%PDF-'
+}
+
+// NUL bytes don't occur in text encodings the extractor can handle
+function looksBinary(body: ArrayBuffer): boolean {
+  return new Uint8Array(body, 0, Math.min(body.byteLength, 1024)).includes(0)
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<ArrayBuffer> {
+  if (!response.body) return new ArrayBuffer(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw new FetchError('response_too_large', `Response is larger than ${formatBytes(maxBytes)}`)
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body.buffer
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${Math.round(bytes / 1024)} KB`
+}
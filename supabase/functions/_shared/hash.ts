@@ -0,0 +1,6 @@
+// Hex SHA-256 digest: snapshot content hashes (scrape.ts) and API key hashes
+// (auth.ts, the same digest create_api_key() stores)
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
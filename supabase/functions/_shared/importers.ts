@@ -0,0 +1,308 @@
+// Parsers for bulk URL imports (import-urls). Supported files:
+//   csv         a header row naming the URL column (url, link, href), optionally title,
+//               tags and a saved date; without a header, the first http(s) field of each row
+//   lines       one URL per line
+//   bookmarks   Netscape bookmarks HTML as exported by browsers; enclosing folders become tags
+//   opml        feed subscription lists; the feed URL is imported, parent outlines become tags
+//   pocket      Pocket's CSV export, or its older HTML export
+//   instapaper  Instapaper's CSV or HTML export; folders become tags
+// Every item keeps the title, tags and saved date the file records.
+import { type DomElement, parseXml } from './dom.ts'
+
+export type ImportFormat = 'csv' | 'lines' | 'bookmarks' | 'opml' | 'pocket' | 'instapaper'
+
+export const IMPORT_FORMATS: ImportFormat[] = ['csv', 'lines', 'bookmarks', 'opml', 'pocket', 'instapaper']
+
+export interface ImportItem {
+  url: string
+  title: string | null
+  tags: string[]
+  saved_at: string | null
+}
+
+export interface ParsedImport {
+  format: ImportFormat
+  items: ImportItem[]
+  // Entries without an http(s) URL
+  skipped: number
+}
+
+const URL_COLUMNS = ['url', 'link', 'href', 'address', 'uri']
+const TITLE_COLUMNS = ['title', 'name', 'caption']
+const TAG_COLUMNS = ['tags', 'tag', 'labels', 'label', 'folder', 'category']
+const DATE_COLUMNS = ['time_added', 'timestamp', 'saved_at', 'saved', 'created_at', 'created', 'date_added', 'added', 'date']
+
+// Read-later "folders" that only record whether an item was read
+const STATE_FOLDERS = new Set(['unread', 'archive', 'read archive', 'unread items'])
+
+export function detectFormat(content: string): ImportFormat {
+  const head = content.slice(0, 4096)
+  if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<opml[\s>]/i.test(head)) return 'opml'
+  if (/<title>\s*Pocket Export\s*<\/title>/i.test(head)) return 'pocket'
+  if (/<title>\s*Instapaper/i.test(head)) return 'instapaper'
+  if (/<!DOCTYPE\s+NETSCAPE-Bookmark-file/i.test(head) || /<a\s[^>]*href\s*=/i.test(head)) return 'bookmarks'
+
+  const header = parseCsv(firstLine(content)).at(0)?.map(normalizeHeader) || []
+  if (header.includes('time_added') && header.includes('status')) return 'pocket'
+  if (header.includes('selection') && header.includes('folder')) return 'instapaper'
+  if (header.length > 1 || URL_COLUMNS.includes(header[0])) return 'csv'
+  return 'lines'
+}
+
+export function parseImport(content: string, format: ImportFormat | 'auto' = 'auto'): ParsedImport {
+  const text = content.replace(/^\uFEFF/, '')
+  const resolved = format === 'auto' ? detectFormat(text) : format
+  const looksLikeHtml = /^\s*</.test(text)
+
+  switch (resolved) {
+    case 'opml':
+      return { format: resolved, ...collect(parseOpml(text)) }
+    case 'bookmarks':
+      return { format: resolved, ...collect(parseBookmarks(text)) }
+    case 'pocket':
+    case 'instapaper':
+      return {
+        format: resolved,
+        ...collect(looksLikeHtml ? parseBookmarks(text, resolved === 'instapaper') : parseCsvItems(text)),
+      }
+    case 'csv':
+      return { format: resolved, ...collect(parseCsvItems(text)) }
+    case 'lines':
+      return { format: resolved, ...collect(parseLines(text)) }
+  }
+}
+
+// Keep the items whose URL is http(s); count the rest
+function collect(candidates: ImportItem[]): Omit<ParsedImport, 'format'> {
+  const items = candidates.filter((item) => isHttpUrl(item.url))
+  return { items, skipped: candidates.length - items.length }
+}
+
+function parseLines(text: string): ImportItem[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => ({ url: line.match(/https?:\/\/\S+/i)?.[0] || line, title: null, tags: [], saved_at: null }))
+}
+
+function parseCsvItems(text: string): ImportItem[] {
+  const rows = parseCsv(text).filter((row) => row.some((field) => field.trim()))
+  if (rows.length === 0) return []
+
+  const header = rows[0].map(normalizeHeader)
+  const urlColumn = header.findIndex((name) => URL_COLUMNS.includes(name))
+
+  // No header: the first field that is a URL, and the first other field as its title
+  if (urlColumn === -1) {
+    return rows.map((row) => {
+      const fields = row.map((field) => field.trim())
+      const url = fields.find(isHttpUrl) || fields[0]
+      return { url, title: fields.find((field) => field && field !== url) || null, tags: [], saved_at: null }
+    })
+  }
+
+  const column = (names: string[]) => {
+    for (const name of names) {
+      const index = header.indexOf(name)
+      if (index !== -1) return index
+    }
+    return -1
+  }
+  const titleColumn = column(TITLE_COLUMNS)
+  const tagColumn = column(TAG_COLUMNS)
+  const dateColumn = column(DATE_COLUMNS)
+
+  return rows.slice(1).map((row) => ({
+    url: (row[urlColumn] || '').trim(),
+    title: titleColumn !== -1 ? row[titleColumn]?.trim() || null : null,
+    tags: tagColumn !== -1 ? withoutStateFolders(splitTags(row[tagColumn] || '')) : [],
+    saved_at: dateColumn !== -1 ? parseDate(row[dateColumn]) : null,
+  }))
+}
+
+// Links with their TAGS / ADD_DATE attributes (time_added and tags in Pocket's export).
+// Folders are <H3> headings followed by a nested <DL>; Instapaper has an <h1> per folder.
+function parseBookmarks(html: string, sectionFolders = false): ImportItem[] {
+  const items: ImportItem[] = []
+  const folders: (string | null)[] = []
+  let pendingFolder: string | null = null
+  let sectionFolder: string | null = null
+
+  const tokens = /<h([13])\b([^>]*)>([\s\S]*?)<\/h\1\s*>|<a\b([^>]*)>([\s\S]*?)<\/a\s*>|<(\/?)dl\b[^>]*>/gi
+  for (const match of html.matchAll(tokens)) {
+    const [, level, headingAttributes, headingText, linkAttributes, linkText, closing] = match
+
+    if (level === '3') {
+      const attributes = parseAttributes(headingAttributes)
+      // The browser's own roots (toolbar, "Other bookmarks") aren't tags
+      const isRoot = 'personal_toolbar_folder' in attributes || 'unfiled_bookmarks_folder' in attributes
+      pendingFolder = isRoot ? null : decodeText(headingText)
+    } else if (level === '1') {
+      if (sectionFolders) sectionFolder = decodeText(headingText)
+    } else if (linkAttributes !== undefined) {
+      const attributes = parseAttributes(linkAttributes)
+      const folderTags = withoutStateFolders([...folders, sectionFolder].filter((folder): folder is string => !!folder))
+      items.push({
+        url: (attributes.href || '').trim(),
+        title: decodeText(linkText) || null,
+        tags: uniqueTags([...splitTags(attributes.tags || ''), ...folderTags]),
+        saved_at: parseDate(attributes.add_date || attributes.time_added),
+      })
+    } else if (closing) {
+      folders.pop()
+    } else {
+      folders.push(pendingFolder)
+      pendingFolder = null
+    }
+  }
+
+  return items
+}
+
+function parseOpml(xml: string): ImportItem[] {
+  const document = parseXml(xml)
+  const body = Array.from(document.documentElement?.children || []).find((child) => child.localName === 'body')
+  const items: ImportItem[] = []
+
+  const walk = (parent: DomElement | undefined, folders: string[]) => {
+    for (const outline of Array.from(parent?.children || [])) {
+      if (outline.localName !== 'outline') continue
+      const label = (outline.getAttribute('title') || outline.getAttribute('text') || '').trim()
+      const url = outline.getAttribute('xmlUrl') || outline.getAttribute('url') || outline.getAttribute('htmlUrl')
+
+      if (url) {
+        const categories = (outline.getAttribute('category') || '')
+          .split(',')
+          .map((category) => category.replace(/^\/+/, ''))
+        items.push({
+          url: url.trim(),
+          title: label || null,
+          tags: uniqueTags([...folders, ...categories]),
+          saved_at: parseDate(outline.getAttribute('created')),
+        })
+      }
+      walk(outline, url || !label ? folders : [...folders, label])
+    }
+  }
+
+  walk(body, [])
+  return items
+}
+
+// RFC 4180: quoted fields may contain commas, quotes ("") and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+function firstLine(text: string): string {
+  return text.replace(/^\s+/, '').split(/\r?\n/, 1)[0] || ''
+}
+
+function normalizeHeader(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+// Pocket separates tags with "|", most others with commas
+function splitTags(value: string): string[] {
+  return uniqueTags(value.split(/[|,;]/))
+}
+
+function withoutStateFolders(tags: string[]): string[] {
+  return tags.filter((tag) => !STATE_FOLDERS.has(tag.toLowerCase()))
+}
+
+function uniqueTags(tags: string[]): string[] {
+  const seen = new Map<string, string>()
+  for (const tag of tags.map((tag) => tag.trim()).filter(Boolean)) {
+    if (!seen.has(tag.toLowerCase())) seen.set(tag.toLowerCase(), tag)
+  }
+  return [...seen.values()]
+}
+
+// Unix timestamps in seconds, milliseconds or microseconds (Firefox), or a date string
+function parseDate(value: string | null | undefined): string | null {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+
+  let date: Date
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const number = Number(trimmed)
+    if (number === 0) return null
+    date = new Date(number > 1e14 ? number / 1000 : number > 1e11 ? number : number * 1000)
+  } else {
+    date = new Date(trimmed)
+  }
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const [, name, , doubleQuoted, singleQuoted, bare] of source.matchAll(
+    /([\w:-]+)(\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+  )) {
+    attributes[name.toLowerCase()] = decodeText(doubleQuoted ?? singleQuoted ?? bare ?? '')
+  }
+  return attributes
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity
+      }
+      return ENTITIES[code.toLowerCase()] ?? entity
+    })
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
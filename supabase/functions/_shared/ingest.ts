@@ -0,0 +1,167 @@
+// Content-type aware ingestion: decide what kind of document a response is and turn
+// it into the plain text the prompt flow works with.
+//
+//   html       readability-style main content (extract.ts)
+//   pdf        text per page with page markers (pdf.ts)
+//   feed       RSS/Atom as one section per item (feed.ts)
+//   json       pretty-printed, keeping the key structure
+//   markdown   passed through unchanged
+//   text       passed through unchanged
+//
+// The kind comes from the Content-Type header, then the URL's file extension (for
+// generic types like text/plain or application/octet-stream), then the body itself.
+import { EMPTY_METADATA, extractMainContent, type PageMetadata } from './extract.ts'
+import { extractFeed, isFeedXml } from './feed.ts'
+import { FetchError } from './fetcher.ts'
+import { extractPdfText, isPdf } from './pdf.ts'
+
+export type DocumentType = 'html' | 'pdf' | 'feed' | 'json' | 'markdown' | 'text'
+
+export interface ExtractedDocument {
+  documentType: DocumentType
+  title: string
+  text: string
+  publishedDate: string | null
+  // PDF only
+  pageCount: number | null
+  metadata: PageMetadata
+}
+
+const EXTENSION_TYPES: Record<string, DocumentType> = {
+  html: 'html',
+  htm: 'html',
+  pdf: 'pdf',
+  rss: 'feed',
+  atom: 'feed',
+  json: 'json',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text',
+}
+
+export async function extractDocument(response: Response, body: ArrayBuffer): Promise<ExtractedDocument> {
+  const contentType = response.headers.get('Content-Type')
+
+  if (isPdf(contentType, body)) {
+    const { author, ...pdf } = await extractPdfText(body)
+    return { documentType: 'pdf', ...pdf, metadata: { ...EMPTY_METADATA, author } }
+  }
+
+  const source = new TextDecoder(charsetOf(contentType)).decode(body)
+  const documentType = detectDocumentType(contentType, response.url, source)
+
+  switch (documentType) {
+    case 'feed': {
+      const { description, language, ...feed } = extractFeed(source)
+      return { documentType, ...feed, pageCount: null, metadata: { ...EMPTY_METADATA, description, language } }
+    }
+    case 'json':
+      return { documentType, ...formatJson(source), publishedDate: null, pageCount: null, metadata: EMPTY_METADATA }
+    case 'markdown':
+      return {
+        documentType,
+        title: markdownTitle(source),
+        text: source.trim(),
+        publishedDate: null,
+        pageCount: null,
+        metadata: EMPTY_METADATA,
+      }
+    case 'text':
+      return { documentType, title: '', text: source.trim(), publishedDate: null, pageCount: null, metadata: EMPTY_METADATA }
+    case 'html':
+    default:
+      return { documentType: 'html', ...extractMainContent(source, response.url), pageCount: null }
+  }
+}
+
+function detectDocumentType(contentType: string | null, url: string, source: string): DocumentType {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase() || ''
+  const extension = fileExtension(url)
+
+  switch (mediaType) {
+    case 'text/html':
+    case 'application/xhtml+xml':
+      return 'html'
+    case 'application/rss+xml':
+    case 'application/atom+xml':
+    case 'application/rdf+xml':
+    case 'application/feed+xml':
+      return 'feed'
+    case 'application/json':
+    case 'application/ld+json':
+    case 'application/feed+json':
+      return 'json'
+    case 'text/markdown':
+    case 'text/x-markdown':
+      return 'markdown'
+    case 'application/xml':
+    case 'text/xml':
+      if (isFeedXml(source)) return 'feed'
+      throw new FetchError('unsupported_content_type', 'XML documents other than RSS/Atom feeds are not supported')
+    case 'text/plain':
+      // Raw files (e.g. on GitHub) are served as text/plain whatever their format
+      return extension === 'markdown' || extension === 'json' ? extension : 'text'
+    case '':
+    case 'application/octet-stream':
+      return extension && extension !== 'pdf' ? extension : sniffDocumentType(source)
+  }
+
+  if (mediaType.endsWith('+json')) return 'json'
+  if (mediaType.endsWith('+xml') && isFeedXml(source)) return 'feed'
+  if (mediaType.startsWith('text/')) return 'text'
+
+  throw new FetchError('unsupported_content_type', `Unsupported content type: ${mediaType}`)
+}
+
+function fileExtension(url: string): DocumentType | null {
+  try {
+    const match = new URL(url).pathname.toLowerCase().match(/\.([a-z]+)$/)
+    return match ? EXTENSION_TYPES[match[1]] || null : null
+  } catch {
+    return null
+  }
+}
+
+function sniffDocumentType(source: string): DocumentType {
+  const start = source.trimStart().slice(0, 512).toLowerCase()
+  if (isFeedXml(source)) return 'feed'
+  if (start.startsWith('<!doctype html') || /<(html|head|body)[\s>]/.test(start)) return 'html'
+  if (/^[[{]/.test(start)) {
+    try {
+      JSON.parse(source)
+      return 'json'
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return 'text'
+}
+
+// Pretty-print JSON with two-space indentation; invalid JSON is passed through as text
+function formatJson(source: string): { title: string; text: string } {
+  try {
+    const value = JSON.parse(source)
+    const title = value && typeof value === 'object' && !Array.isArray(value)
+      ? [value.title, value.name].find((candidate) => typeof candidate === 'string') || ''
+      : ''
+    return { title, text: JSON.stringify(value, null, 2) }
+  } catch {
+    return { title: '', text: source.trim() }
+  }
+}
+
+function markdownTitle(source: string): string {
+  return source.match(/^#\s+(.+)$/m)?.[1].trim() || ''
+}
+
+// TextDecoder label from the Content-Type charset, defaulting to UTF-8 like response.text()
+function charsetOf(contentType: string | null): string {
+  const charset = contentType?.match(/charset=["']?([\w-]+)/i)?.[1]
+  if (!charset) return 'utf-8'
+  try {
+    new TextDecoder(charset)
+    return charset
+  } catch {
+    return 'utf-8'
+  }
+}
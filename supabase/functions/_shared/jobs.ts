@@ -0,0 +1,322 @@
+// Summarization job queue (summary_jobs).
+//
+//   queued ──claim──▶ running ──▶ succeeded
+//     ▲                  │ ├────▶ failed     (permanent error, or out of attempts)
+//     └── retry backoff ─┘ └────▶ cancelled  (set by the UI while queued or running; a
+//                                               running job finishes but stays cancelled)
+//
+// process-url and summerize_url enqueue a job and return its id, process-batch one
+// job per (URL, prompt) pair under a summary_batches row; the summary-worker
+// function claims jobs with claim_summary_jobs (FOR UPDATE SKIP LOCKED, so workers
+// never share a job) and runs them. A claimed job holds a lease that is extended as
+// it reports progress; if the worker dies, the job is claimed again once the lease
+// expires. Batch jobs are only claimed while fewer than the batch's concurrency are
+// running. The UI follows status changes through Supabase Realtime.
+//
+// Environment:
+//   SUMMARY_JOB_LEASE_SECONDS   lease per claim, default 300
+//   SUMMARY_JOB_RETRY_DELAY_MS  delay before the first job-level retry, doubled after each, default 30000
+//   SUMMARY_BATCH_CONCURRENCY   jobs of a batch running at once unless the request asks, default 3
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { classifyError, type ErrorCode } from './errors.ts'
+import { type PromptRow, runSummary, type SummaryRunResult } from './pipeline.ts'
+import type { UrlRow } from './urls.ts'
+import { emitWebhookEvent } from './webhooks.ts'
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface SummaryJob {
+  id: number
+  created_at: string
+  url_id: number
+  prompt_id: number
+  user_id: string | null
+  status: JobStatus
+  force_refresh: boolean
+  merge_duplicate: boolean
+  attempts: number
+  max_attempts: number
+  run_after: string
+  locked_until: string | null
+  started_at: string | null
+  finished_at: string | null
+  progress: string | null
+  error_code: ErrorCode | null
+  error_message: string | null
+  summary_id: number | null
+  result: SummaryRunResult | null
+  batch_id: number | null
+}
+
+export interface NewSummaryJob {
+  url_id: number
+  prompt_id: number
+  user_id?: string | null
+  force_refresh?: boolean
+  merge_duplicate?: boolean
+  batch_id?: number | null
+}
+
+export interface NewSummaryBatch {
+  urlIds: number[]
+  promptIds: number[]
+  workspaceId: number
+  userId?: string | null
+  forceRefresh?: boolean
+  concurrency: number
+}
+
+export interface RunJobHandlers {
+  onToken?: (text: string) => void
+  onProgress?: (message: string) => void
+}
+
+const DEFAULT_LEASE_SECONDS = 300
+const DEFAULT_RETRY_DELAY_MS = 30000
+const DEFAULT_BATCH_CONCURRENCY = 3
+const MAX_BATCH_CONCURRENCY = 10
+
+// Queue a job for the worker. With `claim`, the job starts out running under this
+// request's lease instead (used by the streaming mode, which runs it inline).
+export async function enqueueSummaryJob(
+  supabase: SupabaseClient,
+  job: NewSummaryJob,
+  { claim = false } = {}
+): Promise<SummaryJob> {
+  const { data, error } = await supabase
+    .from('summary_jobs')
+    .insert({
+      ...job,
+      ...(claim
+        ? { status: 'running', attempts: 1, started_at: new Date().toISOString(), locked_until: leaseExpiry() }
+        : {}),
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as SummaryJob
+}
+
+// Queue several jobs in one insert, returned in the same order
+export async function enqueueSummaryJobs(supabase: SupabaseClient, jobs: NewSummaryJob[]): Promise<SummaryJob[]> {
+  if (jobs.length === 0) return []
+  const { data, error } = await supabase.from('summary_jobs').insert(jobs).select().order('id')
+  if (error) throw error
+  return data as SummaryJob[]
+}
+
+// Queue one job per (URL, prompt) pair under a new summary_batches row and start as
+// many workers as the batch may run at once
+export async function enqueueSummaryBatch(
+  supabase: SupabaseClient,
+  { urlIds, promptIds, workspaceId, userId = null, forceRefresh = false, concurrency }: NewSummaryBatch
+): Promise<{ batchId: number; jobs: SummaryJob[] }> {
+  const { data: batch, error } = await supabase
+    .from('summary_batches')
+    .insert({
+      user_id: userId,
+      workspace_id: workspaceId,
+      url_ids: urlIds,
+      prompt_ids: promptIds,
+      force_refresh: forceRefresh,
+      concurrency,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  const jobs = await enqueueSummaryJobs(
+    supabase,
+    urlIds.flatMap((url_id) =>
+      promptIds.map((prompt_id) => ({ url_id, prompt_id, user_id: userId, force_refresh: forceRefresh, batch_id: batch.id }))
+    )
+  )
+
+  kickSummaryWorker(Math.min(concurrency, jobs.length))
+  console.log(`Queued batch ${batch.id}: ${jobs.length} jobs, ${concurrency} at a time`)
+  return { batchId: batch.id, jobs }
+}
+
+// The concurrency a request asked for, capped, or the configured default
+export function batchConcurrency(requested?: unknown): number {
+  const fallback = Number(Deno.env.get('SUMMARY_BATCH_CONCURRENCY')) || DEFAULT_BATCH_CONCURRENCY
+  const value = Number(requested ?? fallback)
+  if (!Number.isInteger(value) || value < 1) return Math.min(fallback, MAX_BATCH_CONCURRENCY)
+  return Math.min(value, MAX_BATCH_CONCURRENCY)
+}
+
+export async function claimSummaryJobs(supabase: SupabaseClient, batchSize = 1): Promise<SummaryJob[]> {
+  const { data, error } = await supabase.rpc('claim_summary_jobs', {
+    batch_size: batchSize,
+    lease_seconds: leaseSeconds(),
+  })
+  if (error) throw error
+  return (data || []) as SummaryJob[]
+}
+
+// Run a claimed job and record the outcome on its row. Resolves with the final row;
+// failures are recorded rather than thrown.
+export async function runSummaryJob(
+  supabase: SupabaseClient,
+  job: SummaryJob,
+  { onToken, onProgress }: RunJobHandlers = {}
+): Promise<SummaryJob> {
+  console.log(`Running summary job ${job.id} (attempt ${job.attempts} of ${job.max_attempts})`)
+  // For the webhook events, once the URL is known
+  let workspaceId: number | null = null
+
+  try {
+    const [urlRow, prompt] = await Promise.all([
+      fetchRow<UrlRow>(supabase, 'urls', job.url_id),
+      fetchRow<PromptRow>(supabase, 'prompts', job.prompt_id),
+    ])
+    workspaceId = urlRow.workspace_id
+
+    const result = await runSummary(supabase, {
+      urlRow,
+      prompt,
+      forceRefresh: job.force_refresh,
+      userId: job.user_id ?? urlRow.user_id,
+      mergeDuplicate: job.merge_duplicate,
+      onToken,
+      onProgress: (message) => {
+        onProgress?.(message)
+        reportProgress(supabase, job, message)
+      },
+    })
+
+    const finished = await finishJob(supabase, job, {
+      status: 'succeeded',
+      url_id: result.url_id,
+      summary_id: result.summery_id,
+      result,
+      progress: null,
+    })
+    if (finished.status === 'succeeded' && workspaceId) {
+      // The same fields process-url streams when it's done
+      await emitWebhookEvent(supabase, workspaceId, 'summary.created', {
+        ...result,
+        job_id: job.id,
+        summary_id: result.summery_id,
+      })
+    }
+    return finished
+  } catch (error) {
+    const { code, message, retryable } = classifyError(error)
+    console.error(`Summary job ${job.id} failed (${code}):`, error)
+
+    if (retryable && job.attempts < job.max_attempts) {
+      const delay = retryDelayMs() * 2 ** (job.attempts - 1)
+      return await finishJob(supabase, job, {
+        status: 'queued',
+        run_after: new Date(Date.now() + delay).toISOString(),
+        progress: `Retrying in ${Math.round(delay / 1000)}s`,
+        error_code: code,
+        error_message: message,
+        finished_at: null,
+      })
+    }
+
+    const finished = await finishJob(supabase, job, {
+      status: 'failed',
+      error_code: code,
+      error_message: message,
+      progress: null,
+    })
+    if (finished.status === 'failed' && workspaceId) {
+      await emitWebhookEvent(supabase, workspaceId, 'summary.failed', {
+        error: 'Failed to get AI response',
+        details: message,
+        code,
+        job_id: job.id,
+        url_id: job.url_id,
+        prompt_id: job.prompt_id,
+      })
+    }
+    return finished
+  }
+}
+
+// Start worker invocations without waiting for them, so queued jobs begin right away
+// rather than on the next scheduled run
+export function kickSummaryWorker(count = 1) {
+  for (let i = 0; i < count; i++) {
+    EdgeRuntime.waitUntil(startWorker())
+  }
+}
+
+function startWorker(): Promise<void> {
+  return fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/summary-worker`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: '{}',
+  })
+    .then((response) => response.body?.cancel())
+    .catch((error) => console.error('Failed to start the summary worker:', error))
+}
+
+// Only update the job if this run still owns it: it may have been cancelled, or its
+// lease may have run out and another worker claimed it (each claim bumps attempts)
+async function finishJob(
+  supabase: SupabaseClient,
+  job: SummaryJob,
+  updates: Partial<SummaryJob>
+): Promise<SummaryJob> {
+  const { data, error } = await supabase
+    .from('summary_jobs')
+    .update({ finished_at: new Date().toISOString(), locked_until: null, ...updates })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('attempts', job.attempts)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error(`Failed to update summary job ${job.id}:`, error)
+    return { ...job, ...updates } as SummaryJob
+  }
+  if (!data) {
+    console.log(`Summary job ${job.id} was cancelled or claimed again while running`)
+    return { ...job, status: 'cancelled' }
+  }
+  return data as SummaryJob
+}
+
+// Progress notes double as a heartbeat that extends the lease
+function reportProgress(supabase: SupabaseClient, job: SummaryJob, message: string) {
+  supabase
+    .from('summary_jobs')
+    .update({ progress: message, locked_until: leaseExpiry() })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('attempts', job.attempts)
+    .then(({ error }) => {
+      if (error) console.error(`Failed to report progress for job ${job.id}:`, error)
+    })
+}
+
+async function fetchRow<T>(supabase: SupabaseClient, table: string, id: number): Promise<T> {
+  const { data, error } = await supabase.from(table).select('*').eq('id', id).single()
+  if (error) throw new Error(`Failed to fetch ${table} row ${id}: ${error.message}`)
+  return data as T
+}
+
+function leaseExpiry(): string {
+  return new Date(Date.now() + leaseSeconds() * 1000).toISOString()
+}
+
+function leaseSeconds(): number {
+  const value = Number(Deno.env.get('SUMMARY_JOB_LEASE_SECONDS'))
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_LEASE_SECONDS
+}
+
+function retryDelayMs(): number {
+  const value = Number(Deno.env.get('SUMMARY_JOB_RETRY_DELAY_MS'))
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_RETRY_DELAY_MS
+}
@@ -0,0 +1,255 @@
+// Semantic search and question answering over a workspace's saved pages ("ask my
+// library"). Each URL's scraped text is split into overlapping chunks, embedded
+// (embeddings.ts) and kept in page_chunks, with a page_indexes row per URL; a
+// question is embedded the same way, the closest chunks are fetched with
+// match_page_chunks() and the chosen model answers from them, citing the passages it
+// used as [n].
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { chunkText, estimateTokens } from './chunking.ts'
+import {
+  embeddingModelKey,
+  embeddingsConfigured,
+  type EmbeddingSettings,
+  embedTexts,
+  resolveEmbeddingSettings,
+} from './embeddings.ts'
+import { type ChatMessage, completeChat, type CompletionUsage, type ModelSettings } from './llm.ts'
+import type { PageSnapshot } from './scrape.ts'
+
+export interface IndexPageOptions {
+  urlId: number
+  workspaceId: number
+  snapshot: Pick<PageSnapshot, 'id' | 'text' | 'title'>
+  // Embed again even when the snapshot was already indexed
+  force?: boolean
+  onProgress?: (message: string) => void
+}
+
+// Skipped when no embedding provider is configured
+export type IndexOutcome = 'indexed' | 'unchanged' | 'empty' | 'skipped'
+
+export interface IndexResult {
+  outcome: IndexOutcome
+  chunks: number
+}
+
+export interface LibraryChunk {
+  id: number
+  url_id: number
+  chunk_index: number
+  content: string
+  similarity: number
+  url: string
+  title: string | null
+  caption: string | null
+}
+
+// A retrieved passage, numbered as the model saw it
+export interface LibrarySource extends LibraryChunk {
+  n: number
+  cited: boolean
+}
+
+export interface LibraryAnswer {
+  answer: string
+  model: string
+  provider: string
+  usage: CompletionUsage | null
+  sources: LibrarySource[]
+}
+
+const CHUNK_TOKENS = 400
+const CHUNK_OVERLAP_TOKENS = 50
+// Caps the embedding cost of very long documents; the rest of the text isn't searchable
+const MAX_CHUNKS_PER_PAGE = 200
+const PAGE_SIZE = 1000
+const DEFAULT_MATCH_COUNT = 8
+// Below this the passages are rarely about the question
+const MIN_SIMILARITY = 0.2
+
+const ANSWER_INSTRUCTIONS = `You answer questions using only the numbered passages from the user's saved web pages.
+Cite the passages you use with their numbers in square brackets, like [1] or [2][3], right after the statement they support.
+If the passages don't contain the answer, say so plainly instead of guessing.
+Answer in the language of the question.`
+
+const NO_SOURCES_ANSWER = "Nothing in this library's indexed pages matches the question."
+
+// Embed a URL's page text, replacing its previous chunks. The chunks are kept when
+// they were made from the same snapshot with the current embedding model. Pages
+// without text are recorded too, so they aren't tried again until they change.
+export async function indexPage(
+  supabase: SupabaseClient,
+  { urlId, workspaceId, snapshot, force = false, onProgress }: IndexPageOptions,
+  settings: EmbeddingSettings = resolveEmbeddingSettings()
+): Promise<IndexResult> {
+  if (!embeddingsConfigured(settings)) return { outcome: 'skipped', chunks: 0 }
+
+  const modelKey = embeddingModelKey(settings)
+
+  if (!force && snapshot.id !== null) {
+    const { data: existing, error } = await supabase
+      .from('page_indexes')
+      .select('snapshot_id')
+      .eq('url_id', urlId)
+      .eq('embedding_model', modelKey)
+      .maybeSingle()
+    if (error) throw error
+    if (existing?.snapshot_id === snapshot.id) return { outcome: 'unchanged', chunks: 0 }
+  }
+
+  const chunks = chunkText(snapshot.text, { maxTokens: CHUNK_TOKENS, overlapTokens: CHUNK_OVERLAP_TOKENS })
+    .slice(0, MAX_CHUNKS_PER_PAGE)
+
+  // The title goes with every chunk so passages that don't name their subject still match
+  const { vectors } = chunks.length
+    ? await embedTexts(
+      settings,
+      chunks.map((chunk) => (snapshot.title ? `${snapshot.title}\n\n${chunk}` : chunk)),
+      (embedded, total) => onProgress?.(`Embedded ${embedded} of ${total} passages...`)
+    )
+    : { vectors: [] }
+
+  // Chunks from other snapshots or models are replaced in one transaction, so a
+  // failure leaves the previous ones searchable
+  const { error } = await supabase.rpc('replace_page_chunks', {
+    target_url: urlId,
+    target_workspace: workspaceId,
+    snapshot: snapshot.id,
+    model: modelKey,
+    chunks: chunks.map((content, index) => ({
+      content,
+      token_count: estimateTokens(content),
+      embedding: vectors[index],
+    })),
+  })
+  if (error) throw error
+
+  return { outcome: chunks.length ? 'indexed' : 'empty', chunks: chunks.length }
+}
+
+// Index a page after the response that summarized it, so slow embeddings hold up
+// neither the summary nor its job's lease. Failures are only logged; index-library
+// picks the page up again.
+export function indexPageInBackground(supabase: SupabaseClient, options: IndexPageOptions) {
+  EdgeRuntime.waitUntil(
+    indexPage(supabase, {
+      ...options,
+      onProgress: (message) => console.log(`Indexing URL ${options.urlId}: ${message}`),
+    })
+      .then((result) => {
+        if (result.outcome === 'indexed') console.log(`Indexed ${result.chunks} chunks of URL ${options.urlId}`)
+      })
+      .catch((error) => console.error(`Failed to index URL ${options.urlId} for the library:`, error))
+  )
+}
+
+// The workspace's URLs not indexed with the current embedding model, oldest first.
+// afterId continues a pass through the library past URLs that failed to index.
+export async function unindexedUrls(
+  supabase: SupabaseClient,
+  workspaceId: number,
+  afterId = 0,
+  settings: EmbeddingSettings = resolveEmbeddingSettings()
+): Promise<{ id: number; url: string }[]> {
+  const indexed = new Set<number>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('page_indexes')
+      .select('url_id')
+      .eq('workspace_id', workspaceId)
+      .eq('embedding_model', embeddingModelKey(settings))
+      .gt('url_id', afterId)
+      .order('url_id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    for (const row of data || []) indexed.add(row.url_id)
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const pending: { id: number; url: string }[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('urls')
+      .select('id, url')
+      .eq('workspace_id', workspaceId)
+      .gt('id', afterId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    pending.push(...(data || []).filter((row) => !indexed.has(row.id)))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return pending
+}
+
+// The chunks of the workspace closest in meaning to the question
+export async function retrieveChunks(
+  supabase: SupabaseClient,
+  workspaceId: number,
+  question: string,
+  matchCount = DEFAULT_MATCH_COUNT,
+  settings: EmbeddingSettings = resolveEmbeddingSettings()
+): Promise<LibraryChunk[]> {
+  const { vectors: [queryEmbedding] } = await embedTexts(settings, [question])
+
+  const { data, error } = await supabase.rpc('match_page_chunks', {
+    target_workspace: workspaceId,
+    query_embedding: JSON.stringify(queryEmbedding),
+    model: embeddingModelKey(settings),
+    match_count: matchCount,
+    min_similarity: MIN_SIMILARITY,
+  })
+  if (error) throw error
+  return (data || []) as LibraryChunk[]
+}
+
+export async function answerQuestion(
+  supabase: SupabaseClient,
+  workspaceId: number,
+  question: string,
+  modelSettings: ModelSettings,
+  matchCount = DEFAULT_MATCH_COUNT
+): Promise<LibraryAnswer> {
+  const chunks = await retrieveChunks(supabase, workspaceId, question, matchCount)
+  if (!chunks.length) {
+    return {
+      answer: NO_SOURCES_ANSWER,
+      model: modelSettings.model,
+      provider: modelSettings.provider,
+      usage: null,
+      sources: [],
+    }
+  }
+
+  const passages = chunks
+    .map((chunk, index) => {
+      const source = [chunk.title || chunk.caption, chunk.url].filter(Boolean).join(' · ')
+      return `[${index + 1}] ${source}\n${chunk.content}`
+    })
+    .join('\n\n')
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: ANSWER_INSTRUCTIONS },
+    { role: 'user', content: `Passages:\n\n${passages}\n\nQuestion: ${question}` },
+  ]
+  const completion = await completeChat(modelSettings, messages)
+
+  const cited = citedNumbers(completion.content)
+  return {
+    answer: completion.content,
+    model: completion.model,
+    provider: modelSettings.provider,
+    usage: completion.usage,
+    sources: chunks.map((chunk, index) => ({ ...chunk, n: index + 1, cited: cited.has(index + 1) })),
+  }
+}
+
+// Numbers cited as [1], [2, 3] or [2][3]
+function citedNumbers(answer: string): Set<number> {
+  const numbers = new Set<number>()
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const n of match[1].split(',')) numbers.add(Number(n))
+  }
+  return numbers
+}
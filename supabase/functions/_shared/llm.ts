@@ -0,0 +1,527 @@
+// LLM provider layer shared by the edge functions.
+// Supports OpenAI, Anthropic and any OpenAI-compatible server (Ollama, llama.cpp,
+// vLLM, ...). Model settings come from the prompt row, falling back to defaults.
+//
+// Environment:
+//   LLM_PROVIDER                 default provider when a prompt doesn't set one (openai)
+//   OPENAI_API_KEY               required for the openai provider
+//   ANTHROPIC_API_KEY            required for the anthropic provider
+//   OPENAI_COMPATIBLE_BASE_URL   e.g. http://host.docker.internal:11434/v1 for a local Ollama
+//   OPENAI_COMPATIBLE_API_KEY    optional, sent as a bearer token when set
+//   OPENAI_COMPATIBLE_MODEL      default model for the openai_compatible provider
+//   LLM_TIMEOUT_MS               time limit for one model call, default 120000
+//
+// Rate limits, timeouts and provider outages are retried with backoff (see retry.ts);
+// failures are raised as LlmError with a stable code.
+
+import { llmRetryPolicy, parseRetryAfter, withRetry } from './retry.ts'
+import { readSseEvents } from './sse.ts'
+
+export type LlmProvider = 'openai' | 'anthropic' | 'openai_compatible'
+
+export const LLM_PROVIDERS: LlmProvider[] = ['openai', 'anthropic', 'openai_compatible']
+
+export interface ModelSettings {
+  provider: LlmProvider
+  model: string
+  temperature: number
+  maxTokens: number
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface CompletionUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface CompletionResult {
+  content: string
+  // The model that actually served the request, as reported by the provider
+  model: string
+  usage: CompletionUsage | null
+}
+
+// Model columns on the prompts table; all optional
+export interface PromptModelColumns {
+  provider?: string | null
+  model?: string | null
+  temperature?: number | null
+  max_tokens?: number | null
+}
+
+// Called with each piece of text as the model streams its response
+export type TokenHandler = (text: string) => void
+
+// A JSON Schema object; see structured.ts for the keywords that are validated
+export type JsonSchema = Record<string, unknown>
+
+export interface CompletionOptions {
+  // Ask for JSON matching this schema: OpenAI-style response_format, or a forced
+  // tool call for Anthropic. The content of the result is the JSON text.
+  jsonSchema?: JsonSchema
+}
+
+// Raised when the selected provider is missing its configuration
+export class LlmConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LlmConfigError'
+  }
+}
+
+export type LlmErrorCode =
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'upstream_timeout'
+  | 'model_unavailable'
+  | 'model_refused'
+  | 'model_error'
+
+const ERROR_STATUS: Record<LlmErrorCode, number> = {
+  rate_limited: 429,
+  quota_exceeded: 402,
+  upstream_timeout: 504,
+  model_unavailable: 503,
+  model_refused: 422,
+  model_error: 502,
+}
+
+const RETRYABLE_CODES = new Set<LlmErrorCode>(['rate_limited', 'upstream_timeout', 'model_unavailable'])
+
+// Raised when a model call fails; `code` is returned to the client
+export class LlmError extends Error {
+  code: LlmErrorCode
+  // From the provider's Retry-After header
+  retryAfterMs: number | null
+
+  constructor(code: LlmErrorCode, message: string, retryAfterMs: number | null = null) {
+    super(message)
+    this.name = 'LlmError'
+    this.code = code
+    this.retryAfterMs = retryAfterMs
+  }
+
+  // HTTP status the edge functions respond with
+  get status(): number {
+    return ERROR_STATUS[this.code]
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.has(this.code)
+  }
+}
+
+const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  openai: 'gpt-3.5-turbo',
+  anthropic: 'claude-3-5-haiku-latest',
+  openai_compatible: 'llama3.1',
+}
+
+// Name of the response_format schema / tool used for structured output
+const STRUCTURED_OUTPUT_NAME = 'structured_output'
+
+const DEFAULT_TEMPERATURE = 0.7
+const DEFAULT_MAX_TOKENS = 500
+const DEFAULT_TIMEOUT_MS = 120000
+
+export function isLlmProvider(value: unknown): value is LlmProvider {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value)
+}
+
+export function resolveModelSettings(prompt: PromptModelColumns): ModelSettings {
+  const envProvider = Deno.env.get('LLM_PROVIDER')
+  const provider: LlmProvider = isLlmProvider(prompt.provider)
+    ? prompt.provider
+    : isLlmProvider(envProvider) ? envProvider : 'openai'
+
+  const defaultModel = provider === 'openai_compatible'
+    ? Deno.env.get('OPENAI_COMPATIBLE_MODEL') || DEFAULT_MODELS.openai_compatible
+    : DEFAULT_MODELS[provider]
+
+  return {
+    provider,
+    model: prompt.model?.trim() || defaultModel,
+    temperature: prompt.temperature ?? DEFAULT_TEMPERATURE,
+    maxTokens: prompt.max_tokens ?? DEFAULT_MAX_TOKENS,
+  }
+}
+
+// Throws LlmConfigError when the provider can't be called, so callers can fail fast
+// before doing any scraping work
+export function assertProviderConfigured(settings: ModelSettings) {
+  switch (settings.provider) {
+    case 'openai':
+      if (!Deno.env.get('OPENAI_API_KEY')) throw new LlmConfigError('OpenAI API key not configured')
+      break
+    case 'anthropic':
+      if (!Deno.env.get('ANTHROPIC_API_KEY')) throw new LlmConfigError('Anthropic API key not configured')
+      break
+    case 'openai_compatible':
+      if (!Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')) {
+        throw new LlmConfigError('OpenAI-compatible base URL not configured')
+      }
+      break
+  }
+}
+
+export function completeChat(
+  settings: ModelSettings,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<CompletionResult> {
+  assertProviderConfigured(settings)
+
+  return withRetry(`${providerLabel(settings.provider)} call`, llmRetryPolicy(), () =>
+    sendChat(settings, messages, options).catch((error) => {
+      throw asLlmError(error, settings.provider)
+    })
+  )
+}
+
+function sendChat(settings: ModelSettings, messages: ChatMessage[], options: CompletionOptions): Promise<CompletionResult> {
+  switch (settings.provider) {
+    case 'anthropic':
+      return completeAnthropic(settings, messages, options)
+    case 'openai_compatible':
+      return completeOpenAI(
+        settings,
+        messages,
+        options,
+        Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')!,
+        Deno.env.get('OPENAI_COMPATIBLE_API_KEY')
+      )
+    case 'openai':
+    default:
+      return completeOpenAI(settings, messages, options, 'https://api.openai.com/v1', Deno.env.get('OPENAI_API_KEY'))
+  }
+}
+
+// Same as completeChat, but streams the response and calls onToken as text arrives.
+// Resolves with the full response once the stream ends. Only failures before the
+// first token are retried, since the client has already shown what was streamed.
+export function streamChat(
+  settings: ModelSettings,
+  messages: ChatMessage[],
+  onToken: TokenHandler
+): Promise<CompletionResult> {
+  assertProviderConfigured(settings)
+
+  let started = false
+  const forward: TokenHandler = (text) => {
+    started = true
+    onToken(text)
+  }
+
+  return withRetry(
+    `${providerLabel(settings.provider)} stream`,
+    llmRetryPolicy(),
+    () =>
+      sendStream(settings, messages, forward).catch((error) => {
+        throw asLlmError(error, settings.provider)
+      }),
+    () => !started
+  )
+}
+
+function sendStream(settings: ModelSettings, messages: ChatMessage[], onToken: TokenHandler): Promise<CompletionResult> {
+  switch (settings.provider) {
+    case 'anthropic':
+      return streamAnthropic(settings, messages, onToken)
+    case 'openai_compatible':
+      return streamOpenAI(
+        settings,
+        messages,
+        onToken,
+        Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')!,
+        Deno.env.get('OPENAI_COMPATIBLE_API_KEY')
+      )
+    case 'openai':
+    default:
+      return streamOpenAI(settings, messages, onToken, 'https://api.openai.com/v1', Deno.env.get('OPENAI_API_KEY'))
+  }
+}
+
+// OpenAI models before gpt-4o (gpt-3.5-turbo, gpt-4, gpt-4-turbo) reject json_schema
+// response formats; they get JSON mode, and the schema from the instructions
+// completeStructured adds to the prompt. OpenAI-compatible servers are sent the schema.
+const JSON_SCHEMA_MODELS = /^(ft:)?(gpt-4o(?!-2024-05-13)|gpt-4\.1|gpt-5|o1(?!-mini|-preview)|o[3-9])/
+
+function openAiResponseFormat(settings: ModelSettings, jsonSchema: JsonSchema) {
+  if (settings.provider === 'openai' && !JSON_SCHEMA_MODELS.test(settings.model)) {
+    // JSON mode only produces objects
+    return jsonSchema.type === 'object' ? { response_format: { type: 'json_object' } } : {}
+  }
+  // Not strict: strict mode rejects schemas with optional properties
+  return { response_format: { type: 'json_schema', json_schema: { name: STRUCTURED_OUTPUT_NAME, schema: jsonSchema } } }
+}
+
+async function completeOpenAI(
+  settings: ModelSettings,
+  messages: ChatMessage[],
+  { jsonSchema }: CompletionOptions,
+  baseUrl: string,
+  apiKey: string | undefined
+): Promise<CompletionResult> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`
+  }
+
+  const response = await postJson(settings, `${baseUrl.replace(/\/+$/, '')}/chat/completions`, headers, {
+    model: settings.model,
+    messages,
+    max_tokens: settings.maxTokens,
+    temperature: settings.temperature,
+    ...(jsonSchema ? openAiResponseFormat(settings, jsonSchema) : {}),
+  })
+
+  const data = await response.json()
+  const choice = data.choices?.[0]
+  if (choice?.message?.refusal || choice?.finish_reason === 'content_filter') {
+    throw new LlmError('model_refused', choice.message?.refusal || 'The response was blocked by the content filter')
+  }
+  return {
+    content: choice?.message?.content || 'No response generated',
+    model: data.model || settings.model,
+    usage: data.usage
+      ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+      : null,
+  }
+}
+
+async function streamOpenAI(
+  settings: ModelSettings,
+  messages: ChatMessage[],
+  onToken: TokenHandler,
+  baseUrl: string,
+  apiKey: string | undefined
+): Promise<CompletionResult> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`
+  }
+
+  const response = await postJson(settings, `${baseUrl.replace(/\/+$/, '')}/chat/completions`, headers, {
+    model: settings.model,
+    messages,
+    max_tokens: settings.maxTokens,
+    temperature: settings.temperature,
+    stream: true,
+    // Only OpenAI itself is known to accept stream_options
+    ...(settings.provider === 'openai' ? { stream_options: { include_usage: true } } : {}),
+  })
+
+  if (!response.body) {
+    throw new LlmError('model_error', `${providerLabel(settings.provider)} returned an empty stream`)
+  }
+
+  let content = ''
+  let model = settings.model
+  let usage: CompletionUsage | null = null
+
+  for await (const event of readSseEvents(response.body)) {
+    if (event.data === '[DONE]') break
+    const chunk = JSON.parse(event.data)
+    if (chunk.model) model = chunk.model
+    if (chunk.usage) {
+      usage = { promptTokens: chunk.usage.prompt_tokens ?? 0, completionTokens: chunk.usage.completion_tokens ?? 0 }
+    }
+    const choice = chunk.choices?.[0]
+    if (choice?.delta?.refusal || choice?.finish_reason === 'content_filter') {
+      throw new LlmError('model_refused', choice.delta?.refusal || 'The response was blocked by the content filter')
+    }
+    const text = choice?.delta?.content
+    if (text) {
+      content += text
+      onToken(text)
+    }
+  }
+
+  return { content: content || 'No response generated', model, usage }
+}
+
+async function completeAnthropic(
+  settings: ModelSettings,
+  messages: ChatMessage[],
+  { jsonSchema }: CompletionOptions
+): Promise<CompletionResult> {
+  // Anthropic takes the system prompt as a top-level field rather than a message
+  const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n')
+
+  const response = await postJson(settings, 'https://api.anthropic.com/v1/messages', anthropicHeaders(), {
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    temperature: settings.temperature,
+    ...(system ? { system } : {}),
+    messages: messages.filter((m) => m.role !== 'system'),
+    // Anthropic has no JSON mode; a forced tool call returns input matching the schema
+    ...(jsonSchema
+      ? {
+        tools: [{ name: STRUCTURED_OUTPUT_NAME, description: 'Record the result', input_schema: jsonSchema }],
+        tool_choice: { type: 'tool', name: STRUCTURED_OUTPUT_NAME },
+      }
+      : {}),
+  })
+
+  const data = await response.json()
+  if (data.stop_reason === 'refusal') {
+    throw new LlmError('model_refused', 'The model declined to respond')
+  }
+  const toolUse = (data.content || []).find((block: { type: string }) => block.type === 'tool_use')
+  const content = toolUse
+    ? JSON.stringify(toolUse.input)
+    : (data.content || [])
+      .filter((block: { type: string }) => block.type === 'text')
+      .map((block: { text: string }) => block.text)
+      .join('')
+
+  return {
+    content: content || 'No response generated',
+    model: data.model || settings.model,
+    usage: data.usage
+      ? { promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 }
+      : null,
+  }
+}
+
+async function streamAnthropic(
+  settings: ModelSettings,
+  messages: ChatMessage[],
+  onToken: TokenHandler
+): Promise<CompletionResult> {
+  const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n')
+
+  const response = await postJson(settings, 'https://api.anthropic.com/v1/messages', anthropicHeaders(), {
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    temperature: settings.temperature,
+    ...(system ? { system } : {}),
+    messages: messages.filter((m) => m.role !== 'system'),
+    stream: true,
+  })
+
+  if (!response.body) {
+    throw new LlmError('model_error', 'Anthropic returned an empty stream')
+  }
+
+  let content = ''
+  let model = settings.model
+  let promptTokens = 0
+  let completionTokens = 0
+
+  for await (const event of readSseEvents(response.body)) {
+    const data = JSON.parse(event.data)
+    switch (data.type) {
+      case 'message_start':
+        model = data.message?.model || model
+        promptTokens = data.message?.usage?.input_tokens ?? 0
+        break
+      case 'content_block_delta':
+        if (data.delta?.type === 'text_delta' && data.delta.text) {
+          content += data.delta.text
+          onToken(data.delta.text)
+        }
+        break
+      case 'message_delta':
+        completionTokens = data.usage?.output_tokens ?? completionTokens
+        if (data.delta?.stop_reason === 'refusal') {
+          throw new LlmError('model_refused', 'The model declined to respond')
+        }
+        break
+      case 'error':
+        throw new LlmError(
+          data.error?.type === 'overloaded_error'
+            ? 'model_unavailable'
+            : data.error?.type === 'rate_limit_error'
+            ? 'rate_limited'
+            : 'model_error',
+          `Anthropic API error: ${data.error?.message || 'stream error'}`
+        )
+    }
+  }
+
+  return {
+    content: content || 'No response generated',
+    model,
+    usage: { promptTokens, completionTokens },
+  }
+}
+
+function anthropicHeaders(): Record<string, string> {
+  return {
+    'x-api-key': Deno.env.get('ANTHROPIC_API_KEY')!,
+    'anthropic-version': '2023-06-01',
+    'Content-Type': 'application/json',
+  }
+}
+
+// POST a request to the provider, raising LlmError for error statuses
+async function postJson(
+  settings: ModelSettings,
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(configuredTimeout()),
+  })
+
+  if (!response.ok) {
+    throw classifyProviderError(settings.provider, response.status, response.headers, await response.text())
+  }
+  return response
+}
+
+// Also used for embedding requests (embeddings.ts)
+export function classifyProviderError(provider: LlmProvider, status: number, headers: Headers, body: string): LlmError {
+  const message = `${providerLabel(provider)} API error: ${status} - ${body}`
+  const retryAfterMs = Number(headers.get('retry-after-ms')) || parseRetryAfter(headers.get('Retry-After'))
+
+  if (status === 429) {
+    // OpenAI reports an exhausted balance as a 429 too; waiting won't help
+    return /insufficient_quota|billing/i.test(body)
+      ? new LlmError('quota_exceeded', message)
+      : new LlmError('rate_limited', message, retryAfterMs)
+  }
+  if (status === 408 || status === 504 || status === 524) return new LlmError('upstream_timeout', message)
+  // 529 is Anthropic's "overloaded"
+  if (status >= 500) return new LlmError('model_unavailable', message, retryAfterMs)
+  if (/content_policy|content_filter|safety/i.test(body)) return new LlmError('model_refused', message)
+  return new LlmError('model_error', message)
+}
+
+// Timeouts and connection failures surface as DOMException / TypeError
+export function asLlmError(error: unknown, provider: LlmProvider): unknown {
+  if (error instanceof LlmError) return error
+  const label = providerLabel(provider)
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new LlmError('upstream_timeout', `${label} did not respond within ${configuredTimeout() / 1000}s`)
+  }
+  if (error instanceof TypeError) {
+    return new LlmError('model_unavailable', `Could not reach ${label}: ${error.message}`)
+  }
+  return error
+}
+
+export function configuredTimeout(): number {
+  const value = Number(Deno.env.get('LLM_TIMEOUT_MS'))
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TIMEOUT_MS
+}
+
+export function providerLabel(provider: LlmProvider): string {
+  switch (provider) {
+    case 'anthropic':
+      return 'Anthropic'
+    case 'openai_compatible':
+      return 'OpenAI-compatible'
+    default:
+      return 'OpenAI'
+  }
+}
@@ -0,0 +1,62 @@
+// PDF text extraction for documents served as application/pdf.
+// Uses unpdf's serverless build of pdf.js, which runs in the edge runtime without a worker.
+// Each page becomes its own section headed by a page marker, so page boundaries
+// survive chunking and the model can cite pages.
+import { extractText, getDocumentProxy, getMeta } from 'npm:unpdf@1'
+import { hasPdfSignature } from './fetcher.ts'
+
+export interface ExtractedPdf {
+  title: string
+  text: string
+  publishedDate: string | null
+  author: string | null
+  pageCount: number
+}
+
+export function isPdf(contentType: string | null, body: ArrayBuffer): boolean {
+  if (contentType?.split(';')[0].trim().toLowerCase() === 'application/pdf') return true
+  // Some servers send PDFs without a type or as application/octet-stream
+  return hasPdfSignature(body)
+}
+
+export async function extractPdfText(body: ArrayBuffer): Promise<ExtractedPdf> {
+  const pdf = await getDocumentProxy(new Uint8Array(body))
+
+  try {
+    const { totalPages, text: pages } = await extractText(pdf, { mergePages: false })
+    const { info } = await getMeta(pdf)
+
+    const text = pages
+      .map((page, index) => `[Page ${index + 1}]\n\n${normalizePageText(page)}`)
+      .join('\n\n')
+
+    return {
+      title: typeof info?.Title === 'string' ? info.Title.trim() : '',
+      text,
+      publishedDate: parsePdfDate(info?.CreationDate),
+      author: typeof info?.Author === 'string' && info.Author.trim() ? info.Author.trim() : null,
+      pageCount: totalPages,
+    }
+  } finally {
+    await pdf.cleanup()
+  }
+}
+
+// pdf.js returns a page as lines of positioned text; rejoin hyphenated words and
+// collapse runs of blank lines so paragraphs stay separated by one empty line
+function normalizePageText(page: string): string {
+  return page
+    .replace(/(\w)-\n(\w)/g, '$1$2')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// PDF dates look like D:20240131120000+01'00'
+function parsePdfDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?/)
+  if (!match) return null
+  const [, year, month = '01', day = '01'] = match
+  return `${year}-${month}-${day}`
+}
@@ -0,0 +1,214 @@
+// The summarization run behind process-url, summerize_url and summary-worker:
+// scrape the page (through the snapshot cache), keep the URL's metadata in step,
+// ask the prompt's model (map-reducing long documents), save the summary and hand the
+// page off to be embedded for the library's semantic search (library.ts).
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { indexPageInBackground } from './library.ts'
+import { type CacheStatus, scrapePage } from './scrape.ts'
+import { saveUrlMetadata, type UrlRow } from './urls.ts'
+import { summarizeDocument, type SummaryStrategy } from './summarize.ts'
+import {
+  completeChat,
+  type JsonSchema,
+  type PromptModelColumns,
+  providerLabel,
+  resolveModelSettings,
+  streamChat,
+} from './llm.ts'
+import { completeStructured } from './structured.ts'
+import { buildPromptVariables } from './template.ts'
+import { elapsedMs, UsageMeter, type UsageTotals } from './usage.ts'
+import type { DocumentType } from './ingest.ts'
+
+export interface PromptRow extends PromptModelColumns {
+  id: number
+  prompt_name: string
+  prompt: string
+  target_language: string | null
+  output_schema: JsonSchema | null
+}
+
+export interface RunSummaryOptions {
+  urlRow: UrlRow
+  prompt: PromptRow
+  forceRefresh?: boolean
+  userId?: string | null
+  // The URL row was created for this run: if the page's canonical URL shows it was
+  // saved before, delete the new row and summarize under the existing one
+  mergeDuplicate?: boolean
+  // Receives the final answer as it streams in (not used for structured output)
+  onToken?: (text: string) => void
+  onProgress?: (message: string) => void
+}
+
+// Response body of process-url, also stored as summary_jobs.result
+export interface SummaryRunResult {
+  success: true
+  url_id: number
+  url: string
+  original_caption: string | null
+  title: string | null
+  scraped_text_length: number
+  ai_response: string
+  structured_response: unknown
+  prompt_used: string
+  prompt_name: string
+  model: string
+  provider: string
+  chunk_count: number
+  summary_strategy: SummaryStrategy
+  snapshot_id: number | null
+  page_count: number | null
+  document_type: DocumentType
+  cache_status: CacheStatus
+  merged_into: number | null
+  usage: UsageTotals & { scrape_ms: number; llm_ms: number; total_ms: number }
+  summery_id: number | null
+}
+
+export async function runSummary(
+  supabase: SupabaseClient,
+  { urlRow, prompt, forceRefresh = false, userId = null, mergeDuplicate = false, onToken, onProgress }: RunSummaryOptions
+): Promise<SummaryRunResult> {
+  const runStart = performance.now()
+  let url = urlRow
+
+  console.log(`Scraping content from: ${url.url}`)
+  onProgress?.('Fetching the page...')
+
+  // Reuses the cached snapshot when the page hasn't changed. The extracted text keeps
+  // headings, lists and paragraph breaks (page markers for PDFs), and is stored in
+  // full; long documents are chunked at summarization time.
+  const scrapeStart = performance.now()
+  const { snapshot, cacheStatus } = await scrapePage(supabase, url.url, { forceRefresh })
+  const scrapeMs = elapsedMs(scrapeStart)
+  const documentType = snapshot.document_type || 'html'
+
+  console.log(`Scraped ${documentType} text length: ${snapshot.text.length} characters (cache: ${cacheStatus})`)
+
+  // Keep the URL's title, site, preview image etc. in step with the page
+  let mergedInto: number | null = null
+  const duplicate = await saveUrlMetadata(supabase, url, snapshot)
+  if (duplicate && mergeDuplicate) {
+    console.log(`URL ${url.id} duplicates ${duplicate.id}, merging`)
+    await supabase.from('summary_jobs').update({ url_id: duplicate.id }).eq('url_id', url.id)
+    await supabase.from('urls').delete().eq('id', url.id)
+    url = duplicate
+    mergedInto = duplicate.id
+  } else if (duplicate) {
+    console.log(`URL ${url.id} has the same canonical URL as ${duplicate.id}`)
+  }
+
+  const modelSettings = resolveModelSettings(prompt)
+  const outputSchema = prompt.output_schema || null
+  console.log(`Sending to ${modelSettings.provider}/${modelSettings.model} with prompt: ${prompt.prompt.substring(0, 100)}...`)
+
+  // Every call in a map-reduce run uses the same model; keep what the provider reports
+  let modelUsed = modelSettings.model
+  let structuredResponse: unknown = null
+  const usage = new UsageMeter()
+
+  const complete = async (content: string) => {
+    const completion = await completeChat(modelSettings, [{ role: 'user', content }])
+    modelUsed = completion.model
+    usage.record(content, completion)
+    return completion.content
+  }
+  // Prompts with an output schema get a validated JSON answer instead of free text
+  const completeFinal = outputSchema
+    ? async (content: string) => {
+      onProgress?.('Generating structured response...')
+      const result = await completeStructured(modelSettings, [{ role: 'user', content }], outputSchema, onProgress)
+      modelUsed = result.completion.model
+      usage.add(result.usage, content, result.text)
+      structuredResponse = result.value
+      return result.text
+    }
+    : onToken
+    ? async (content: string) => {
+      const completion = await streamChat(modelSettings, [{ role: 'user', content }], onToken)
+      modelUsed = completion.model
+      usage.record(content, completion)
+      return completion.content
+    }
+    : complete
+
+  onProgress?.(`Asking ${providerLabel(modelSettings.provider)}...`)
+  const llmStart = performance.now()
+  const { response: aiResponse, strategy, chunkCount } = await summarizeDocument({
+    prompt: prompt.prompt,
+    variables: buildPromptVariables({
+      url: url.url,
+      title: snapshot.title || '',
+      publishedDate: snapshot.published_date,
+      targetLanguage: prompt.target_language,
+    }),
+    text: snapshot.text,
+    complete,
+    completeFinal,
+    onProgress,
+  })
+  const timings = { scrape_ms: scrapeMs, llm_ms: elapsedMs(llmStart), total_ms: elapsedMs(runStart) }
+  const totals = usage.totals(modelUsed)
+
+  console.log(`${modelUsed} Response (${strategy}, ${chunkCount} chunk${chunkCount === 1 ? '' : 's'}):`)
+  console.log('================')
+  console.log(aiResponse)
+  console.log('================')
+
+  const { data: summeryData, error: summeryError } = await supabase
+    .from('url_summery')
+    .insert({
+      url_id: url.id,
+      prompt_id: prompt.id,
+      scraped_data: snapshot.text,
+      ai_response: aiResponse,
+      structured_response: structuredResponse,
+      chunk_count: chunkCount,
+      summary_strategy: strategy,
+      model: modelUsed,
+      snapshot_id: snapshot.id,
+      user_id: userId,
+      workspace_id: url.workspace_id,
+      ...totals,
+      ...timings,
+    })
+    .select()
+    .single()
+
+  if (summeryError) {
+    // The answer is still returned; it just isn't in the history
+    console.error('Failed to save to url_summery:', summeryError)
+  } else {
+    console.log('Saved to url_summery table with ID:', summeryData.id)
+  }
+
+  // Not awaited; unchanged pages aren't embedded again
+  if (url.workspace_id !== null) {
+    indexPageInBackground(supabase, { urlId: url.id, workspaceId: url.workspace_id, snapshot })
+  }
+
+  return {
+    success: true,
+    url_id: url.id,
+    url: url.url,
+    original_caption: urlRow.caption,
+    title: snapshot.title || null,
+    scraped_text_length: snapshot.text.length,
+    ai_response: aiResponse,
+    structured_response: structuredResponse,
+    prompt_used: prompt.prompt,
+    prompt_name: prompt.prompt_name,
+    model: modelUsed,
+    provider: modelSettings.provider,
+    chunk_count: chunkCount,
+    summary_strategy: strategy,
+    snapshot_id: snapshot.id,
+    page_count: snapshot.page_count,
+    document_type: documentType,
+    cache_status: cacheStatus,
+    merged_into: mergedInto,
+    usage: { ...totals, ...timings },
+    summery_id: summeryData?.id || null,
+  }
+}
@@ -0,0 +1,87 @@
+// Retries with exponential backoff and full jitter for transient failures.
+// Errors opt in by exposing `retryable` (see FetchError and LlmError); a
+// `retryAfterMs` from a Retry-After header replaces the computed delay. Each kind of
+// call has its own budget: no retry is started that would end after the budget.
+//
+// Environment:
+//   SCRAPE_RETRY_ATTEMPTS    attempts per page fetch, default 3
+//   SCRAPE_RETRY_BUDGET_MS   total time for those attempts, default 30000
+//   LLM_RETRY_ATTEMPTS       attempts per model call, default 4
+//   LLM_RETRY_BUDGET_MS      total time for those attempts, default 90000
+
+export interface RetryPolicy {
+  // Including the first attempt
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  budgetMs: number
+}
+
+interface RetrySignal {
+  retryable?: boolean
+  retryAfterMs?: number | null
+}
+
+const SCRAPE_DEFAULTS: RetryPolicy = { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 5000, budgetMs: 30000 }
+const LLM_DEFAULTS: RetryPolicy = { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 20000, budgetMs: 90000 }
+
+export function scrapeRetryPolicy(): RetryPolicy {
+  return configuredPolicy('SCRAPE', SCRAPE_DEFAULTS)
+}
+
+export function llmRetryPolicy(): RetryPolicy {
+  return configuredPolicy('LLM', LLM_DEFAULTS)
+}
+
+// Run `attempt` until it succeeds, throws an error that isn't retryable, or the
+// policy runs out. `canRetry` can veto a retry, e.g. once a stream has started.
+export async function withRetry<T>(
+  label: string,
+  policy: RetryPolicy,
+  attempt: (attemptNumber: number) => Promise<T>,
+  canRetry: (error: unknown) => boolean = () => true
+): Promise<T> {
+  const start = Date.now()
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await attempt(attemptNumber)
+    } catch (error) {
+      const { retryable, retryAfterMs } = (error ?? {}) as RetrySignal
+      if (!retryable || !canRetry(error) || attemptNumber >= policy.maxAttempts) throw error
+
+      const delay = retryAfterMs ?? backoffDelay(policy, attemptNumber)
+      if (Date.now() - start + delay > policy.budgetMs) throw error
+
+      console.log(`${label} failed (attempt ${attemptNumber}), retrying in ${delay}ms: ${(error as Error).message}`)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+    }
+  }
+}
+
+// Full jitter: a random delay up to the exponential cap
+function backoffDelay({ baseDelayMs, maxDelayMs }: RetryPolicy, attemptNumber: number): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** (attemptNumber - 1))
+  return Math.round(Math.random() * cap)
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+function configuredPolicy(prefix: string, defaults: RetryPolicy): RetryPolicy {
+  const fromEnv = (name: string, fallback: number) => {
+    const value = Number(Deno.env.get(`${prefix}_${name}`))
+    return Number.isFinite(value) && value > 0 ? value : fallback
+  }
+  return {
+    ...defaults,
+    maxAttempts: fromEnv('RETRY_ATTEMPTS', defaults.maxAttempts),
+    budgetMs: fromEnv('RETRY_BUDGET_MS', defaults.budgetMs),
+  }
+}
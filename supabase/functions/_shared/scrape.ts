@@ -0,0 +1,169 @@
+// Page scraping with a snapshot cache.
+//
+// Every distinct version of a page's extracted text is stored in page_snapshots,
+// keyed by URL and content hash, together with the ETag / Last-Modified headers
+// it was served with. A scrape:
+//   1. reuses the latest snapshot outright if it was checked within the freshness window,
+//   2. otherwise sends a conditional request and reuses the snapshot on 304 Not Modified,
+//   3. otherwise extracts the page and reuses the snapshot if the content hash is unchanged,
+//   4. and only stores a new snapshot when the content actually changed.
+//
+// Environment:
+//   SCRAPE_CACHE_MAX_AGE_SECONDS   freshness window, default 3600 (0 always revalidates)
+// Requests go through safeFetch (fetcher.ts), which has its own limits; blocked URLs and
+// failed requests are raised as FetchError. Timeouts, 429s and 5xx responses are retried
+// within the scrape retry budget (retry.ts).
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { FetchError, httpStatusError, safeFetch } from './fetcher.ts'
+import { sha256Hex } from './hash.ts'
+import { scrapeRetryPolicy, withRetry } from './retry.ts'
+import type { PageMetadata } from './extract.ts'
+import { type DocumentType, extractDocument } from './ingest.ts'
+
+export interface PageSnapshot {
+  // null when the snapshot could not be stored
+  id: number | null
+  url: string
+  content_hash: string
+  etag: string | null
+  last_modified: string | null
+  title: string | null
+  published_date: string | null
+  text: string
+  // null for snapshots stored before document types were recorded (all HTML)
+  document_type: DocumentType | null
+  // Number of pages for PDF documents, null for everything else
+  page_count: number | null
+  // null for snapshots stored before metadata was extracted
+  metadata: PageMetadata | null
+  fetched_at: string
+  checked_at: string
+}
+
+// How the snapshot was obtained: reused without a request, confirmed by a 304,
+// re-downloaded with identical content, or newly stored
+export type CacheStatus = 'fresh' | 'not_modified' | 'unchanged' | 'new'
+
+export interface ScrapeResult {
+  snapshot: PageSnapshot
+  cacheStatus: CacheStatus
+}
+
+export interface ScrapeOptions {
+  forceRefresh?: boolean
+}
+
+const DEFAULT_MAX_AGE_SECONDS = 3600
+const USER_AGENT = 'Mozilla/5.0 (compatible; UrlSummarizerBot/1.0)'
+
+export async function scrapePage(
+  supabase: SupabaseClient,
+  url: string,
+  { forceRefresh = false }: ScrapeOptions = {}
+): Promise<ScrapeResult> {
+  const { data: cached, error: cacheError } = await supabase
+    .from('page_snapshots')
+    .select('*')
+    .eq('url', url)
+    .order('checked_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (cacheError) {
+    // The cache is an optimization; scrape normally if it can't be read
+    console.error('Snapshot lookup error:', cacheError)
+  }
+
+  const latest = cached as PageSnapshot | null
+
+  if (latest && !forceRefresh && isFresh(latest)) {
+    console.log(`Using cached snapshot ${latest.id} for ${url}`)
+    return { snapshot: latest, cacheStatus: 'fresh' }
+  }
+
+  const headers: Record<string, string> = { 'User-Agent': USER_AGENT }
+  if (latest && !forceRefresh) {
+    if (latest.etag) headers['If-None-Match'] = latest.etag
+    if (latest.last_modified) headers['If-Modified-Since'] = latest.last_modified
+  }
+
+  const response = await withRetry(`Fetching ${url}`, scrapeRetryPolicy(), async () => {
+    const response = await safeFetch(url, { headers })
+    if (!response.ok && !(response.status === 304 && latest)) throw httpStatusError(response)
+    return response
+  })
+
+  if (response.status === 304 && latest) {
+    console.log(`Snapshot ${latest.id} not modified for ${url}`)
+    return { snapshot: await touchSnapshot(supabase, latest, response), cacheStatus: 'not_modified' }
+  }
+
+  const body = await response.arrayBuffer()
+  const extracted = await extractDocument(response, body)
+  if (!extracted.text.trim()) {
+    throw new FetchError('content_empty', 'No readable text was found on the page')
+  }
+  const contentHash = await sha256Hex(extracted.text)
+
+  if (latest && latest.content_hash === contentHash) {
+    console.log(`Content unchanged for ${url}, reusing snapshot ${latest.id}`)
+    return { snapshot: await touchSnapshot(supabase, latest, response), cacheStatus: 'unchanged' }
+  }
+
+  const now = new Date().toISOString()
+  const fields = {
+    url,
+    content_hash: contentHash,
+    etag: response.headers.get('ETag'),
+    last_modified: response.headers.get('Last-Modified'),
+    title: extracted.title || null,
+    published_date: extracted.publishedDate,
+    text: extracted.text,
+    document_type: extracted.documentType,
+    page_count: extracted.pageCount,
+    metadata: extracted.metadata,
+    fetched_at: now,
+    checked_at: now,
+  }
+
+  const { data: inserted, error: insertError } = await supabase
+    .from('page_snapshots')
+    .upsert(fields, { onConflict: 'url,content_hash' })
+    .select()
+    .single()
+
+  if (insertError) {
+    // Still return the scraped content; the summary just won't reference a snapshot
+    console.error('Failed to save page snapshot:', insertError)
+    return { snapshot: { id: null, ...fields }, cacheStatus: 'new' }
+  }
+
+  console.log(`Saved page snapshot ${inserted.id} for ${url}`)
+  return { snapshot: inserted as PageSnapshot, cacheStatus: 'new' }
+}
+
+function isFresh(snapshot: PageSnapshot): boolean {
+  const configured = Deno.env.get('SCRAPE_CACHE_MAX_AGE_SECONDS')
+  const maxAgeSeconds = configured && !Number.isNaN(Number(configured)) ? Number(configured) : DEFAULT_MAX_AGE_SECONDS
+  return Date.now() - new Date(snapshot.checked_at).getTime() < maxAgeSeconds * 1000
+}
+
+// Record a successful revalidation, keeping the newest validators
+async function touchSnapshot(supabase: SupabaseClient, snapshot: PageSnapshot, response: Response): Promise<PageSnapshot> {
+  const updates = {
+    checked_at: new Date().toISOString(),
+    etag: response.headers.get('ETag') || snapshot.etag,
+    last_modified: response.headers.get('Last-Modified') || snapshot.last_modified,
+  }
+
+  const { error } = await supabase
+    .from('page_snapshots')
+    .update(updates)
+    .eq('id', snapshot.id)
+
+  if (error) {
+    console.error('Failed to update page snapshot:', error)
+  }
+
+  return { ...snapshot, ...updates }
+}
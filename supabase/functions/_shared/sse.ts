@@ -0,0 +1,87 @@
+// Server-Sent Events helpers for streaming responses from the edge functions.
+//
+// Events sent by the summarization functions:
+//   job     { job_id }             the summary_jobs row tracking the run
+//   status  { message }            progress notes (scraping, map-reduce steps)
+//   token   { text }               a piece of the final model response
+//   done    { ...response body }   same payload as the non-streaming JSON response
+//   error   { error, details, code }  the run failed; the stream ends after this
+
+export interface SseWriter {
+  send: (event: string, data: unknown) => void
+}
+
+export interface SseEvent {
+  event: string
+  data: string
+}
+
+export function sseResponse(run: (writer: SseWriter) => Promise<void>): Response {
+  const encoder = new TextEncoder()
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const writer: SseWriter = {
+        send: (event, data) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        },
+      }
+
+      try {
+        await run(writer)
+      } catch (error) {
+        console.error('Streaming error:', error)
+        writer.send('error', { error: 'Streaming request failed', details: (error as Error).message })
+      } finally {
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    },
+  })
+}
+
+// Parse an SSE byte stream into events. Comment lines and `id:`/`retry:` fields are ignored.
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += value
+
+    let boundary
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+      const rawEvent = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '')
+      const parsed = parseEvent(rawEvent)
+      if (parsed) yield parsed
+    }
+  }
+
+  const parsed = parseEvent(buffer)
+  if (parsed) yield parsed
+}
+
+function parseEvent(raw: string): SseEvent | null {
+  let event = 'message'
+  const data: string[] = []
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim()
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).replace(/^ /, ''))
+    }
+  }
+
+  return data.length ? { event, data: data.join('\n') } : null
+}
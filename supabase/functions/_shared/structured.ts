@@ -0,0 +1,219 @@
+// Structured (JSON) output for prompts that declare a JSON Schema.
+// The model is asked for JSON matching the schema, the reply is parsed and validated,
+// and invalid replies are sent back to the model with the validation errors for repair.
+//
+// Validation covers the JSON Schema keywords prompts realistically use: type (including
+// type arrays for nullable fields), properties, required, additionalProperties: false,
+// items, enum, const, minItems/maxItems, minLength/maxLength and minimum/maximum.
+// Other keywords are accepted and ignored.
+import {
+  type ChatMessage,
+  completeChat,
+  type CompletionResult,
+  type CompletionUsage,
+  type JsonSchema,
+  type ModelSettings,
+} from './llm.ts'
+
+export interface StructuredResult {
+  value: unknown
+  // Pretty-printed JSON, stored in ai_response alongside the structured value
+  text: string
+  completion: CompletionResult
+  repairs: number
+  // Summed over the first attempt and any repairs; null if the provider didn't report it
+  usage: CompletionUsage | null
+}
+
+// Raised when the model's reply still doesn't match the schema after all repair attempts
+export class StructuredOutputError extends Error {
+  errors: string[]
+
+  constructor(message: string, errors: string[]) {
+    super(`${message}: ${errors.slice(0, 5).join('; ')}`)
+    this.name = 'StructuredOutputError'
+    this.errors = errors
+  }
+}
+
+const MAX_REPAIR_ATTEMPTS = 2
+
+// Append the schema to the last user message so every provider sees it, including
+// OpenAI-compatible servers that ignore response_format
+function withSchemaInstructions(messages: ChatMessage[], schema: JsonSchema): ChatMessage[] {
+  const instructions = [
+    'Respond only with a JSON value that matches this JSON Schema. Do not wrap it in Markdown or add commentary.',
+    JSON.stringify(schema, null, 2),
+  ].join('\n\n')
+
+  const lastUser = messages.map((m) => m.role).lastIndexOf('user')
+  return messages.map((message, index) =>
+    index === lastUser ? { ...message, content: `${message.content}\n\n${instructions}` } : message
+  )
+}
+
+export async function completeStructured(
+  settings: ModelSettings,
+  messages: ChatMessage[],
+  schema: JsonSchema,
+  onProgress?: (message: string) => void
+): Promise<StructuredResult> {
+  let conversation = withSchemaInstructions(messages, schema)
+  let usage: CompletionUsage | null = { promptTokens: 0, completionTokens: 0 }
+
+  for (let attempt = 0; ; attempt++) {
+    const completion = await completeChat(settings, conversation, { jsonSchema: schema })
+    usage = usage && completion.usage
+      ? {
+        promptTokens: usage.promptTokens + completion.usage.promptTokens,
+        completionTokens: usage.completionTokens + completion.usage.completionTokens,
+      }
+      : null
+    const { value, errors } = parseAndValidate(completion.content, schema)
+
+    if (errors.length === 0) {
+      return { value, text: JSON.stringify(value, null, 2), completion, repairs: attempt, usage }
+    }
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new StructuredOutputError('Model output did not match the prompt schema', errors)
+    }
+
+    console.log(`Structured output invalid (attempt ${attempt + 1}): ${errors.join('; ')}`)
+    onProgress?.('Repairing the structured response...')
+
+    conversation = [
+      ...conversation,
+      { role: 'assistant', content: completion.content },
+      {
+        role: 'user',
+        content: [
+          'That response does not match the JSON Schema:',
+          errors.map((error) => `- ${error}`).join('\n'),
+          'Reply with the corrected JSON only.',
+        ].join('\n\n'),
+      },
+    ]
+  }
+}
+
+function parseAndValidate(content: string, schema: JsonSchema): { value: unknown; errors: string[] } {
+  let value: unknown
+  try {
+    value = JSON.parse(stripCodeFence(content))
+  } catch (error) {
+    return { value: null, errors: [`response is not valid JSON (${(error as Error).message})`] }
+  }
+  return { value, errors: validateJson(value, schema) }
+}
+
+// Models sometimes wrap JSON in ```json fences or add a sentence around it
+function stripCodeFence(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (fenced) return fenced[1].trim()
+  const start = content.search(/[[{]/)
+  const end = Math.max(content.lastIndexOf('}'), content.lastIndexOf(']'))
+  return start !== -1 && end > start ? content.slice(start, end + 1) : content.trim()
+}
+
+// Returns a list of errors, empty when `value` matches `schema`
+function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = []
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type]
+  if (types.length > 0 && !types.some((type) => matchesType(value, type as string))) {
+    return [`${path} should be ${types.join(' or ')}, got ${describeType(value)}`]
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    errors.push(`${path} should be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`)
+  }
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path} should be ${JSON.stringify(schema.const)}`)
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path} should have at least ${schema.minLength} characters`)
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path} should have at most ${schema.maxLength} characters`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path} should be at least ${schema.minimum}`)
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path} should be at most ${schema.maximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`)
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path} should have at most ${schema.maxItems} items`)
+    }
+    if (isSchema(schema.items)) {
+      value.forEach((item, index) => errors.push(...validateJson(item, schema.items as JsonSchema, `${path}[${index}]`)))
+    }
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>
+    const properties = isSchema(schema.properties) ? (schema.properties as Record<string, JsonSchema>) : {}
+
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in record)) errors.push(`${path}.${key} is required`)
+    }
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (key in record && isSchema(propertySchema)) {
+        errors.push(...validateJson(record[key], propertySchema, `${path}.${key}`))
+      }
+    }
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(record)) {
+        if (!(key in properties)) errors.push(`${path}.${key} is not allowed`)
+      }
+    }
+  }
+
+  return errors
+}
+
+function isSchema(value: unknown): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'null':
+      return value === null
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'string':
+    case 'boolean':
+      return typeof value === type
+    default:
+      return true
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
@@ -0,0 +1,112 @@
+// Summarization pipeline: pages that fit in one model call are sent as-is,
+// longer pages are map-reduced (summarize each chunk, then combine the partial
+// summaries with the selected prompt) so the model sees the whole document.
+import { chunkText, estimateTokens } from './chunking.ts'
+import { describePromptTask, type PromptVariables, renderPrompt } from './template.ts'
+
+export type SummaryStrategy = 'single' | 'map_reduce'
+
+// Sends one user message to the model and resolves with its reply
+export type CompleteFn = (content: string) => Promise<string>
+
+export interface SummarizeOptions {
+  // Prompt template; see template.ts for the supported {{variables}}
+  prompt: string
+  variables: Omit<PromptVariables, 'content'>
+  text: string
+  complete: CompleteFn
+  // Used for the call that produces the final answer, e.g. to stream it;
+  // defaults to `complete`
+  completeFinal?: CompleteFn
+  onProgress?: (message: string) => void
+}
+
+export interface SummarizeResult {
+  response: string
+  strategy: SummaryStrategy
+  chunkCount: number
+}
+
+// Content budget for a single call, leaving room for the prompt and the reply
+const SINGLE_PASS_TOKENS = 3000
+const CHUNK_TOKENS = 2500
+const CHUNK_OVERLAP_TOKENS = 150
+const MAP_CONCURRENCY = 3
+// Guard against runaway collapse rounds on pathological inputs
+const MAX_COLLAPSE_ROUNDS = 3
+
+export async function summarizeDocument({
+  prompt,
+  variables,
+  text,
+  complete,
+  completeFinal = complete,
+  onProgress = () => {},
+}: SummarizeOptions): Promise<SummarizeResult> {
+  const url = variables.url
+
+  if (estimateTokens(text) <= SINGLE_PASS_TOKENS) {
+    const response = await completeFinal(renderPrompt(prompt, { ...variables, content: text }))
+    return { response, strategy: 'single', chunkCount: 1 }
+  }
+
+  const chunks = chunkText(text, { maxTokens: CHUNK_TOKENS, overlapTokens: CHUNK_OVERLAP_TOKENS })
+  console.log(`Content too long for one pass, map-reducing over ${chunks.length} chunks`)
+  onProgress(`Long page: reading ${chunks.length} sections...`)
+
+  let mapped = 0
+
+  // Map: summarize each chunk independently
+  const task = describePromptTask(prompt, variables)
+  let partials = await mapWithConcurrency(chunks, MAP_CONCURRENCY, async (chunk, index) => {
+    const partial = await complete(
+      `You are reading part ${index + 1} of ${chunks.length} of the web page at ${url}.\n` +
+      `The combined notes will later be used for this task: "${task}"\n\n` +
+      `Summarize this part in detail. Keep key facts, figures, names, arguments and conclusions. ` +
+      `Do not add information that is not in the text.\n\nContent: ${chunk}`
+    )
+    onProgress(`Read section ${++mapped} of ${chunks.length}`)
+    return partial
+  })
+
+  // Collapse: if the partial summaries are still too long, summarize them in groups
+  for (let round = 0; round < MAX_COLLAPSE_ROUNDS && estimateTokens(partials.join('\n\n')) > SINGLE_PASS_TOKENS; round++) {
+    const groups = chunkText(partials.join('\n\n'), { maxTokens: CHUNK_TOKENS })
+    onProgress(`Condensing notes (${groups.length} groups)...`)
+    partials = await mapWithConcurrency(groups, MAP_CONCURRENCY, (group) =>
+      complete(
+        `Condense these consecutive section notes from the web page at ${url} into shorter notes. ` +
+        `Keep key facts, figures and conclusions.\n\nNotes: ${group}`
+      )
+    )
+  }
+
+  // Reduce: answer the selected prompt from the partial summaries
+  const sections = partials.map((partial, index) => `Section ${index + 1}:\n${partial}`).join('\n\n')
+  onProgress('Writing the final answer...')
+  const response = await completeFinal(renderPrompt(prompt, {
+    ...variables,
+    content: `(The page was too long to read in one pass. These are notes on its consecutive sections, in order.)\n\n${sections}`,
+  }))
+
+  return { response, strategy: 'map_reduce', chunkCount: chunks.length }
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+  return results
+}
@@ -0,0 +1,77 @@
+// Prompt template rendering. Prompts may reference page variables as {{name}};
+// prompts without a {{content}} placeholder get the page appended at the end,
+// which is how prompts behaved before templates existed.
+
+export const TEMPLATE_VARIABLES = [
+  'url',
+  'title',
+  'content',
+  'domain',
+  'published_date',
+  'target_language',
+] as const
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number]
+
+export type PromptVariables = Record<TemplateVariable, string>
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g
+
+const DEFAULT_TARGET_LANGUAGE = 'English'
+
+export function findPlaceholders(template: string): string[] {
+  return Array.from(template.matchAll(PLACEHOLDER), (match) => match[1])
+}
+
+export function hasContentPlaceholder(template: string): boolean {
+  return findPlaceholders(template).includes('content')
+}
+
+// Unknown placeholders are left untouched so typos stay visible in the output
+export function renderPrompt(template: string, variables: PromptVariables): string {
+  const rendered = template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    (TEMPLATE_VARIABLES as readonly string[]).includes(name)
+      ? variables[name as TemplateVariable]
+      : placeholder
+  )
+
+  if (hasContentPlaceholder(template)) {
+    return rendered
+  }
+
+  return `${rendered}\n\nWebsite URL: ${variables.url}\nContent: ${variables.content}`
+}
+
+// Render the prompt as a task description, without the page content
+export function describePromptTask(template: string, variables: Omit<PromptVariables, 'content'>): string {
+  return template
+    .replace(PLACEHOLDER, (placeholder, name: string) => {
+      if (name === 'content') return '[page content]'
+      return (TEMPLATE_VARIABLES as readonly string[]).includes(name)
+        ? variables[name as Exclude<TemplateVariable, 'content'>]
+        : placeholder
+    })
+    .trim()
+}
+
+export function buildPromptVariables(page: {
+  url: string
+  title?: string | null
+  publishedDate?: string | null
+  targetLanguage?: string | null
+}): Omit<PromptVariables, 'content'> {
+  let domain = ''
+  try {
+    domain = new URL(page.url).hostname.replace(/^www\./, '')
+  } catch {
+    // Leave the domain empty for unparsable URLs
+  }
+
+  return {
+    url: page.url,
+    title: page.title || '',
+    domain,
+    published_date: page.publishedDate || 'unknown',
+    target_language: page.targetLanguage?.trim() || DEFAULT_TARGET_LANGUAGE,
+  }
+}
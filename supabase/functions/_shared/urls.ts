@@ -0,0 +1,221 @@
+// URL canonicalization and the urls-row helpers built on it.
+//
+// The canonical form identifies a page: the host is lowercased, fragments and
+// tracking parameters are dropped, the remaining query parameters are sorted and
+// trailing slashes are removed (except for the root path). urls.canonical_url is
+// unique per workspace, so the same article saved twice, or with different utm_*
+// parameters, maps to one row. Once a page is scraped, its <link rel=canonical>
+// takes over. Lookups only ever see the given workspace's rows.
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import type { PageSnapshot } from './scrape.ts'
+
+export interface UrlRow {
+  id: number
+  user_id: string | null
+  workspace_id: number | null
+  url: string
+  caption: string | null
+  canonical_url: string | null
+  created_at: string
+}
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'li_fat_id',
+  'igshid', 'mc_cid', 'mc_eid', 'mkt_tok', '_ga', '_gl', '_hsenc', '_hsmi', 'hsctatracking',
+  'ref_src', 'ref_url', 'spm', 'vero_conv', 'vero_id', 'wickedid', 'oly_anon_id', 'oly_enc_id', 's_cid',
+])
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_']
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+const LOOKUP_CHUNK_SIZE = 50
+
+// Returns the input unchanged when it can't be parsed as an http(s) URL
+export function canonicalizeUrl(value: string): string {
+  let url: URL
+  try {
+    url = new URL(value.trim())
+  } catch {
+    return value.trim()
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return value.trim()
+
+  // URL already lowercases the scheme and host and drops default ports
+  url.hash = ''
+  url.hostname = url.hostname.replace(/\.$/, '')
+
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  url.search = new URLSearchParams(params).toString()
+
+  if (url.pathname !== '/') {
+    url.pathname = url.pathname.replace(/\/+$/, '') || '/'
+  }
+
+  return url.toString()
+}
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase()
+  return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some((prefix) => lower.startsWith(prefix))
+}
+
+// Find the workspace's row for `url` by its canonical form, or insert one for
+// `userId`. `created` is false when the URL had already been saved.
+export async function findOrCreateUrl(
+  supabase: SupabaseClient,
+  url: string,
+  workspaceId: number,
+  userId: string
+): Promise<{ row: UrlRow; created: boolean }> {
+  const canonicalUrl = canonicalizeUrl(url)
+
+  const existing = await findUrl(supabase, url, canonicalUrl, workspaceId)
+  if (existing) {
+    return { row: existing, created: false }
+  }
+
+  const { data, error } = await supabase
+    .from('urls')
+    .insert({ url, canonical_url: canonicalUrl, user_id: userId, workspace_id: workspaceId })
+    .select()
+    .single()
+
+  if (error) {
+    // Saved by a concurrent request between the lookup and the insert
+    if (error.code === UNIQUE_VIOLATION) {
+      const raced = await findUrl(supabase, url, canonicalUrl, workspaceId)
+      if (raced) return { row: raced, created: false }
+    }
+    throw error
+  }
+
+  return { row: data as UrlRow, created: true }
+}
+
+// Existing rows for many URLs at once, keyed by the canonical form of each input URL
+export async function findExistingUrls(
+  supabase: SupabaseClient,
+  urls: string[],
+  workspaceId: number
+): Promise<Map<string, UrlRow>> {
+  const found = new Map<string, UrlRow>()
+  const canonicalUrls = [...new Set(urls.map(canonicalizeUrl))]
+
+  // Small chunks: the lists end up in the request's query string
+  for (let i = 0; i < canonicalUrls.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = canonicalUrls.slice(i, i + LOOKUP_CHUNK_SIZE)
+    const { data, error } = await supabase.from('urls').select('*').eq('workspace_id', workspaceId).in('canonical_url', chunk)
+    if (error) throw error
+    for (const row of (data || []) as UrlRow[]) found.set(row.canonical_url!, row)
+  }
+
+  // Rows saved before canonicalization are matched exactly, as in findUrl
+  const remaining = [...new Set(urls)].filter((url) => !found.has(canonicalizeUrl(url)))
+  for (let i = 0; i < remaining.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = remaining.slice(i, i + LOOKUP_CHUNK_SIZE)
+    const { data, error } = await supabase
+      .from('urls')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .is('canonical_url', null)
+      .in('url', chunk)
+    if (error) throw error
+    for (const row of (data || []) as UrlRow[]) {
+      const key = canonicalizeUrl(row.url)
+      if (!found.has(key)) found.set(key, row)
+    }
+  }
+
+  return found
+}
+
+async function findUrl(
+  supabase: SupabaseClient,
+  url: string,
+  canonicalUrl: string,
+  workspaceId: number
+): Promise<UrlRow | null> {
+  const { data, error } = await supabase
+    .from('urls')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .eq('canonical_url', canonicalUrl)
+    .maybeSingle()
+
+  if (error) throw error
+  if (data) return data as UrlRow
+
+  // Rows saved before canonicalization have no canonical_url; match them exactly
+  const { data: legacy, error: legacyError } = await supabase
+    .from('urls')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .is('canonical_url', null)
+    .eq('url', url)
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (legacyError) throw legacyError
+  return legacy as UrlRow | null
+}
+
+// Copy what a scrape learned about the page onto its urls row. The caption is only
+// replaced while it is empty or still the "URL added at ..." placeholder older
+// versions of summerize_url stored, so captions edited by hand are kept.
+//
+// The page's <link rel=canonical> becomes the row's canonical URL. If another row of
+// the same workspace already has that canonical URL, the row is left as it is and the
+// other row is returned so the caller can decide whether to merge into it.
+export async function saveUrlMetadata(
+  supabase: SupabaseClient,
+  urlRow: Pick<UrlRow, 'id' | 'workspace_id' | 'caption' | 'canonical_url'>,
+  snapshot: PageSnapshot
+): Promise<UrlRow | null> {
+  const { canonical_url: declaredCanonical, ...metadata } = snapshot.metadata || {}
+
+  const updates: Record<string, unknown> = {
+    document_type: snapshot.document_type || 'html',
+    title: snapshot.title,
+    published_date: snapshot.published_date,
+    ...metadata,
+  }
+
+  if (snapshot.title && (!urlRow.caption?.trim() || /^URL added at /.test(urlRow.caption))) {
+    updates.caption = snapshot.title
+  }
+
+  let duplicate: UrlRow | null = null
+  const pageCanonical = declaredCanonical ? canonicalizeUrl(declaredCanonical) : null
+
+  if (pageCanonical && pageCanonical !== urlRow.canonical_url) {
+    const { data: other } = await supabase
+      .from('urls')
+      .select('*')
+      .eq('canonical_url', pageCanonical)
+      .filter('workspace_id', urlRow.workspace_id ? 'eq' : 'is', urlRow.workspace_id)
+      .neq('id', urlRow.id)
+      .maybeSingle()
+
+    if (other) {
+      duplicate = other as UrlRow
+    } else {
+      updates.canonical_url = pageCanonical
+    }
+  }
+
+  const { error } = await supabase
+    .from('urls')
+    .update(updates)
+    .eq('id', urlRow.id)
+
+  if (error) {
+    console.error('Failed to save page metadata:', error)
+  }
+
+  return duplicate
+}
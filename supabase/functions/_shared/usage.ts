@@ -0,0 +1,114 @@
+// Token, latency and cost accounting for a summary.
+// Every model call made for one summary (map, collapse, reduce, structured repairs)
+// is recorded on a UsageMeter; the totals and an estimated cost are stored on the
+// url_summery row and aggregated by the summary_usage view.
+//
+// Prices are USD per million tokens, matched on the longest model-name prefix so
+// dated snapshots ("gpt-4o-mini-2024-07-18") use their family's price. Models with
+// no price (e.g. local OpenAI-compatible servers) get a null cost.
+//
+// Environment:
+//   LLM_PRICES   JSON object merged over the defaults, e.g.
+//                {"gpt-4o-mini": {"input": 0.15, "output": 0.6}, "llama3.1": {"input": 0, "output": 0}}
+import { estimateTokens } from './chunking.ts'
+import type { CompletionResult, CompletionUsage } from './llm.ts'
+
+export interface ModelPrice {
+  // USD per million prompt tokens
+  input: number
+  // USD per million completion tokens
+  output: number
+}
+
+export interface UsageTotals {
+  prompt_tokens: number
+  completion_tokens: number
+  // True when a provider didn't report usage and the count was estimated from the text
+  tokens_estimated: boolean
+  cost_usd: number | null
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+}
+
+// Collects usage across the model calls of one summary
+export class UsageMeter {
+  private promptTokens = 0
+  private completionTokens = 0
+  private estimated = false
+
+  // `prompt` is what was sent, used only when the provider reports no usage
+  record(prompt: string, completion: Pick<CompletionResult, 'content' | 'usage'>) {
+    this.add(completion.usage, prompt, completion.content)
+  }
+
+  add(usage: CompletionUsage | null, prompt: string, response: string) {
+    if (usage) {
+      this.promptTokens += usage.promptTokens
+      this.completionTokens += usage.completionTokens
+    } else {
+      this.promptTokens += estimateTokens(prompt)
+      this.completionTokens += estimateTokens(response)
+      this.estimated = true
+    }
+  }
+
+  totals(model: string): UsageTotals {
+    return {
+      prompt_tokens: this.promptTokens,
+      completion_tokens: this.completionTokens,
+      tokens_estimated: this.estimated,
+      cost_usd: estimateCost(model, this.promptTokens, this.completionTokens),
+    }
+  }
+}
+
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const price = priceFor(model)
+  if (!price) return null
+  const cost = (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+  // url_summery.cost_usd is NUMERIC(12, 6)
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+function priceFor(model: string): ModelPrice | null {
+  const prices = { ...DEFAULT_PRICES, ...configuredPrices() }
+  const name = model.toLowerCase()
+  const match = Object.keys(prices)
+    .filter((prefix) => name.startsWith(prefix.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0]
+  return match ? prices[match] : null
+}
+
+function configuredPrices(): Record<string, ModelPrice> {
+  const configured = Deno.env.get('LLM_PRICES')
+  if (!configured) return {}
+  try {
+    const parsed = JSON.parse(configured)
+    return Object.fromEntries(
+      Object.entries(parsed as Record<string, Partial<ModelPrice>>).filter(([, price]) =>
+        typeof price?.input === 'number' && typeof price?.output === 'number'
+      )
+    ) as Record<string, ModelPrice>
+  } catch {
+    console.error('LLM_PRICES is not valid JSON; using the default prices')
+    return {}
+  }
+}
+
+// Milliseconds since `start` (a performance.now() reading), rounded for storage
+export function elapsedMs(start: number): number {
+  return Math.round(performance.now() - start)
+}
@@ -0,0 +1,181 @@
+// Watched URLs (url_watches). The watch-urls function claims the watches that are due
+// and checks each one:
+//   1. re-scrape the page, bypassing the snapshot cache's freshness window,
+//   2. diff its text against the watch's last snapshot (diff.ts),
+//   3. if enough of the text changed (min_change_ratio), record a url_changes row and
+//      queue the watch's prompt, raise url.changed for the workspace's webhooks, and
+//      make the new snapshot the one to compare against.
+// Smaller changes leave the comparison snapshot alone, so they add up until they count.
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { diffText } from './diff.ts'
+import { classifyError } from './errors.ts'
+import { enqueueSummaryJob } from './jobs.ts'
+import { type PageSnapshot, scrapePage } from './scrape.ts'
+import type { UrlRow } from './urls.ts'
+import { emitWebhookEvent } from './webhooks.ts'
+
+export interface UrlWatch {
+  id: number
+  url_id: number
+  prompt_id: number | null
+  user_id: string | null
+  enabled: boolean
+  interval_minutes: number
+  min_change_ratio: number | string
+  next_check_at: string
+  last_checked_at: string | null
+  last_snapshot_id: number | null
+  last_change_at: string | null
+  last_error: string | null
+}
+
+export type WatchOutcome = 'baseline' | 'unchanged' | 'minor_change' | 'changed' | 'failed'
+
+export interface WatchCheck {
+  watch_id: number
+  url_id: number
+  outcome: WatchOutcome
+  change_ratio: number | null
+  change_id: number | null
+  job_id: number | null
+  error: string | null
+}
+
+const LOCK_SECONDS = 300
+
+export async function claimDueWatches(supabase: SupabaseClient, batchSize = 10): Promise<UrlWatch[]> {
+  const { data, error } = await supabase.rpc('claim_due_watches', {
+    batch_size: batchSize,
+    lock_seconds: LOCK_SECONDS,
+  })
+  if (error) throw error
+  return (data || []) as UrlWatch[]
+}
+
+// Check one claimed watch and schedule its next check. Failures are recorded on the
+// watch rather than thrown.
+export async function checkWatch(supabase: SupabaseClient, watch: UrlWatch): Promise<WatchCheck> {
+  const check: WatchCheck = {
+    watch_id: watch.id,
+    url_id: watch.url_id,
+    outcome: 'unchanged',
+    change_ratio: null,
+    change_id: null,
+    job_id: null,
+    error: null,
+  }
+  const updates: Partial<UrlWatch> = {}
+
+  try {
+    const urlRow = await fetchRow<UrlRow>(supabase, 'urls', watch.url_id)
+    const { snapshot } = await scrapePage(supabase, urlRow.url, { forceRefresh: true })
+    if (snapshot.id === null) throw new Error('The page snapshot could not be saved')
+
+    const previous = watch.last_snapshot_id
+      ? await fetchRow<PageSnapshot>(supabase, 'page_snapshots', watch.last_snapshot_id).catch(() => null)
+      : null
+
+    if (!previous) {
+      // First check (or the old snapshot is gone): this version is the one to compare against
+      check.outcome = 'baseline'
+      updates.last_snapshot_id = snapshot.id
+    } else if (previous.id !== snapshot.id && previous.content_hash !== snapshot.content_hash) {
+      const diff = diffText(previous.text, snapshot.text)
+      check.change_ratio = diff.change_ratio
+
+      if (diff.change_ratio >= Number(watch.min_change_ratio)) {
+        check.outcome = 'changed'
+        const { changeId, jobId } = await recordChange(supabase, watch, previous, snapshot, diff)
+        check.change_id = changeId
+        check.job_id = jobId
+        updates.last_snapshot_id = snapshot.id
+        updates.last_change_at = new Date().toISOString()
+
+        if (urlRow.workspace_id) {
+          await emitWebhookEvent(supabase, urlRow.workspace_id, 'url.changed', {
+            change_id: changeId,
+            url_id: urlRow.id,
+            url: urlRow.url,
+            watch_id: watch.id,
+            change_ratio: check.change_ratio,
+            added_lines: diff.added_lines,
+            removed_lines: diff.removed_lines,
+            job_id: jobId,
+          })
+        }
+      } else {
+        check.outcome = 'minor_change'
+      }
+    }
+    updates.last_error = null
+  } catch (error) {
+    const { code, message } = classifyError(error)
+    console.error(`Watch ${watch.id} check failed (${code}):`, error)
+    check.outcome = 'failed'
+    check.error = message
+    updates.last_error = message
+  }
+
+  const now = Date.now()
+  const { error } = await supabase
+    .from('url_watches')
+    .update({
+      ...updates,
+      last_checked_at: new Date(now).toISOString(),
+      next_check_at: new Date(now + watch.interval_minutes * 60 * 1000).toISOString(),
+      locked_until: null,
+    })
+    .eq('id', watch.id)
+
+  if (error) console.error(`Failed to schedule watch ${watch.id}:`, error)
+  console.log(`Watch ${watch.id} (URL ${watch.url_id}): ${check.outcome}`)
+  return check
+}
+
+async function recordChange(
+  supabase: SupabaseClient,
+  watch: UrlWatch,
+  previous: PageSnapshot,
+  snapshot: PageSnapshot,
+  diff: ReturnType<typeof diffText>
+): Promise<{ changeId: number; jobId: number | null }> {
+  // The summary the re-run will be compared with
+  let summaryQuery = supabase
+    .from('url_summery')
+    .select('id')
+    .eq('url_id', watch.url_id)
+    .order('created_at', { ascending: false })
+    .limit(1)
+  if (watch.prompt_id) summaryQuery = summaryQuery.eq('prompt_id', watch.prompt_id)
+  const { data: previousSummary } = await summaryQuery.maybeSingle()
+
+  const job = watch.prompt_id
+    ? await enqueueSummaryJob(supabase, { url_id: watch.url_id, prompt_id: watch.prompt_id, user_id: watch.user_id })
+    : null
+
+  const { data, error } = await supabase
+    .from('url_changes')
+    .insert({
+      url_id: watch.url_id,
+      watch_id: watch.id,
+      previous_snapshot_id: previous.id,
+      snapshot_id: snapshot.id,
+      change_ratio: Number(diff.change_ratio.toFixed(4)),
+      added_lines: diff.added_lines,
+      removed_lines: diff.removed_lines,
+      diff: { hunks: diff.hunks, truncated: diff.truncated },
+      previous_summary_id: previousSummary?.id ?? null,
+      job_id: job?.id ?? null,
+    })
+    .select('id')
+    .single()
+
+  if (error) throw error
+  return { changeId: data.id, jobId: job?.id ?? null }
+}
+
+async function fetchRow<T>(supabase: SupabaseClient, table: string, id: number): Promise<T> {
+  const { data, error } = await supabase.from(table).select('*').eq('id', id).single()
+  if (error) throw new Error(`Failed to fetch ${table} row ${id}: ${error.message}`)
+  return data as T
+}
@@ -0,0 +1,274 @@
+// Outgoing webhooks (webhooks, webhook_deliveries).
+//
+// emitWebhookEvent queues one delivery per enabled endpoint of the workspace that
+// subscribed to the event and starts deliver-webhooks, which claims deliveries with
+// claim_webhook_deliveries and sends them:
+//
+//   pending ──▶ succeeded   (2xx response)
+//     ▲  │ └──▶ failed      (out of attempts, or an address that may not be called)
+//     └──┘ retry backoff
+//
+// Each request is a POST of { "id", "event", "created_at", "workspace_id", "data" },
+// where `id` is the delivery's (a replay gets a new one), with these headers:
+//   X-Webhook-Id          the delivery id
+//   X-Webhook-Event       the event name
+//   X-Webhook-Timestamp   Unix seconds when the request was sent
+//   X-Webhook-Signature   sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the endpoint's secret>
+// Endpoints on private or local addresses are refused, as for the scraper.
+//
+// Environment:
+//   WEBHOOK_TIMEOUT_MS       per request, default 10000
+//   WEBHOOK_RETRY_DELAY_MS   delay before the first retry, doubled after each, default 60000
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { assertPublicUrl, FetchError } from './fetcher.ts'
+
+export type WebhookEvent = 'summary.created' | 'summary.failed' | 'url.changed'
+
+// `ping` is only sent by the test button, whatever the endpoint subscribed to
+export type DeliveryEvent = WebhookEvent | 'ping'
+
+export type DeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface Webhook {
+  id: number
+  workspace_id: number
+  url: string
+  events: WebhookEvent[]
+  secret: string
+  enabled: boolean
+}
+
+// Request body without the delivery id
+export interface WebhookPayload {
+  event: DeliveryEvent
+  created_at: string
+  workspace_id: number
+  data: Record<string, unknown>
+}
+
+export interface WebhookDelivery {
+  id: number
+  created_at: string
+  webhook_id: number
+  event: DeliveryEvent
+  payload: WebhookPayload
+  status: DeliveryStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  locked_until: string | null
+  last_attempt_at: string | null
+  response_status: number | null
+  response_body: string | null
+  error: string | null
+  duration_ms: number | null
+  replay_of: number | null
+}
+
+const LOCK_SECONDS = 60
+const DEFAULT_TIMEOUT_MS = 10000
+const DEFAULT_RETRY_DELAY_MS = 60000
+const MAX_RESPONSE_BODY_CHARS = 2000
+
+// Queue the event for every matching endpoint. Never throws: a webhook problem must
+// not fail the summary or watch check that raised the event.
+export async function emitWebhookEvent(
+  supabase: SupabaseClient,
+  workspaceId: number,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const { data: webhooks, error } = await supabase
+      .from('webhooks')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .eq('enabled', true)
+      .contains('events', [event])
+
+    if (error) throw error
+    if (!webhooks?.length) return
+
+    const payload = webhookPayload(event, workspaceId, data)
+    const { error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(webhooks.map((webhook) => ({ webhook_id: webhook.id, event, payload })))
+
+    if (insertError) throw insertError
+    kickWebhookDeliverer()
+    console.log(`Queued ${event} for ${webhooks.length} webhook(s) of workspace ${workspaceId}`)
+  } catch (error) {
+    console.error(`Failed to queue ${event} webhooks:`, error)
+  }
+}
+
+export function webhookPayload(
+  event: DeliveryEvent,
+  workspaceId: number,
+  data: Record<string, unknown>
+): WebhookPayload {
+  return { event, created_at: new Date().toISOString(), workspace_id: workspaceId, data }
+}
+
+// A delivery that starts out claimed by this request, for replays and test events
+// sent while the user waits
+export async function createClaimedDelivery(
+  supabase: SupabaseClient,
+  webhookId: number,
+  payload: WebhookPayload,
+  { replayOf = null, maxAttempts }: { replayOf?: number | null; maxAttempts?: number } = {}
+): Promise<WebhookDelivery> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      webhook_id: webhookId,
+      event: payload.event,
+      payload,
+      replay_of: replayOf,
+      attempts: 1,
+      locked_until: lockExpiry(),
+      ...(maxAttempts ? { max_attempts: maxAttempts } : {}),
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as WebhookDelivery
+}
+
+export async function claimWebhookDeliveries(supabase: SupabaseClient, batchSize = 1): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase.rpc('claim_webhook_deliveries', {
+    batch_size: batchSize,
+    lock_seconds: LOCK_SECONDS,
+  })
+  if (error) throw error
+  return (data || []) as WebhookDelivery[]
+}
+
+// Send a claimed delivery and record the attempt on its row. Resolves with the
+// updated row; failures are recorded rather than thrown.
+export async function deliverWebhook(supabase: SupabaseClient, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const start = Date.now()
+  let updates: Partial<WebhookDelivery>
+
+  try {
+    const { data: webhook, error } = await supabase
+      .from('webhooks')
+      .select('*')
+      .eq('id', delivery.webhook_id)
+      .single()
+
+    if (error) throw error
+    updates = (webhook as Webhook).enabled
+      ? await send(webhook as Webhook, delivery)
+      : { status: 'failed', error: 'The webhook is disabled' }
+  } catch (error) {
+    // Endpoints that may never be called aren't retried
+    const permanent = error instanceof FetchError && ['invalid_url', 'unsupported_scheme', 'blocked_address'].includes(error.code)
+    updates = failedAttempt(delivery, (error as Error).message, permanent)
+  }
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      ...updates,
+      last_attempt_at: new Date().toISOString(),
+      duration_ms: Date.now() - start,
+      locked_until: null,
+    })
+    .eq('id', delivery.id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error(`Failed to record webhook delivery ${delivery.id}:`, error)
+    return { ...delivery, ...updates }
+  }
+
+  console.log(`Webhook delivery ${delivery.id} (${delivery.event}, attempt ${delivery.attempts}): ${data.status}`)
+  return data as WebhookDelivery
+}
+
+async function send(webhook: Webhook, delivery: WebhookDelivery): Promise<Partial<WebhookDelivery>> {
+  const url = await assertPublicUrl(webhook.url)
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload })
+  const timestamp = Math.floor(Date.now() / 1000).toString()
+  const timeoutMs = Number(Deno.env.get('WEBHOOK_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'URL-Summarizer-Webhooks/1.0',
+        'X-Webhook-Id': String(delivery.id),
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${await hmacSha256(webhook.secret, `${timestamp}.${body}`)}`,
+      },
+      body,
+      // A redirect could point anywhere, including private addresses
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+  } catch (error) {
+    const message = (error as Error).name === 'TimeoutError'
+      ? `No response after ${timeoutMs / 1000}s`
+      : (error as Error).message
+    return failedAttempt(delivery, message)
+  }
+
+  const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_CHARS)
+  if (response.ok) {
+    return { status: 'succeeded', response_status: response.status, response_body: responseBody, error: null }
+  }
+  return {
+    ...failedAttempt(delivery, `The endpoint responded with HTTP ${response.status}`),
+    response_status: response.status,
+    response_body: responseBody,
+  }
+}
+
+function failedAttempt(delivery: WebhookDelivery, message: string, permanent = false): Partial<WebhookDelivery> {
+  if (permanent || delivery.attempts >= delivery.max_attempts) {
+    return { status: 'failed', error: message }
+  }
+
+  const retryDelayMs = Number(Deno.env.get('WEBHOOK_RETRY_DELAY_MS')) || DEFAULT_RETRY_DELAY_MS
+  const delay = retryDelayMs * 2 ** (delivery.attempts - 1)
+  return {
+    status: 'pending',
+    error: message,
+    next_attempt_at: new Date(Date.now() + delay).toISOString(),
+  }
+}
+
+async function hmacSha256(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+function lockExpiry(): string {
+  return new Date(Date.now() + LOCK_SECONDS * 1000).toISOString()
+}
+
+// Start deliver-webhooks without waiting for it, so new deliveries go out right away
+// rather than on the next scheduled run
+export function kickWebhookDeliverer() {
+  EdgeRuntime.waitUntil(
+    fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/deliver-webhooks`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`,
+        'Content-Type': 'application/json',
+      },
+      body: '{}',
+    })
+      .then((response) => response.body?.cancel())
+      .catch((error) => console.error('Failed to start deliver-webhooks:', error))
+  )
+}
@@ -0,0 +1,840 @@
+// Edge Function serving the public REST API, version 1: URLs, prompts, summaries and
+// summary jobs of the caller's workspaces. Scripts authenticate with a personal API
+// key created on the app's API page (`Authorization: Bearer usk_...`); a Supabase
+// access token works too. A key acts as its user, with their role in each workspace.
+// GET /v1/openapi.json describes every endpoint and needs no key.
+//
+// Deployed with verify_jwt off, since API keys aren't JWTs; every route except the
+// OpenAPI document checks the key itself.
+//
+// Environment:
+//   API_BASE_URL   public URL of this function for the OpenAPI document,
+//                  default $SUPABASE_URL/functions/v1/api
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import {
+  ApiError,
+  type ApiRequest,
+  type ApiRoute,
+  corsHeaders,
+  dataResult,
+  dataSchema,
+  errorResponse,
+  idValue,
+  integerParam,
+  invalidRequest,
+  jsonResponse,
+  listResult,
+  listSchema,
+  matchRoute,
+  notFound,
+  openApiDocument,
+  PAGINATION_PARAMETERS,
+  paginationFromQuery,
+} from '../_shared/api.ts'
+import {
+  apiKeyUserId,
+  canEditWorkspace,
+  promptAccessFilter,
+  requestUserId,
+  type WorkspaceRole,
+  workspaceRole,
+} from '../_shared/auth.ts'
+import { enqueueSummaryJob, type JobStatus, kickSummaryWorker, type SummaryJob } from '../_shared/jobs.ts'
+import { assertProviderConfigured, isLlmProvider, LLM_PROVIDERS, resolveModelSettings } from '../_shared/llm.ts'
+import type { PromptRow } from '../_shared/pipeline.ts'
+import { findOrCreateUrl, type UrlRow } from '../_shared/urls.ts'
+
+console.log("API Function loaded!")
+
+const API_VERSION = '1.0.0'
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled']
+
+// url_summery without scraped_data, which can be large
+const SUMMARY_COLUMNS = 'id, created_at, url_id, prompt_id, workspace_id, user_id, ai_response, structured_response, model, chunk_count, summary_strategy, prompt_tokens, completion_tokens, cost_usd, total_ms'
+
+// Jobs have no workspace of their own; it comes from their URL
+const JOB_COLUMNS = '*, urls!inner(workspace_id)'
+
+type JobRow = SummaryJob & { urls: { workspace_id: number } }
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders })
+  }
+
+  try {
+    const requestUrl = new URL(req.url)
+    // The function is reached at /functions/v1/api, which the runtime passes on as /api
+    const path = requestUrl.pathname.replace(/^(\/functions\/v1)?\/api(?=\/|$)/, '') || '/'
+    const { route, params } = matchRoute(ROUTES, req.method, path)
+
+    // Create Supabase client with service role key; access is checked per route
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    let userId: string | null = null
+    if (!route.public) {
+      userId = (await apiKeyUserId(supabase, req)) ?? (await requestUserId(supabase, req))
+      if (!userId) {
+        throw new ApiError(401, 'unauthorized', 'Send a valid API key as `Authorization: Bearer usk_...`')
+      }
+    }
+
+    const result = await route.handler({
+      supabase,
+      userId,
+      params,
+      query: requestUrl.searchParams,
+      body: req.method === 'POST' ? await readBody(req) : {},
+      baseUrl: Deno.env.get('API_BASE_URL') || `${supabaseUrl}/functions/v1/api`,
+    })
+
+    return jsonResponse(result.status ?? 200, result.body)
+  } catch (error) {
+    return errorResponse(error)
+  }
+})
+
+async function readBody(req: Request): Promise<Record<string, unknown>> {
+  const text = await req.text()
+  if (!text.trim()) return {}
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    throw invalidRequest('The request body is not valid JSON')
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw invalidRequest('The request body must be a JSON object')
+  }
+  return body as Record<string, unknown>
+}
+
+// The caller's role in a workspace. Workspaces they don't belong to look missing;
+// with `edit`, viewers are refused.
+async function requireRole(
+  request: ApiRequest,
+  workspaceId: number,
+  { edit = false, missing = 'Workspace not found' } = {}
+): Promise<WorkspaceRole> {
+  const role = await workspaceRole(request.supabase, workspaceId, request.userId!)
+  if (!role) throw notFound(missing)
+  if (edit && !canEditWorkspace(role)) {
+    throw new ApiError(403, 'forbidden', "Viewers can't change this workspace")
+  }
+  return role
+}
+
+// ---------------------------------------------------------------------------
+// Resources: database rows in the shape the API returns them
+
+// Every column of the row, with user_id as created_by
+function toUrl({ user_id, ...row }: UrlRow) {
+  return { ...row, created_by: user_id }
+}
+
+function toPrompt(row: PromptRow & Record<string, unknown>) {
+  return {
+    id: row.id,
+    created_at: row.created_at,
+    workspace_id: row.workspace_id,
+    name: row.prompt_name,
+    prompt: row.prompt,
+    description: row.description,
+    target_language: row.target_language,
+    provider: row.provider,
+    model: row.model,
+    temperature: row.temperature,
+    max_tokens: row.max_tokens,
+    output_schema: row.output_schema,
+    created_by: row.user_id,
+  }
+}
+
+function toSummary({ ai_response, structured_response, user_id, ...row }: Record<string, unknown>) {
+  return { ...row, summary: ai_response, structured: structured_response, created_by: user_id }
+}
+
+function toJob(job: SummaryJob, workspaceId: number) {
+  return {
+    id: job.id,
+    created_at: job.created_at,
+    workspace_id: workspaceId,
+    url_id: job.url_id,
+    prompt_id: job.prompt_id,
+    batch_id: job.batch_id,
+    status: job.status,
+    progress: job.progress,
+    attempts: job.attempts,
+    max_attempts: job.max_attempts,
+    started_at: job.started_at,
+    finished_at: job.finished_at,
+    summary_id: job.summary_id,
+    error: job.error_code ? { code: job.error_code, message: job.error_message } : null,
+    created_by: job.user_id,
+  }
+}
+
+async function fetchUrlRow(request: ApiRequest, id: number): Promise<UrlRow> {
+  const { data, error } = await request.supabase.from('urls').select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  if (!data) throw notFound('URL not found')
+  return data as UrlRow
+}
+
+async function fetchJobRow(request: ApiRequest, id: number): Promise<JobRow> {
+  const { data, error } = await request.supabase.from('summary_jobs').select(JOB_COLUMNS).eq('id', id).maybeSingle()
+  if (error) throw error
+  if (!data) throw notFound('Job not found')
+  return data as JobRow
+}
+
+function optionalString(body: Record<string, unknown>, name: string): string | null {
+  const value = body[name]
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value !== 'string') throw invalidRequest(`${name} must be a string`)
+  return value.trim() || null
+}
+
+function requiredString(body: Record<string, unknown>, name: string): string {
+  const value = optionalString(body, name)
+  if (!value) throw invalidRequest(`${name} is required`)
+  return value
+}
+
+// ---------------------------------------------------------------------------
+// Handlers
+
+async function listWorkspaces(request: ApiRequest) {
+  const { limit, offset } = paginationFromQuery(request.query)
+  const { data, error, count } = await request.supabase
+    .from('workspace_members')
+    .select('role, workspaces!inner(id, created_at, name, personal)', { count: 'exact' })
+    .eq('user_id', request.userId!)
+    .order('workspace_id')
+    .range(offset, offset + limit - 1)
+
+  if (error) throw error
+  const rows = (data || []) as unknown as { role: WorkspaceRole; workspaces: Record<string, unknown> }[]
+  return listResult(
+    rows.map((row) => ({ ...row.workspaces, role: row.role })),
+    { limit, offset, total: count ?? rows.length }
+  )
+}
+
+async function listUrls(request: ApiRequest) {
+  const workspaceId = idValue(request.query.get('workspace_id'), 'workspace_id')
+  await requireRole(request, workspaceId)
+  const { limit, offset } = paginationFromQuery(request.query)
+
+  let query = request.supabase
+    .from('urls')
+    .select('*', { count: 'exact' })
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+  const tag = request.query.get('tag')
+  if (tag) query = query.contains('tags', [tag])
+
+  const { data, error, count } = await query
+  if (error) throw error
+  return listResult((data || []).map(toUrl), { limit, offset, total: count ?? 0 })
+}
+
+// A URL the workspace saved before (matched on its canonical form) is returned as is
+async function createUrl(request: ApiRequest) {
+  const workspaceId = idValue(request.body.workspace_id, 'workspace_id')
+  const url = requiredString(request.body, 'url')
+
+  let protocol: string
+  try {
+    protocol = new URL(url).protocol
+  } catch {
+    throw invalidRequest('url must be an absolute http(s) URL')
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw invalidRequest('url must be an absolute http(s) URL')
+  }
+
+  await requireRole(request, workspaceId, { edit: true })
+  const { row, created } = await findOrCreateUrl(request.supabase, url, workspaceId, request.userId!)
+  return dataResult(toUrl(row), created ? 201 : 200)
+}
+
+async function getUrl(request: ApiRequest) {
+  const row = await fetchUrlRow(request, idValue(request.params.id, 'id'))
+  await requireRole(request, row.workspace_id!, { missing: 'URL not found' })
+  return dataResult(toUrl(row))
+}
+
+// Its summaries, jobs and watch go with it
+async function deleteUrl(request: ApiRequest) {
+  const row = await fetchUrlRow(request, idValue(request.params.id, 'id'))
+  await requireRole(request, row.workspace_id!, { edit: true, missing: 'URL not found' })
+
+  const { error } = await request.supabase.from('urls').delete().eq('id', row.id)
+  if (error) throw error
+  return { status: 204 }
+}
+
+async function listPrompts(request: ApiRequest) {
+  const workspaceId = idValue(request.query.get('workspace_id'), 'workspace_id')
+  await requireRole(request, workspaceId)
+  const { limit, offset } = paginationFromQuery(request.query)
+
+  const { data, error, count } = await request.supabase
+    .from('prompts')
+    .select('*', { count: 'exact' })
+    .or(promptAccessFilter(workspaceId))
+    .order('prompt_name')
+    .range(offset, offset + limit - 1)
+
+  if (error) throw error
+  return listResult((data || []).map(toPrompt), { limit, offset, total: count ?? 0 })
+}
+
+async function getPrompt(request: ApiRequest) {
+  const id = idValue(request.params.id, 'id')
+  const { data, error } = await request.supabase.from('prompts').select('*').eq('id', id).maybeSingle()
+  if (error) throw error
+  if (!data) throw notFound('Prompt not found')
+
+  // Shared prompts (no workspace) are visible to everyone
+  if (data.workspace_id !== null) {
+    await requireRole(request, data.workspace_id, { missing: 'Prompt not found' })
+  }
+  return dataResult(toPrompt(data))
+}
+
+async function createPrompt(request: ApiRequest) {
+  const { body } = request
+  const workspaceId = idValue(body.workspace_id, 'workspace_id')
+  const name = requiredString(body, 'name')
+  const prompt = requiredString(body, 'prompt')
+
+  const provider = optionalString(body, 'provider')
+  if (provider && !isLlmProvider(provider)) {
+    throw invalidRequest(`provider must be one of ${LLM_PROVIDERS.join(', ')}`)
+  }
+  if (body.temperature != null && typeof body.temperature !== 'number') {
+    throw invalidRequest('temperature must be a number')
+  }
+  if (body.max_tokens != null && !Number.isInteger(body.max_tokens)) {
+    throw invalidRequest('max_tokens must be an integer')
+  }
+  if (body.output_schema != null && (typeof body.output_schema !== 'object' || Array.isArray(body.output_schema))) {
+    throw invalidRequest('output_schema must be a JSON Schema object')
+  }
+
+  await requireRole(request, workspaceId, { edit: true })
+
+  // The table's checks reject temperatures and token limits out of range
+  const { data, error } = await request.supabase
+    .from('prompts')
+    .insert({
+      workspace_id: workspaceId,
+      user_id: request.userId,
+      prompt_name: name,
+      prompt,
+      description: optionalString(body, 'description'),
+      target_language: optionalString(body, 'target_language'),
+      provider,
+      model: optionalString(body, 'model'),
+      temperature: body.temperature ?? null,
+      max_tokens: body.max_tokens ?? null,
+      output_schema: body.output_schema ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return dataResult(toPrompt(data), 201)
+}
+
+async function listSummaries(request: ApiRequest) {
+  const workspaceId = idValue(request.query.get('workspace_id'), 'workspace_id')
+  await requireRole(request, workspaceId)
+  const { limit, offset } = paginationFromQuery(request.query)
+  const urlId = integerParam(request.query, 'url_id', { min: 1 })
+  const promptId = integerParam(request.query, 'prompt_id', { min: 1 })
+
+  let query = request.supabase
+    .from('url_summery')
+    .select(SUMMARY_COLUMNS, { count: 'exact' })
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+  if (urlId) query = query.eq('url_id', urlId)
+  if (promptId) query = query.eq('prompt_id', promptId)
+
+  const { data, error, count } = await query
+  if (error) throw error
+  return listResult((data || []).map(toSummary), { limit, offset, total: count ?? 0 })
+}
+
+async function getSummary(request: ApiRequest) {
+  const id = idValue(request.params.id, 'id')
+  const { data, error } = await request.supabase.from('url_summery').select(SUMMARY_COLUMNS).eq('id', id).maybeSingle()
+  if (error) throw error
+  if (!data) throw notFound('Summary not found')
+
+  await requireRole(request, data.workspace_id, { missing: 'Summary not found' })
+  return dataResult(toSummary(data))
+}
+
+async function listJobs(request: ApiRequest) {
+  const workspaceId = idValue(request.query.get('workspace_id'), 'workspace_id')
+  await requireRole(request, workspaceId)
+  const { limit, offset } = paginationFromQuery(request.query)
+  const urlId = integerParam(request.query, 'url_id', { min: 1 })
+  const status = request.query.get('status')
+  if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+    throw invalidRequest(`status must be one of ${JOB_STATUSES.join(', ')}`)
+  }
+
+  let query = request.supabase
+    .from('summary_jobs')
+    .select(JOB_COLUMNS, { count: 'exact' })
+    .eq('urls.workspace_id', workspaceId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+  if (urlId) query = query.eq('url_id', urlId)
+  if (status) query = query.eq('status', status)
+
+  const { data, error, count } = await query
+  if (error) throw error
+  return listResult(
+    ((data || []) as JobRow[]).map((job) => toJob(job, workspaceId)),
+    { limit, offset, total: count ?? 0 }
+  )
+}
+
+// Queue a summary of a saved URL with one of its workspace's prompts (or a shared
+// one); the worker picks it up right away. Poll GET /v1/jobs/{id} for the result.
+async function createJob(request: ApiRequest) {
+  const urlId = idValue(request.body.url_id, 'url_id')
+  const promptId = idValue(request.body.prompt_id, 'prompt_id')
+  const forceRefresh = request.body.force_refresh === true
+
+  const url = await fetchUrlRow(request, urlId)
+  await requireRole(request, url.workspace_id!, { edit: true, missing: 'URL not found' })
+
+  const { data: prompt, error: promptError } = await request.supabase
+    .from('prompts')
+    .select('*')
+    .eq('id', promptId)
+    .or(promptAccessFilter(url.workspace_id!))
+    .maybeSingle()
+
+  if (promptError) throw promptError
+  if (!prompt) throw notFound('Prompt not found')
+
+  // Fail fast when the prompt's model can't be called (model_not_configured)
+  assertProviderConfigured(resolveModelSettings(prompt))
+
+  const job = await enqueueSummaryJob(request.supabase, {
+    url_id: url.id,
+    prompt_id: promptId,
+    user_id: request.userId,
+    force_refresh: forceRefresh,
+  })
+  kickSummaryWorker()
+  console.log(`Queued summary job ${job.id} through the API`)
+
+  return dataResult(toJob(job, url.workspace_id!), 202)
+}
+
+async function getJob(request: ApiRequest) {
+  const job = await fetchJobRow(request, idValue(request.params.id, 'id'))
+  await requireRole(request, job.urls.workspace_id, { missing: 'Job not found' })
+  return dataResult(toJob(job, job.urls.workspace_id))
+}
+
+// Jobs that already finished are returned unchanged
+async function cancelJob(request: ApiRequest) {
+  const job = await fetchJobRow(request, idValue(request.params.id, 'id'))
+  await requireRole(request, job.urls.workspace_id, { edit: true, missing: 'Job not found' })
+
+  const { data, error } = await request.supabase
+    .from('summary_jobs')
+    .update({ status: 'cancelled', finished_at: new Date().toISOString(), locked_until: null, progress: null })
+    .eq('id', job.id)
+    .in('status', ['queued', 'running'])
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return dataResult(toJob((data as SummaryJob | null) ?? job, job.urls.workspace_id))
+}
+
+async function getOpenApiDocument(request: ApiRequest) {
+  return {
+    body: openApiDocument(ROUTES, {
+      title: 'URL Summarizer API',
+      version: API_VERSION,
+      description:
+        'Save URLs, run prompts over them and read the summaries. Authenticate with a personal API key ' +
+        "created on the app's API page: `Authorization: Bearer usk_...`.",
+      serverUrl: request.baseUrl,
+      schemas: SCHEMAS,
+    }),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAPI schemas and the route table
+
+const nullable = (type: string) => ({ type: [type, 'null'] })
+
+const SCHEMAS = {
+  Workspace: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      created_at: { type: 'string', format: 'date-time' },
+      name: { type: 'string' },
+      personal: { type: 'boolean', description: 'Created for the user when they signed up' },
+      role: { type: 'string', enum: ['owner', 'editor', 'viewer'], description: "The caller's role" },
+    },
+  },
+  Url: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      created_at: { type: 'string', format: 'date-time' },
+      workspace_id: { type: 'integer' },
+      url: { type: 'string' },
+      canonical_url: { ...nullable('string'), description: 'Normalized URL, unique per workspace' },
+      caption: nullable('string'),
+      document_type: { ...nullable('string'), enum: ['html', 'pdf', 'feed', 'json', 'markdown', 'text', null] },
+      title: nullable('string'),
+      description: nullable('string'),
+      author: nullable('string'),
+      published_date: nullable('string'),
+      site_name: nullable('string'),
+      image_url: nullable('string'),
+      favicon_url: nullable('string'),
+      language: nullable('string'),
+      tags: { type: 'array', items: { type: 'string' } },
+      saved_at: { ...nullable('string'), format: 'date-time' },
+      import_source: nullable('string'),
+      created_by: { ...nullable('string'), format: 'uuid' },
+    },
+  },
+  NewUrl: {
+    type: 'object',
+    required: ['workspace_id', 'url'],
+    properties: {
+      workspace_id: { type: 'integer' },
+      url: { type: 'string', format: 'uri' },
+    },
+  },
+  Prompt: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      created_at: { type: 'string', format: 'date-time' },
+      workspace_id: { ...nullable('integer'), description: 'Null for prompts shared with every workspace' },
+      name: { type: 'string' },
+      prompt: { type: 'string' },
+      description: nullable('string'),
+      target_language: { ...nullable('string'), description: 'Value of {{target_language}}; null means English' },
+      provider: { ...nullable('string'), enum: [...LLM_PROVIDERS, null] },
+      model: nullable('string'),
+      temperature: nullable('number'),
+      max_tokens: nullable('integer'),
+      output_schema: { ...nullable('object'), description: 'JSON Schema for structured output' },
+      created_by: { ...nullable('string'), format: 'uuid' },
+    },
+  },
+  NewPrompt: {
+    type: 'object',
+    required: ['workspace_id', 'name', 'prompt'],
+    properties: {
+      workspace_id: { type: 'integer' },
+      name: { type: 'string' },
+      prompt: { type: 'string', description: 'Instructions; may use {{content}}, {{title}}, {{url}}, {{domain}}, {{published_date}} and {{target_language}}' },
+      description: { type: 'string' },
+      target_language: { type: 'string' },
+      provider: { type: 'string', enum: LLM_PROVIDERS },
+      model: { type: 'string' },
+      temperature: { type: 'number', minimum: 0, maximum: 2 },
+      max_tokens: { type: 'integer', minimum: 1 },
+      output_schema: { type: 'object' },
+    },
+  },
+  Summary: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      created_at: { type: 'string', format: 'date-time' },
+      workspace_id: { type: 'integer' },
+      url_id: { type: 'integer' },
+      prompt_id: nullable('integer'),
+      summary: { ...nullable('string'), description: "The model's response" },
+      structured: { description: 'Parsed response, for prompts with an output_schema' },
+      model: nullable('string'),
+      chunk_count: nullable('integer'),
+      summary_strategy: { ...nullable('string'), enum: ['single', 'map_reduce', null] },
+      prompt_tokens: nullable('integer'),
+      completion_tokens: nullable('integer'),
+      cost_usd: { ...nullable('number'), description: 'Estimated' },
+      total_ms: nullable('integer'),
+      created_by: { ...nullable('string'), format: 'uuid' },
+    },
+  },
+  Job: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      created_at: { type: 'string', format: 'date-time' },
+      workspace_id: { type: 'integer' },
+      url_id: { type: 'integer' },
+      prompt_id: { type: 'integer' },
+      batch_id: nullable('integer'),
+      status: { type: 'string', enum: JOB_STATUSES },
+      progress: { ...nullable('string'), description: 'Latest status note while running' },
+      attempts: { type: 'integer' },
+      max_attempts: { type: 'integer' },
+      started_at: { ...nullable('string'), format: 'date-time' },
+      finished_at: { ...nullable('string'), format: 'date-time' },
+      summary_id: { ...nullable('integer'), description: 'Set once the job has succeeded' },
+      error: {
+        type: ['object', 'null'],
+        description: 'Why the job failed (or the last attempt, while it retries)',
+        properties: { code: { type: 'string' }, message: nullable('string') },
+      },
+      created_by: { ...nullable('string'), format: 'uuid' },
+    },
+  },
+  NewJob: {
+    type: 'object',
+    required: ['url_id', 'prompt_id'],
+    properties: {
+      url_id: { type: 'integer' },
+      prompt_id: { type: 'integer' },
+      force_refresh: { type: 'boolean', default: false, description: 'Fetch the page again instead of using the cache' },
+    },
+  },
+}
+
+const ref = (name: keyof typeof SCHEMAS) => ({ $ref: `#/components/schemas/${name}` })
+
+const idParameter = (resource: string) => ({
+  name: 'id',
+  in: 'path' as const,
+  description: `${resource} id`,
+  required: true,
+  schema: { type: 'integer' },
+})
+
+const workspaceParameter = {
+  name: 'workspace_id',
+  in: 'query' as const,
+  description: 'Workspace to list (see GET /v1/workspaces)',
+  required: true,
+  schema: { type: 'integer' },
+}
+
+const ROUTES: ApiRoute[] = [
+  {
+    method: 'GET',
+    path: '/v1/openapi.json',
+    operationId: 'getOpenApiDocument',
+    tag: 'Meta',
+    summary: 'This OpenAPI document',
+    public: true,
+    response: { status: 200, description: 'OpenAPI 3.1 document' },
+    handler: getOpenApiDocument,
+  },
+  {
+    method: 'GET',
+    path: '/v1/workspaces',
+    operationId: 'listWorkspaces',
+    tag: 'Workspaces',
+    summary: "The caller's workspaces and their role in each",
+    parameters: PAGINATION_PARAMETERS,
+    response: { status: 200, description: 'A page of workspaces', schema: listSchema(ref('Workspace')) },
+    handler: listWorkspaces,
+  },
+  {
+    method: 'GET',
+    path: '/v1/urls',
+    operationId: 'listUrls',
+    tag: 'URLs',
+    summary: "A workspace's saved URLs, newest first",
+    parameters: [
+      workspaceParameter,
+      { name: 'tag', in: 'query', description: 'Only URLs with this tag', schema: { type: 'string' } },
+      ...PAGINATION_PARAMETERS,
+    ],
+    response: { status: 200, description: 'A page of URLs', schema: listSchema(ref('Url')) },
+    handler: listUrls,
+  },
+  {
+    method: 'POST',
+    path: '/v1/urls',
+    operationId: 'createUrl',
+    tag: 'URLs',
+    summary: 'Save a URL',
+    description: 'Returns 200 with the existing URL when the workspace already saved the page.',
+    requestBody: ref('NewUrl'),
+    response: { status: 201, description: 'The saved URL', schema: dataSchema(ref('Url')) },
+    handler: createUrl,
+  },
+  {
+    method: 'GET',
+    path: '/v1/urls/{id}',
+    operationId: 'getUrl',
+    tag: 'URLs',
+    summary: 'A saved URL',
+    parameters: [idParameter('URL')],
+    response: { status: 200, description: 'The URL', schema: dataSchema(ref('Url')) },
+    handler: getUrl,
+  },
+  {
+    method: 'DELETE',
+    path: '/v1/urls/{id}',
+    operationId: 'deleteUrl',
+    tag: 'URLs',
+    summary: 'Delete a URL with its summaries and jobs',
+    parameters: [idParameter('URL')],
+    response: { status: 204, description: 'Deleted' },
+    handler: deleteUrl,
+  },
+  {
+    method: 'GET',
+    path: '/v1/prompts',
+    operationId: 'listPrompts',
+    tag: 'Prompts',
+    summary: "A workspace's prompts and the shared ones, by name",
+    parameters: [workspaceParameter, ...PAGINATION_PARAMETERS],
+    response: { status: 200, description: 'A page of prompts', schema: listSchema(ref('Prompt')) },
+    handler: listPrompts,
+  },
+  {
+    method: 'POST',
+    path: '/v1/prompts',
+    operationId: 'createPrompt',
+    tag: 'Prompts',
+    summary: 'Add a prompt to a workspace',
+    requestBody: ref('NewPrompt'),
+    response: { status: 201, description: 'The new prompt', schema: dataSchema(ref('Prompt')) },
+    handler: createPrompt,
+  },
+  {
+    method: 'GET',
+    path: '/v1/prompts/{id}',
+    operationId: 'getPrompt',
+    tag: 'Prompts',
+    summary: 'A prompt',
+    parameters: [idParameter('Prompt')],
+    response: { status: 200, description: 'The prompt', schema: dataSchema(ref('Prompt')) },
+    handler: getPrompt,
+  },
+  {
+    method: 'GET',
+    path: '/v1/summaries',
+    operationId: 'listSummaries',
+    tag: 'Summaries',
+    summary: "A workspace's summaries, newest first",
+    parameters: [
+      workspaceParameter,
+      { name: 'url_id', in: 'query', description: 'Only summaries of this URL', schema: { type: 'integer' } },
+      { name: 'prompt_id', in: 'query', description: 'Only summaries by this prompt', schema: { type: 'integer' } },
+      ...PAGINATION_PARAMETERS,
+    ],
+    response: { status: 200, description: 'A page of summaries', schema: listSchema(ref('Summary')) },
+    handler: listSummaries,
+  },
+  {
+    method: 'GET',
+    path: '/v1/summaries/{id}',
+    operationId: 'getSummary',
+    tag: 'Summaries',
+    summary: 'A summary',
+    parameters: [idParameter('Summary')],
+    response: { status: 200, description: 'The summary', schema: dataSchema(ref('Summary')) },
+    handler: getSummary,
+  },
+  {
+    method: 'GET',
+    path: '/v1/jobs',
+    operationId: 'listJobs',
+    tag: 'Jobs',
+    summary: "A workspace's summary jobs, newest first",
+    parameters: [
+      workspaceParameter,
+      { name: 'url_id', in: 'query', description: 'Only jobs for this URL', schema: { type: 'integer' } },
+      { name: 'status', in: 'query', description: 'Only jobs with this status', schema: { type: 'string', enum: JOB_STATUSES } },
+      ...PAGINATION_PARAMETERS,
+    ],
+    response: { status: 200, description: 'A page of jobs', schema: listSchema(ref('Job')) },
+    handler: listJobs,
+  },
+  {
+    method: 'POST',
+    path: '/v1/jobs',
+    operationId: 'createJob',
+    tag: 'Jobs',
+    summary: 'Summarize a saved URL with a prompt',
+    description: 'The job runs in the background; poll it until its status is succeeded or failed, then fetch summary_id.',
+    requestBody: ref('NewJob'),
+    response: { status: 202, description: 'The queued job', schema: dataSchema(ref('Job')) },
+    handler: createJob,
+  },
+  {
+    method: 'GET',
+    path: '/v1/jobs/{id}',
+    operationId: 'getJob',
+    tag: 'Jobs',
+    summary: 'A summary job',
+    parameters: [idParameter('Job')],
+    response: { status: 200, description: 'The job', schema: dataSchema(ref('Job')) },
+    handler: getJob,
+  },
+  {
+    method: 'POST',
+    path: '/v1/jobs/{id}/cancel',
+    operationId: 'cancelJob',
+    tag: 'Jobs',
+    summary: 'Cancel a queued or running job',
+    parameters: [idParameter('Job')],
+    response: { status: 200, description: 'The job', schema: dataSchema(ref('Job')) },
+    handler: cancelJob,
+  },
+]
+
+/* To invoke locally:
+
+  1. Run `supabase start`, then `supabase functions serve --env-file .env` (config.toml turns
+     verify_jwt off for this function only, since API keys aren't JWTs)
+
+  2. Create an API key on the app's API page, then:
+
+  curl -i 'http://127.0.0.1:54321/functions/v1/api/v1/workspaces' \
+    --header 'Authorization: Bearer usk_...'
+
+  curl -i --request POST 'http://127.0.0.1:54321/functions/v1/api/v1/urls' \
+    --header 'Authorization: Bearer usk_...' \
+    --header 'Content-Type: application/json' \
+    --data '{"workspace_id": 1, "url": "https://example.com/article"}'
+
+  curl -i --request POST 'http://127.0.0.1:54321/functions/v1/api/v1/jobs' \
+    --header 'Authorization: Bearer usk_...' \
+    --header 'Content-Type: application/json' \
+    --data '{"url_id": 1, "prompt_id": 1}'
+
+  The OpenAPI document is at http://127.0.0.1:54321/functions/v1/api/v1/openapi.json
+
+*/
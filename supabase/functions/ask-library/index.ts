@@ -0,0 +1,182 @@
+// Edge Function that answers a question from a workspace's saved pages (see
+// _shared/library.ts). Any member can ask:
+//   { "workspace_id": 1, "question": "...", "provider": "anthropic", "model": "..." }
+// provider and model are optional and default like a prompt without model settings.
+// The answer cites passages as [n]; `sources` lists the retrieved passages with their
+// URLs, marking the ones the answer cited.
+//
+// Environment: the EMBEDDING_* variables of _shared/embeddings.ts, and the provider
+// keys of _shared/llm.ts
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { requestUserId, workspaceRole } from '../_shared/auth.ts'
+import { assertEmbeddingsConfigured, resolveEmbeddingSettings } from '../_shared/embeddings.ts'
+import { classifyError } from '../_shared/errors.ts'
+import { answerQuestion } from '../_shared/library.ts'
+import { assertProviderConfigured, isLlmProvider, resolveModelSettings } from '../_shared/llm.ts'
+
+console.log("Ask Library Function loaded!")
+
+const MAX_QUESTION_LENGTH = 2000
+// Answers run longer than the default for summaries, and stay close to the passages
+const ANSWER_MAX_TOKENS = 1000
+const ANSWER_TEMPERATURE = 0.2
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    })
+  }
+
+  try {
+    const { workspace_id, question: rawQuestion, provider = null, model = null } = await req.json()
+    const question = typeof rawQuestion === 'string' ? rawQuestion.trim() : ''
+
+    const validationError =
+      !workspace_id ? "workspace_id is required"
+      : !question ? "question is required"
+      : question.length > MAX_QUESTION_LENGTH ? `question must be at most ${MAX_QUESTION_LENGTH} characters`
+      : provider !== null && !isLlmProvider(provider) ? "provider must be openai, anthropic or openai_compatible"
+      : model !== null && typeof model !== 'string' ? "model must be a string"
+      : null
+
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Create Supabase client with service role key
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    const userId = await requestUserId(supabase, req)
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to ask questions", code: 'unauthorized' }),
+        {
+          status: 401,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    if (!await workspaceRole(supabase, workspace_id, userId)) {
+      return new Response(
+        JSON.stringify({ error: "Workspace not found" }),
+        {
+          status: 404,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Fail fast when either model can't be called
+    const modelSettings = resolveModelSettings({
+      provider,
+      model,
+      max_tokens: ANSWER_MAX_TOKENS,
+      temperature: ANSWER_TEMPERATURE,
+    })
+    try {
+      assertEmbeddingsConfigured(resolveEmbeddingSettings())
+      assertProviderConfigured(modelSettings)
+    } catch (configError) {
+      return new Response(
+        JSON.stringify({ error: (configError as Error).message, code: classifyError(configError).code }),
+        {
+          status: 500,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    try {
+      const answer = await answerQuestion(supabase, workspace_id, question, modelSettings)
+      console.log(`Answered from ${answer.sources.length} passages with ${answer.provider}/${answer.model}`)
+
+      return new Response(
+        JSON.stringify({ success: true, question, ...answer }),
+        {
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    } catch (error) {
+      const classified = classifyError(error)
+      console.error(`Failed to answer (${classified.code}):`, error)
+      return new Response(
+        JSON.stringify({ error: "Failed to answer the question", details: classified.message, code: classified.code }),
+        {
+          status: classified.status,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+  } catch (error) {
+    console.error('General error:', error)
+    return new Response(
+      JSON.stringify({ error: "Invalid request body or internal error", details: (error as Error).message }),
+      {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+})
+
+/* To invoke locally:
+
+  1. Set an embedding provider and a chat provider, e.g. OPENAI_API_KEY for both, or
+     EMBEDDING_PROVIDER=openai_compatible with OPENAI_COMPATIBLE_BASE_URL for a local server
+
+  2. Run `supabase functions serve --env-file .env`
+
+  3. Ask workspace 1 a question:
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/ask-library' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"workspace_id": 1, "question": "What did I save about vector databases?"}'
+
+  Pages are indexed when they are summarized; index-library indexes older ones.
+
+*/
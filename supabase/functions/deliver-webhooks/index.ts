@@ -0,0 +1,234 @@
+// Edge Function that sends queued webhook deliveries (see _shared/webhooks.ts).
+//
+// Called with the service role key it drains the queue: it is started whenever an
+// event is queued and should also run on a schedule to send retries (see
+// production-setup.md). It stops claiming after its time budget and, if deliveries
+// are left, starts its successor.
+//
+// Signed-in owners and editors call it from the Webhooks page to send, and wait for,
+//   { "delivery_id": 12 }   a replay of a logged delivery, as a new delivery
+//   { "webhook_id": 3 }     a `ping` test event, attempted once
+//
+// Environment:
+//   WEBHOOK_WORKER_BUDGET_MS   stop claiming new deliveries after this long, default 60000
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { canEditWorkspace, isServiceRoleRequest, requestUserId, workspaceRole } from '../_shared/auth.ts'
+import {
+  claimWebhookDeliveries,
+  createClaimedDelivery,
+  deliverWebhook,
+  kickWebhookDeliverer,
+  type WebhookDelivery,
+  webhookPayload,
+} from '../_shared/webhooks.ts'
+
+console.log("Deliver Webhooks Function loaded!")
+
+const DEFAULT_BUDGET_MS = 60000
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+
+  if (!isServiceRoleRequest(req)) {
+    return await sendForUser(supabase, req)
+  }
+
+  const start = Date.now()
+  const budgetMs = Number(Deno.env.get('WEBHOOK_WORKER_BUDGET_MS')) || DEFAULT_BUDGET_MS
+  const outcomes: Record<string, number> = {}
+  let drained = false
+
+  try {
+    while (Date.now() - start < budgetMs) {
+      const [delivery] = await claimWebhookDeliveries(supabase)
+      if (!delivery) {
+        drained = true
+        break
+      }
+
+      const finished = await deliverWebhook(supabase, delivery)
+      // A failed attempt that will be retried is still pending
+      const outcome = finished.status === 'pending' ? 'retrying' : finished.status
+      outcomes[outcome] = (outcomes[outcome] || 0) + 1
+    }
+  } catch (error) {
+    console.error('Webhook delivery error:', error)
+    return new Response(
+      JSON.stringify({ error: "Failed to send webhook deliveries", details: (error as Error).message, outcomes }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+
+  console.log('Webhook deliveries sent:', outcomes)
+  if (!drained) kickWebhookDeliverer()
+
+  return new Response(
+    JSON.stringify({ success: true, outcomes, drained, elapsed_ms: Date.now() - start }),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        'Access-Control-Allow-Origin': '*',
+      }
+    }
+  )
+})
+
+// Replays and test events, sent right away with the outcome in the response
+async function sendForUser(supabase: SupabaseClient, req: Request): Promise<Response> {
+  try {
+    const { delivery_id, webhook_id } = await req.json()
+
+    if (!delivery_id && !webhook_id) {
+      return new Response(
+        JSON.stringify({ error: "delivery_id or webhook_id is required" }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    const userId = await requestUserId(supabase, req)
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to send webhooks", code: 'unauthorized' }),
+        {
+          status: 401,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    let original: WebhookDelivery | null = null
+    if (delivery_id) {
+      const { data, error } = await supabase.from('webhook_deliveries').select('*').eq('id', delivery_id).maybeSingle()
+      if (error) throw error
+      original = data as WebhookDelivery | null
+    }
+
+    const { data: webhook, error: webhookError } = await supabase
+      .from('webhooks')
+      .select('id, workspace_id')
+      .eq('id', original?.webhook_id ?? webhook_id)
+      .maybeSingle()
+
+    if (webhookError) throw webhookError
+
+    // Deliveries and webhooks of workspaces the caller isn't in don't exist for them
+    const role = webhook && (!delivery_id || original)
+      ? await workspaceRole(supabase, webhook.workspace_id, userId)
+      : null
+
+    if (!role) {
+      return new Response(
+        JSON.stringify({ error: delivery_id ? "Delivery not found" : "Webhook not found" }),
+        {
+          status: 404,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    if (!canEditWorkspace(role)) {
+      return new Response(
+        JSON.stringify({ error: "Viewers can't send webhooks in this workspace", code: 'forbidden' }),
+        {
+          status: 403,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // A replay keeps the original's payload and gets the usual retries; a test event
+    // is only tried once
+    const claimed = original
+      ? await createClaimedDelivery(supabase, webhook!.id, original.payload, { replayOf: original.id })
+      : await createClaimedDelivery(
+        supabase,
+        webhook!.id,
+        webhookPayload('ping', webhook!.workspace_id, { webhook_id: webhook!.id, message: 'Test event' }),
+        { maxAttempts: 1 }
+      )
+
+    const delivery = await deliverWebhook(supabase, claimed)
+    return new Response(
+      JSON.stringify({ success: delivery.status === 'succeeded', delivery }),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+
+  } catch (error) {
+    console.error('General error:', error)
+    return new Response(
+      JSON.stringify({ error: "Invalid request body or internal error", details: (error as Error).message }),
+      {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+}
+
+/* To invoke locally:
+
+  1. Run `supabase functions serve --env-file .env` (deliveries are sent as events are queued)
+
+  2. Or drain the queue by hand:
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/deliver-webhooks' \
+    --header 'Authorization: Bearer <service role key>' \
+    --header 'Content-Type: application/json' \
+    --data '{}'
+
+  3. Or send a test event to webhook 1 as a signed-in editor:
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/deliver-webhooks' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"webhook_id": 1}'
+
+*/
@@ -0,0 +1,334 @@
+// Edge Function for bulk imports: parses a CSV, plain list, bookmarks HTML, OPML,
+// Pocket or Instapaper export (see _shared/importers.ts), skips links the workspace has
+// already saved (matched on their canonical URL) and inserts the rest with their original
+// title, tags and saved date. With a prompt_id, every new URL is summarized in one
+// batch. "preview": true reports what would be imported without saving anything.
+//
+// Environment:
+//   IMPORT_MAX_ITEMS   most links accepted per import, default 2000
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { classifyError } from '../_shared/errors.ts'
+import { assertProviderConfigured, resolveModelSettings } from '../_shared/llm.ts'
+import { batchConcurrency, enqueueSummaryBatch } from '../_shared/jobs.ts'
+import { IMPORT_FORMATS, type ImportFormat, type ImportItem, parseImport } from '../_shared/importers.ts'
+import { canonicalizeUrl, findExistingUrls } from '../_shared/urls.ts'
+import { canEditWorkspace, promptAccessFilter, requestUserId, workspaceRole } from '../_shared/auth.ts'
+
+console.log("Import URLs Function loaded!")
+
+const DEFAULT_MAX_ITEMS = 2000
+const INSERT_CHUNK_SIZE = 500
+
+type ItemStatus = 'new' | 'imported' | 'duplicate'
+
+interface ImportedItem extends ImportItem {
+  status: ItemStatus
+  url_id: number | null
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    })
+  }
+
+  try {
+    const { content, workspace_id, format = 'auto', prompt_id, preview = false, concurrency } = await req.json()
+
+    if (!workspace_id) {
+      return new Response(
+        JSON.stringify({ error: "workspace_id is required" }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return new Response(
+        JSON.stringify({ error: "content is required" }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    if (format !== 'auto' && !IMPORT_FORMATS.includes(format)) {
+      return new Response(
+        JSON.stringify({ error: `format must be auto or one of ${IMPORT_FORMATS.join(', ')}` }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    const parsed = parseImport(content, format as ImportFormat | 'auto')
+    const items = mergeDuplicateItems(parsed.items)
+    const maxItems = Number(Deno.env.get('IMPORT_MAX_ITEMS')) || DEFAULT_MAX_ITEMS
+
+    if (items.length === 0 || items.length > maxItems) {
+      return new Response(
+        JSON.stringify({
+          error: items.length === 0
+            ? `No links found in the file (read as ${parsed.format})`
+            : `An import can hold at most ${maxItems} links (${items.length} found)`
+        }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Create Supabase client with service role key
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    const userId = await requestUserId(supabase, req)
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to import URLs", code: 'unauthorized' }),
+        {
+          status: 401,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Any member can preview an import; owners and editors save it
+    const role = await workspaceRole(supabase, workspace_id, userId)
+    if (!role) {
+      return new Response(
+        JSON.stringify({ error: "Workspace not found" }),
+        {
+          status: 404,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    if (!preview && !canEditWorkspace(role)) {
+      return new Response(
+        JSON.stringify({ error: "Viewers can't import URLs into this workspace", code: 'forbidden' }),
+        {
+          status: 403,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // The default prompt is checked before anything is saved
+    if (prompt_id && !preview) {
+      const { data: prompt, error: promptError } = await supabase
+        .from('prompts')
+        .select('*')
+        .eq('id', prompt_id)
+        .or(promptAccessFilter(workspace_id))
+        .single()
+
+      if (promptError) {
+        return new Response(
+          JSON.stringify({ error: "Failed to fetch prompt from database", details: promptError.message }),
+          {
+            status: 404,
+            headers: {
+              "Content-Type": "application/json",
+              'Access-Control-Allow-Origin': '*',
+            }
+          }
+        )
+      }
+
+      try {
+        assertProviderConfigured(resolveModelSettings(prompt))
+      } catch (configError) {
+        return new Response(
+          JSON.stringify({ error: (configError as Error).message, code: classifyError(configError).code }),
+          {
+            status: 500,
+            headers: {
+              "Content-Type": "application/json",
+              'Access-Control-Allow-Origin': '*',
+            }
+          }
+        )
+      }
+    }
+
+    const existing = await findExistingUrls(supabase, items.map((item) => item.url), workspace_id)
+    const results: ImportedItem[] = items.map((item) => {
+      const row = existing.get(canonicalizeUrl(item.url))
+      return { ...item, status: row ? 'duplicate' : 'new', url_id: row?.id ?? null }
+    })
+
+    if (!preview) {
+      await insertNewItems(supabase, results, parsed.format, workspace_id, userId)
+    }
+
+    const importedIds = results.filter((item) => item.status === 'imported').map((item) => item.url_id!)
+    let batchId: number | null = null
+
+    if (prompt_id && !preview && importedIds.length > 0) {
+      const batch = await enqueueSummaryBatch(supabase, {
+        urlIds: importedIds,
+        promptIds: [prompt_id],
+        workspaceId: workspace_id,
+        userId,
+        concurrency: batchConcurrency(concurrency)
+      })
+      batchId = batch.batchId
+    }
+
+    console.log(`Import (${parsed.format}): ${importedIds.length} new, ${results.length - importedIds.length} already saved, ${parsed.skipped} skipped`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        preview,
+        format: parsed.format,
+        total: results.length,
+        new: results.filter((item) => item.status !== 'duplicate').length,
+        duplicates: results.filter((item) => item.status === 'duplicate').length,
+        skipped: parsed.skipped,
+        batch_id: batchId,
+        items: results
+      }),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+
+  } catch (error) {
+    console.error('General error:', error)
+    return new Response(
+      JSON.stringify({ error: "Invalid request body or internal error", details: (error as Error).message }),
+      {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+})
+
+// One item per page: later copies add their tags and an earlier saved date
+function mergeDuplicateItems(items: ImportItem[]): ImportItem[] {
+  const byCanonical = new Map<string, ImportItem>()
+
+  for (const item of items) {
+    const key = canonicalizeUrl(item.url)
+    const first = byCanonical.get(key)
+    if (!first) {
+      byCanonical.set(key, { ...item, tags: [...item.tags] })
+      continue
+    }
+    first.title = first.title || item.title
+    first.tags.push(...item.tags.filter((tag) => !first.tags.includes(tag)))
+    if (item.saved_at && (!first.saved_at || item.saved_at < first.saved_at)) {
+      first.saved_at = item.saved_at
+    }
+  }
+
+  return [...byCanonical.values()]
+}
+
+// Insert the new items and mark them imported. Rows saved to the workspace in the
+// meantime are left alone (the canonical URL is unique per workspace) and reported
+// as duplicates.
+async function insertNewItems(
+  supabase: SupabaseClient,
+  results: ImportedItem[],
+  format: ImportFormat,
+  workspaceId: number,
+  userId: string
+) {
+  const pending = results.filter((item) => item.status === 'new')
+
+  for (let i = 0; i < pending.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = pending.slice(i, i + INSERT_CHUNK_SIZE)
+    const { data, error } = await supabase
+      .from('urls')
+      .upsert(
+        chunk.map((item) => ({
+          user_id: userId,
+          workspace_id: workspaceId,
+          url: item.url,
+          canonical_url: canonicalizeUrl(item.url),
+          caption: item.title,
+          tags: item.tags,
+          saved_at: item.saved_at,
+          import_source: format,
+        })),
+        { onConflict: 'workspace_id,canonical_url', ignoreDuplicates: true }
+      )
+      .select('id, canonical_url')
+
+    if (error) throw error
+
+    const inserted = new Map((data || []).map((row: { id: number; canonical_url: string }) => [row.canonical_url, row.id]))
+    for (const item of chunk) {
+      const id = inserted.get(canonicalizeUrl(item.url))
+      item.status = id ? 'imported' : 'duplicate'
+      item.url_id = id ?? null
+    }
+  }
+}
+
+/* To invoke locally:
+
+  1. Run `supabase functions serve --env-file .env`
+
+  2. Import a list of links and summarize each new one with prompt 1:
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/import-urls' \
+    --header 'Authorization: Bearer <access token of a signed-in user>' \
+    --header 'Content-Type: application/json' \
+    --data '{"workspace_id": 1, "content": "https://example.com\nhttps://example.org", "prompt_id": 1}'
+
+  "format" defaults to auto-detection; add "preview": true to see what would be
+  imported without saving.
+
+*/
@@ -0,0 +1,192 @@
+// Edge Function that indexes a workspace's older URLs for the library's semantic
+// search (see _shared/library.ts). New summaries index their page as they are saved;
+// this covers URLs saved before, or after the embedding model was changed. Owners and
+// editors call it from the Ask page with
+//   { "workspace_id": 1, "after_url_id": 0 }
+// It works through the unindexed URLs in id order until its time budget is spent and
+// returns `cursor`, the last URL it tried. Passing that back as after_url_id continues
+// past pages that failed, until `remaining` is 0.
+//
+// Environment: the EMBEDDING_* variables of _shared/embeddings.ts, and
+//   INDEX_LIBRARY_BUDGET_MS   stop starting new URLs after this long, default 50000
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { canEditWorkspace, requestUserId, workspaceRole } from '../_shared/auth.ts'
+import { assertEmbeddingsConfigured, resolveEmbeddingSettings } from '../_shared/embeddings.ts'
+import { classifyError } from '../_shared/errors.ts'
+import { indexPage, unindexedUrls } from '../_shared/library.ts'
+import { scrapePage } from '../_shared/scrape.ts'
+
+console.log("Index Library Function loaded!")
+
+const DEFAULT_BUDGET_MS = 50000
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    })
+  }
+
+  try {
+    const { workspace_id, after_url_id = 0 } = await req.json()
+
+    if (!workspace_id || !Number.isInteger(after_url_id)) {
+      return new Response(
+        JSON.stringify({ error: !workspace_id ? "workspace_id is required" : "after_url_id must be an integer" }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Create Supabase client with service role key
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    const userId = await requestUserId(supabase, req)
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to index the library", code: 'unauthorized' }),
+        {
+          status: 401,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    const role = await workspaceRole(supabase, workspace_id, userId)
+    if (!role) {
+      return new Response(
+        JSON.stringify({ error: "Workspace not found" }),
+        {
+          status: 404,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    if (!canEditWorkspace(role)) {
+      return new Response(
+        JSON.stringify({ error: "Viewers can't index this workspace's library", code: 'forbidden' }),
+        {
+          status: 403,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    const settings = resolveEmbeddingSettings()
+    try {
+      assertEmbeddingsConfigured(settings)
+    } catch (configError) {
+      return new Response(
+        JSON.stringify({ error: (configError as Error).message, code: classifyError(configError).code }),
+        {
+          status: 500,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    const start = Date.now()
+    const budgetMs = Number(Deno.env.get('INDEX_LIBRARY_BUDGET_MS')) || DEFAULT_BUDGET_MS
+    const pending = await unindexedUrls(supabase, workspace_id, after_url_id, settings)
+    const failures: { url_id: number; error: string; code: string }[] = []
+    let indexed = 0
+    let tried = 0
+
+    for (const url of pending) {
+      if (Date.now() - start >= budgetMs) break
+      tried++
+
+      // Uses the cached snapshot when there is a fresh one
+      try {
+        const { snapshot } = await scrapePage(supabase, url.url)
+        const result = await indexPage(supabase, { urlId: url.id, workspaceId: workspace_id, snapshot }, settings)
+        if (result.outcome === 'indexed') indexed++
+      } catch (error) {
+        const classified = classifyError(error)
+        console.error(`Failed to index URL ${url.id} (${classified.code}):`, error)
+        failures.push({ url_id: url.id, error: classified.message, code: classified.code })
+      }
+    }
+
+    console.log(`Indexed ${indexed} of ${tried} URLs in workspace ${workspace_id}, ${failures.length} failed`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        indexed,
+        failed: failures.length,
+        failures,
+        remaining: pending.length - tried,
+        cursor: tried ? pending[tried - 1].id : after_url_id,
+        elapsed_ms: Date.now() - start,
+      }),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+
+  } catch (error) {
+    console.error('General error:', error)
+    return new Response(
+      JSON.stringify({ error: "Invalid request body or internal error", details: (error as Error).message }),
+      {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+})
+
+/* To invoke locally:
+
+  1. Set an embedding provider, e.g. OPENAI_API_KEY, or EMBEDDING_PROVIDER=openai_compatible
+     with EMBEDDING_BASE_URL=http://host.docker.internal:11434/v1 for Ollama
+
+  2. Run `supabase functions serve --env-file .env`
+
+  3. Index workspace 1 as an editor, passing the returned cursor until remaining is 0:
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/index-library' \
+    --header 'Authorization: Bearer <user access token>' \
+    --header 'Content-Type: application/json' \
+    --data '{"workspace_id": 1, "after_url_id": 0}'
+
+*/
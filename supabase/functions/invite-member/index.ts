@@ -0,0 +1,219 @@
+// Edge Function that invites someone to a workspace by email. Only the workspace's
+// owners can invite. The invitation is kept in workspace_invites and the email is sent
+// by Supabase Auth: an address without an account gets an invitation to create one,
+// an existing user a sign-in link. Either link opens the app, where the invitation
+// waits in the workspace switcher. Locally the emails land in Inbucket
+// (http://127.0.0.1:54324).
+//
+// Environment:
+//   APP_URL   page the email links to, default the Origin of the request
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { requestUserId, type WorkspaceRole, workspaceRole } from '../_shared/auth.ts'
+
+console.log("Invite Member Function loaded!")
+
+const ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer']
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    })
+  }
+
+  try {
+    const { workspace_id, email: rawEmail, role = 'editor' } = await req.json()
+    const email = typeof rawEmail === 'string' ? rawEmail.trim().toLowerCase() : ''
+
+    const validationError =
+      !workspace_id ? "workspace_id is required"
+      : !EMAIL_PATTERN.test(email) ? "A valid email address is required"
+      : !ROLES.includes(role) ? `role must be one of ${ROLES.join(', ')}`
+      : null
+
+    if (validationError) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Create Supabase client with service role key
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    const userId = await requestUserId(supabase, req)
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to invite members", code: 'unauthorized' }),
+        {
+          status: 401,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    const callerRole = await workspaceRole(supabase, workspace_id, userId)
+    if (!callerRole) {
+      return new Response(
+        JSON.stringify({ error: "Workspace not found" }),
+        {
+          status: 404,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    if (callerRole !== 'owner') {
+      return new Response(
+        JSON.stringify({ error: "Only owners can invite members", code: 'forbidden' }),
+        {
+          status: 403,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    const [{ data: workspace, error: workspaceError }, { data: member, error: memberError }] = await Promise.all([
+      supabase.from('workspaces').select('id, name').eq('id', workspace_id).single(),
+      supabase.from('workspace_members').select('user_id').eq('workspace_id', workspace_id).eq('email', email).maybeSingle(),
+    ])
+
+    if (workspaceError || memberError) throw workspaceError || memberError
+
+    if (member) {
+      return new Response(
+        JSON.stringify({ error: `${email} is already a member of this workspace` }),
+        {
+          status: 409,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Inviting the same address again renews the invitation with the new role
+    const { data: invite, error: inviteError } = await supabase
+      .from('workspace_invites')
+      .upsert(
+        {
+          workspace_id,
+          workspace_name: workspace.name,
+          email,
+          role,
+          invited_by: userId,
+          expires_at: new Date(Date.now() + INVITE_TTL_MS).toISOString(),
+          accepted_at: null,
+        },
+        { onConflict: 'workspace_id,email' }
+      )
+      .select()
+      .single()
+
+    if (inviteError) throw inviteError
+
+    const redirectTo = Deno.env.get('APP_URL') || req.headers.get('Origin') || undefined
+    const emailSent = await sendInviteEmail(supabase, email, workspace.name, redirectTo)
+    console.log(`Invited ${email} to workspace ${workspace_id} as ${role}${emailSent ? '' : ' (email not sent)'}`)
+
+    return new Response(
+      JSON.stringify({ success: true, invite, email_sent: emailSent }),
+      {
+        status: 201,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+
+  } catch (error) {
+    console.error('General error:', error)
+    return new Response(
+      JSON.stringify({ error: "Invalid request body or internal error", details: (error as Error).message }),
+      {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+})
+
+// The invitation stays valid when the email can't be sent; the invitee still sees it
+// in the app once they sign in with that address
+async function sendInviteEmail(
+  supabase: SupabaseClient,
+  email: string,
+  workspaceName: string,
+  redirectTo: string | undefined
+): Promise<boolean> {
+  const { error } = await supabase.auth.admin.inviteUserByEmail(email, {
+    redirectTo,
+    data: { workspace_name: workspaceName },
+  })
+  if (!error) return true
+
+  // The address already has an account: send it a sign-in link instead
+  if (error.status === 422 || error.code === 'email_exists') {
+    const { error: linkError } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+    })
+    if (!linkError) return true
+    console.error('Failed to send the sign-in link:', linkError)
+    return false
+  }
+
+  console.error('Failed to send the invitation email:', error)
+  return false
+}
+
+/* To invoke locally:
+
+  1. Run `supabase start`, then `supabase functions serve --env-file .env`
+
+  2. Invite someone to workspace 1 as an editor:
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/invite-member' \
+    --header 'Authorization: Bearer <access token of a workspace owner>' \
+    --header 'Content-Type: application/json' \
+    --data '{"workspace_id": 1, "email": "teammate@example.com", "role": "editor"}'
+
+  The email appears in Inbucket at http://127.0.0.1:54324.
+
+*/
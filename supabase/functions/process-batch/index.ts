@@ -0,0 +1,314 @@
+// Edge Function to run many prompts over many saved URLs: queues one summary job per
+// (URL, prompt) pair under a summary_batches row and starts as many workers as the
+// batch may run at once. Posting just a batch_id returns the batch's progress.
+//
+// Environment:
+//   SUMMARY_BATCH_MAX_JOBS   largest batch accepted (URLs x prompts), default 500
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2'
+import { classifyError } from '../_shared/errors.ts'
+import { assertProviderConfigured, resolveModelSettings } from '../_shared/llm.ts'
+import { batchConcurrency, enqueueSummaryBatch, type SummaryJob } from '../_shared/jobs.ts'
+import type { PromptRow } from '../_shared/pipeline.ts'
+import { canEditWorkspace, promptAccessFilter, requestUserId, workspaceRole } from '../_shared/auth.ts'
+
+console.log("Process Batch Function loaded!")
+
+const DEFAULT_MAX_JOBS = 500
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    })
+  }
+
+  try {
+    const { workspace_id, url_ids, prompt_ids, batch_id, force_refresh = false, concurrency } = await req.json()
+
+    // Create Supabase client with service role key
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false
+      }
+    })
+
+    const userId = await requestUserId(supabase, req)
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to run batches", code: 'unauthorized' }),
+        {
+          status: 401,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    if (batch_id && !url_ids && !prompt_ids) {
+      return await batchProgress(supabase, batch_id, userId)
+    }
+
+    if (!workspace_id) {
+      return new Response(
+        JSON.stringify({ error: "workspace_id is required" }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Owners and editors run prompts in a workspace; viewers only read it
+    const role = await workspaceRole(supabase, workspace_id, userId)
+    if (!role) {
+      return new Response(
+        JSON.stringify({ error: "Workspace not found" }),
+        {
+          status: 404,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    if (!canEditWorkspace(role)) {
+      return new Response(
+        JSON.stringify({ error: "Viewers can't run batches in this workspace", code: 'forbidden' }),
+        {
+          status: 403,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    const urlIds = uniqueIds(url_ids)
+    const promptIds = uniqueIds(prompt_ids)
+    const maxJobs = Number(Deno.env.get('SUMMARY_BATCH_MAX_JOBS')) || DEFAULT_MAX_JOBS
+    const validationError =
+      !urlIds || urlIds.length === 0 ? "url_ids must be a non-empty array of URL ids"
+      : !promptIds || promptIds.length === 0 ? "prompt_ids must be a non-empty array of prompt ids"
+      : urlIds.length * promptIds.length > maxJobs
+      ? `A batch can hold at most ${maxJobs} jobs (${urlIds.length} URLs x ${promptIds.length} prompts requested)`
+      : null
+
+    if (validationError || !urlIds || !promptIds) {
+      return new Response(
+        JSON.stringify({ error: validationError }),
+        {
+          status: 400,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Every URL and prompt must exist (and be the workspace's) before anything is queued
+    const [{ data: urlRows, error: urlsError }, { data: promptRows, error: promptsError }] = await Promise.all([
+      supabase.from('urls').select('id').eq('workspace_id', workspace_id).in('id', urlIds),
+      supabase.from('prompts').select('*').or(promptAccessFilter(workspace_id)).in('id', promptIds),
+    ])
+
+    if (urlsError || promptsError) {
+      const fetchError = urlsError || promptsError
+      console.error('Database fetch error:', fetchError)
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch URLs and prompts from database", details: fetchError?.message }),
+        {
+          status: 500,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    const foundUrls = new Set((urlRows || []).map((row: { id: number }) => row.id))
+    const prompts = (promptRows || []) as PromptRow[]
+    const missingUrls = urlIds.filter((id) => !foundUrls.has(id))
+    const missingPrompts = promptIds.filter((id) => !prompts.some((prompt) => prompt.id === id))
+
+    if (missingUrls.length > 0 || missingPrompts.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: "Some URLs or prompts were not found",
+          details: [
+            missingUrls.length > 0 ? `URL ids ${missingUrls.join(', ')}` : '',
+            missingPrompts.length > 0 ? `prompt ids ${missingPrompts.join(', ')}` : '',
+          ].filter(Boolean).join('; '),
+          missing_url_ids: missingUrls,
+          missing_prompt_ids: missingPrompts
+        }),
+        {
+          status: 404,
+          headers: {
+            "Content-Type": "application/json",
+            'Access-Control-Allow-Origin': '*',
+          }
+        }
+      )
+    }
+
+    // Fail fast when one of the prompts' models can't be called
+    for (const prompt of prompts) {
+      try {
+        assertProviderConfigured(resolveModelSettings(prompt))
+      } catch (configError) {
+        return new Response(
+          JSON.stringify({
+            error: (configError as Error).message,
+            details: `Prompt "${prompt.prompt_name}"`,
+            code: classifyError(configError).code
+          }),
+          {
+            status: 500,
+            headers: {
+              "Content-Type": "application/json",
+              'Access-Control-Allow-Origin': '*',
+            }
+          }
+        )
+      }
+    }
+
+    const runningAtOnce = batchConcurrency(concurrency)
+
+    const { batchId, jobs } = await enqueueSummaryBatch(supabase, {
+      urlIds,
+      promptIds,
+      workspaceId: workspace_id,
+      userId,
+      forceRefresh: force_refresh,
+      concurrency: runningAtOnce
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        batch_id: batchId,
+        concurrency: runningAtOnce,
+        total: jobs.length,
+        jobs: jobs.map(jobSummary)
+      }),
+      {
+        status: 202,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+
+  } catch (error) {
+    console.error('General error:', error)
+    return new Response(
+      JSON.stringify({ error: "Invalid request body or internal error", details: (error as Error).message }),
+      {
+        status: 400,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+})
+
+// Counts per status plus the state of every job in the batch, for any member of the
+// batch's workspace
+async function batchProgress(supabase: SupabaseClient, batchId: number, userId: string): Promise<Response> {
+  const [{ data: progress, error: progressError }, { data: jobs, error: jobsError }] = await Promise.all([
+    supabase.from('summary_batch_progress').select('*').eq('batch_id', batchId).maybeSingle(),
+    supabase.from('summary_jobs').select('*').eq('batch_id', batchId).order('id'),
+  ])
+
+  if (progressError || jobsError) throw progressError || jobsError
+
+  if (!progress || !(await workspaceRole(supabase, progress.workspace_id, userId))) {
+    return new Response(
+      JSON.stringify({ error: "Batch not found" }),
+      {
+        status: 404,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      ...progress,
+      finished: progress.queued === 0 && progress.running === 0,
+      jobs: (jobs as SummaryJob[]).map(jobSummary)
+    }),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        'Access-Control-Allow-Origin': '*',
+      }
+    }
+  )
+}
+
+function jobSummary(job: SummaryJob) {
+  return {
+    job_id: job.id,
+    url_id: job.url_id,
+    prompt_id: job.prompt_id,
+    status: job.status,
+    attempts: job.attempts,
+    progress: job.progress,
+    error_code: job.error_code,
+    error_message: job.error_message,
+    summary_id: job.summary_id
+  }
+}
+
+// Positive integer ids without repeats, or null when the value isn't a list of ids
+function uniqueIds(value: unknown): number[] | null {
+  if (!Array.isArray(value)) return null
+  const ids = value.map(Number)
+  if (ids.some((id) => !Number.isInteger(id) || id <= 0)) return null
+  return [...new Set(ids)]
+}
+
+/* To invoke locally:
+
+  1. Run `supabase functions serve --env-file .env` (process-batch starts summary-worker)
+
+  2. Queue every pair of URLs 1, 2, 3 and prompts 1, 2, running two at a time:
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/process-batch' \
+    --header 'Authorization: Bearer <access token of a signed-in user>' \
+    --header 'Content-Type: application/json' \
+    --data '{"workspace_id": 1, "url_ids": [1, 2, 3], "prompt_ids": [1, 2], "concurrency": 2}'
+
+  The response is 202 with a batch_id and the queued jobs. Post {"batch_id": <id>}
+  for the batch's progress, or follow its jobs in the summary_jobs table.
+
+*/
@@ -0,0 +1,110 @@
+// Edge Function that drains the summary_jobs queue. It is started by process-url and
+// summerize_url whenever they queue a job, and should also run on a schedule to pick
+// up retries and jobs left behind by a worker that stopped (see production-setup.md).
+//
+// Jobs are claimed one at a time until the queue is empty or the time budget is used
+// up; several workers can run at once. A worker that runs out of time with jobs left
+// starts its successor, so long batches don't wait for the schedule.
+//
+// Environment:
+//   SUMMARY_WORKER_BUDGET_MS   stop claiming new jobs after this long, default 120000
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { claimSummaryJobs, kickSummaryWorker, runSummaryJob } from '../_shared/jobs.ts'
+import { isServiceRoleRequest } from '../_shared/auth.ts'
+
+console.log("Summary Worker Function loaded!")
+
+const DEFAULT_BUDGET_MS = 120000
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    })
+  }
+
+  // Started by the other functions and pg_cron, never by users
+  if (!isServiceRoleRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: "summary-worker can only be called with the service role key", code: 'unauthorized' }),
+      {
+        status: 403,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+
+  const start = Date.now()
+  const budgetMs = Number(Deno.env.get('SUMMARY_WORKER_BUDGET_MS')) || DEFAULT_BUDGET_MS
+  const outcomes: Record<string, number> = {}
+  let drained = false
+
+  try {
+    while (Date.now() - start < budgetMs) {
+      const [job] = await claimSummaryJobs(supabase)
+      if (!job) {
+        drained = true
+        break
+      }
+
+      const finished = await runSummaryJob(supabase, job)
+      outcomes[finished.status] = (outcomes[finished.status] || 0) + 1
+    }
+  } catch (error) {
+    console.error('Summary worker error:', error)
+    return new Response(
+      JSON.stringify({ error: "Failed to process summary jobs", details: (error as Error).message, outcomes }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+
+  console.log('Summary worker finished:', outcomes)
+  if (!drained) kickSummaryWorker()
+
+  return new Response(
+    JSON.stringify({ success: true, outcomes, drained, elapsed_ms: Date.now() - start }),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        'Access-Control-Allow-Origin': '*',
+      }
+    }
+  )
+})
+
+/* To invoke locally:
+
+  1. Run `supabase functions serve --env-file .env` (the worker is started by the other functions)
+
+  2. Or drain the queue by hand:
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/summary-worker' \
+    --header 'Authorization: Bearer <service role key>' \
+    --header 'Content-Type: application/json' \
+    --data '{}'
+
+*/
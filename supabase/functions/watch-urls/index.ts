@@ -0,0 +1,115 @@
+// Edge Function that checks watched URLs for changes (see _shared/watches.ts). It runs
+// on a schedule (see production-setup.md): due watches are claimed a few at a time
+// until none are left or the time budget is used up. Summaries queued for changed
+// pages are handed to the summary worker.
+//
+// Environment:
+//   WATCH_BUDGET_MS   stop claiming new watches after this long, default 120000
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { kickSummaryWorker } from '../_shared/jobs.ts'
+import { checkWatch, claimDueWatches, type WatchCheck } from '../_shared/watches.ts'
+import { isServiceRoleRequest } from '../_shared/auth.ts'
+
+console.log("Watch URLs Function loaded!")
+
+const DEFAULT_BUDGET_MS = 120000
+const CLAIM_BATCH_SIZE = 5
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+      },
+    })
+  }
+
+  // Started by the other functions and pg_cron, never by users
+  if (!isServiceRoleRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: "watch-urls can only be called with the service role key", code: 'unauthorized' }),
+      {
+        status: 403,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+
+  const start = Date.now()
+  const budgetMs = Number(Deno.env.get('WATCH_BUDGET_MS')) || DEFAULT_BUDGET_MS
+  const checks: WatchCheck[] = []
+  let drained = false
+
+  try {
+    while (Date.now() - start < budgetMs) {
+      const watches = await claimDueWatches(supabase, CLAIM_BATCH_SIZE)
+      if (watches.length === 0) {
+        drained = true
+        break
+      }
+
+      for (const watch of watches) {
+        checks.push(await checkWatch(supabase, watch))
+      }
+    }
+  } catch (error) {
+    console.error('Watch check error:', error)
+    return new Response(
+      JSON.stringify({ error: "Failed to check watched URLs", details: (error as Error).message, checks }),
+      {
+        status: 500,
+        headers: {
+          "Content-Type": "application/json",
+          'Access-Control-Allow-Origin': '*',
+        }
+      }
+    )
+  }
+
+  const outcomes: Record<string, number> = {}
+  for (const check of checks) {
+    outcomes[check.outcome] = (outcomes[check.outcome] || 0) + 1
+  }
+  console.log('Watch check finished:', outcomes)
+
+  if (checks.some((check) => check.job_id !== null)) kickSummaryWorker()
+
+  return new Response(
+    JSON.stringify({ success: true, outcomes, drained, checks, elapsed_ms: Date.now() - start }),
+    {
+      headers: {
+        "Content-Type": "application/json",
+        'Access-Control-Allow-Origin': '*',
+      }
+    }
+  )
+})
+
+/* To invoke locally:
+
+  1. Run `supabase functions serve --env-file .env`
+
+  2. Check the watches that are due:
+
+  curl -i --location --request POST 'http://127.0.0.1:54321/functions/v1/watch-urls' \
+    --header 'Authorization: Bearer <service role key>' \
+    --header 'Content-Type: application/json' \
+    --data '{}'
+
+*/
@@ -0,0 +1,4 @@
+-- Record how each summary was produced so we can tell which ones covered the whole page.
+-- summary_strategy: 'single' (content fit in one model call) or 'map_reduce' (chunked)
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS chunk_count INTEGER;
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS summary_strategy TEXT;
@@ -0,0 +1,12 @@
+-- Per-prompt model selection. NULL columns fall back to the edge function defaults
+-- (LLM_PROVIDER, the provider's default model, temperature 0.7, 500 max tokens).
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS provider TEXT
+    CHECK (provider IN ('openai', 'anthropic', 'openai_compatible'));
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS model TEXT;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS temperature REAL
+    CHECK (temperature >= 0 AND temperature <= 2);
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS max_tokens INTEGER
+    CHECK (max_tokens > 0);
+
+-- The model that actually produced each summary, as reported by the provider
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS model TEXT;
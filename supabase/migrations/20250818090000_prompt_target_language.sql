@@ -0,0 +1,2 @@
+-- Value of the {{target_language}} prompt variable; NULL renders as English
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS target_language TEXT;
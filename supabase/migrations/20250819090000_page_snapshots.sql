@@ -0,0 +1,22 @@
+-- Scrape cache: one row per distinct version of a page's extracted text.
+-- checked_at is bumped whenever the version is revalidated (fresh cache hit,
+-- 304 Not Modified, or identical content), so the latest row is the current page.
+CREATE TABLE IF NOT EXISTS page_snapshots (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    url TEXT NOT NULL,
+    content_hash TEXT NOT NULL,       -- SHA-256 of the extracted text
+    etag TEXT,
+    last_modified TEXT,
+    title TEXT,
+    published_date TEXT,
+    text TEXT NOT NULL,
+    fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (url, content_hash)
+);
+
+CREATE INDEX IF NOT EXISTS page_snapshots_url_checked_at_idx ON page_snapshots (url, checked_at DESC);
+
+-- The snapshot each summary was built from
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL;
@@ -0,0 +1,2 @@
+-- Page count for PDF documents (NULL for web pages)
+ALTER TABLE page_snapshots ADD COLUMN IF NOT EXISTS page_count INTEGER;
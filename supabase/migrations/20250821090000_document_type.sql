@@ -0,0 +1,4 @@
+-- Kind of document detected when scraping: html, pdf, feed, json, markdown or text
+ALTER TABLE page_snapshots ADD COLUMN IF NOT EXISTS document_type TEXT;
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS document_type TEXT
+    CHECK (document_type IN ('html', 'pdf', 'feed', 'json', 'markdown', 'text'));
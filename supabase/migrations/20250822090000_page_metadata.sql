@@ -0,0 +1,13 @@
+-- Page metadata copied onto urls when a page is scraped
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS title TEXT;
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS author TEXT;
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS published_date TEXT;
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS canonical_url TEXT;
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS site_name TEXT;
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS image_url TEXT;
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS favicon_url TEXT;
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS language TEXT;
+
+-- The same metadata as extracted for each snapshot, so cached scrapes can restore it
+ALTER TABLE page_snapshots ADD COLUMN IF NOT EXISTS metadata JSONB;
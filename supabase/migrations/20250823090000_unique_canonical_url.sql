@@ -0,0 +1,9 @@
+-- urls.canonical_url identifies a page (see supabase/functions/_shared/urls.ts);
+-- saving the same page again reuses its row.
+
+-- Existing duplicates keep their rows; only the oldest keeps the canonical URL
+UPDATE urls SET canonical_url = NULL
+WHERE canonical_url IS NOT NULL
+  AND id NOT IN (SELECT MIN(id) FROM urls WHERE canonical_url IS NOT NULL GROUP BY canonical_url);
+
+CREATE UNIQUE INDEX IF NOT EXISTS urls_canonical_url_key ON urls (canonical_url);
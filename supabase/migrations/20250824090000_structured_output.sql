@@ -0,0 +1,38 @@
+-- Optional JSON Schema on prompts; summaries for those prompts are stored as JSON
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS output_schema JSONB;
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS structured_response JSONB;
+
+-- Structured versions of two of the default prompts (left alone if already customised)
+UPDATE prompts SET output_schema = '{
+  "type": "object",
+  "properties": {
+    "insights": {
+      "type": "array",
+      "minItems": 1,
+      "maxItems": 5,
+      "items": {
+        "type": "object",
+        "properties": {
+          "insight": { "type": "string" },
+          "why_it_matters": { "type": "string" }
+        },
+        "required": ["insight", "why_it_matters"]
+      }
+    }
+  },
+  "required": ["insights"]
+}'::jsonb
+WHERE prompt_name = 'Key Insights' AND output_schema IS NULL;
+
+UPDATE prompts SET output_schema = '{
+  "type": "object",
+  "properties": {
+    "summary": { "type": "string" },
+    "implications": { "type": "array", "items": { "type": "string" } },
+    "opportunities": { "type": "array", "items": { "type": "string" } },
+    "risks": { "type": "array", "items": { "type": "string" } },
+    "strategies": { "type": "array", "items": { "type": "string" } }
+  },
+  "required": ["summary", "implications", "opportunities"]
+}'::jsonb
+WHERE prompt_name = 'Business Analysis' AND output_schema IS NULL;
@@ -0,0 +1,32 @@
+-- Token usage, timings and estimated cost per summary
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER;
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS completion_tokens INTEGER;
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS tokens_estimated BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6);
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS scrape_ms INTEGER;
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS llm_ms INTEGER;
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS total_ms INTEGER;
+
+-- Signed-in user who requested the summary (NULL for anonymous requests)
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS url_summery_created_at_idx ON url_summery (created_at);
+
+-- Spend per day, prompt and user
+CREATE OR REPLACE VIEW summary_usage AS
+SELECT
+    (s.created_at AT TIME ZONE 'UTC')::date AS day,
+    s.prompt_id,
+    p.prompt_name,
+    s.user_id,
+    COUNT(*) AS summaries,
+    COALESCE(SUM(s.prompt_tokens), 0) AS prompt_tokens,
+    COALESCE(SUM(s.completion_tokens), 0) AS completion_tokens,
+    COALESCE(SUM(s.cost_usd), 0) AS cost_usd,
+    COUNT(*) FILTER (WHERE s.prompt_tokens IS NOT NULL AND s.cost_usd IS NULL) AS unpriced_summaries,
+    ROUND(AVG(s.scrape_ms)) AS avg_scrape_ms,
+    ROUND(AVG(s.llm_ms)) AS avg_llm_ms,
+    ROUND(AVG(s.total_ms)) AS avg_total_ms
+FROM url_summery s
+LEFT JOIN prompts p ON p.id = s.prompt_id
+GROUP BY 1, 2, 3, 4;
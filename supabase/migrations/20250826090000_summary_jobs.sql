@@ -0,0 +1,78 @@
+-- Asynchronous summarization: jobs are queued by process-url / summerize_url
+-- and run by the summary-worker function
+CREATE TABLE IF NOT EXISTS summary_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    url_id BIGINT NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+    prompt_id BIGINT NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    force_refresh BOOLEAN NOT NULL DEFAULT FALSE,
+    merge_duplicate BOOLEAN NOT NULL DEFAULT FALSE, -- URL row was created for this job; merge it if the page turns out to be saved already
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- not claimed before this (retry backoff)
+    locked_until TIMESTAMP WITH TIME ZONE, -- lease of the worker running the job
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    progress TEXT,                    -- latest status note while running
+    error_code TEXT,                  -- stable code from _shared/errors.ts
+    error_message TEXT,
+    summary_id BIGINT REFERENCES url_summery(id) ON DELETE SET NULL,
+    result JSONB                      -- same payload as the synchronous process-url response
+);
+
+CREATE INDEX IF NOT EXISTS summary_jobs_pending_idx ON summary_jobs (run_after) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS summary_jobs_url_id_idx ON summary_jobs (url_id, created_at DESC);
+
+-- Claim up to batch_size jobs for a worker. Jobs whose worker died (lease expired)
+-- are picked up again until they run out of attempts.
+CREATE OR REPLACE FUNCTION claim_summary_jobs(batch_size INTEGER DEFAULT 1, lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF summary_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    UPDATE summary_jobs
+    SET status = 'failed',
+        error_code = 'job_interrupted',
+        error_message = 'The job stopped before it finished',
+        finished_at = NOW(),
+        locked_until = NULL
+    WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts;
+
+    RETURN QUERY
+    UPDATE summary_jobs AS job
+    SET status = 'running',
+        attempts = job.attempts + 1,
+        started_at = NOW(),
+        locked_until = NOW() + make_interval(secs => lease_seconds),
+        progress = NULL,
+        error_code = NULL,
+        error_message = NULL
+    WHERE job.id IN (
+        SELECT id FROM summary_jobs
+        WHERE (status = 'queued' AND run_after <= NOW())
+           OR (status = 'running' AND locked_until < NOW())
+        ORDER BY run_after, id
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING job.*;
+END;
+$$;
+
+-- For the edge functions (service role) only
+REVOKE EXECUTE ON FUNCTION claim_summary_jobs(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Live job status in the UI
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'summary_jobs'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE summary_jobs;
+    END IF;
+END;
+$$;
@@ -0,0 +1,78 @@
+-- Batch runs: one job per (URL, prompt) pair, queued by the process-batch function
+CREATE TABLE IF NOT EXISTS summary_batches (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    url_ids BIGINT[] NOT NULL,
+    prompt_ids BIGINT[] NOT NULL,
+    force_refresh BOOLEAN NOT NULL DEFAULT FALSE,
+    concurrency INTEGER NOT NULL DEFAULT 3 CHECK (concurrency > 0) -- jobs of the batch running at once
+);
+
+ALTER TABLE summary_jobs
+    ADD COLUMN IF NOT EXISTS batch_id BIGINT REFERENCES summary_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS summary_jobs_batch_id_idx ON summary_jobs (batch_id) WHERE batch_id IS NOT NULL;
+
+-- As before, but a batch job is only claimed while fewer than the batch's concurrency
+-- are running. Claims are serialized so two workers can't both take the last slot.
+CREATE OR REPLACE FUNCTION claim_summary_jobs(batch_size INTEGER DEFAULT 1, lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF summary_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('claim_summary_jobs'));
+
+    UPDATE summary_jobs
+    SET status = 'failed',
+        error_code = 'job_interrupted',
+        error_message = 'The job stopped before it finished',
+        finished_at = NOW(),
+        locked_until = NULL
+    WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts;
+
+    RETURN QUERY
+    UPDATE summary_jobs AS job
+    SET status = 'running',
+        attempts = job.attempts + 1,
+        started_at = NOW(),
+        locked_until = NOW() + make_interval(secs => lease_seconds),
+        progress = NULL,
+        error_code = NULL,
+        error_message = NULL
+    WHERE job.id IN (
+        SELECT candidate.id FROM summary_jobs AS candidate
+        LEFT JOIN summary_batches AS batch ON batch.id = candidate.batch_id
+        WHERE ((candidate.status = 'queued' AND candidate.run_after <= NOW())
+           OR (candidate.status = 'running' AND candidate.locked_until < NOW()))
+          AND (batch.id IS NULL OR batch.concurrency > (
+              SELECT COUNT(*) FROM summary_jobs AS sibling
+              WHERE sibling.batch_id = batch.id
+                AND sibling.status = 'running'
+                AND sibling.locked_until >= NOW()
+          ))
+        ORDER BY candidate.run_after, candidate.id
+        LIMIT batch_size
+        FOR UPDATE OF candidate SKIP LOCKED
+    )
+    RETURNING job.*;
+END;
+$$;
+
+-- Job counts per batch
+CREATE OR REPLACE VIEW summary_batch_progress AS
+SELECT
+    b.id AS batch_id,
+    b.created_at,
+    b.user_id,
+    b.concurrency,
+    COUNT(j.id) AS total,
+    COUNT(j.id) FILTER (WHERE j.status = 'queued') AS queued,
+    COUNT(j.id) FILTER (WHERE j.status = 'running') AS running,
+    COUNT(j.id) FILTER (WHERE j.status = 'succeeded') AS succeeded,
+    COUNT(j.id) FILTER (WHERE j.status = 'failed') AS failed,
+    COUNT(j.id) FILTER (WHERE j.status = 'cancelled') AS cancelled,
+    MAX(j.finished_at) AS last_finished_at
+FROM summary_batches b
+LEFT JOIN summary_jobs j ON j.batch_id = b.id
+GROUP BY b.id;
@@ -0,0 +1,6 @@
+-- Bulk import (import-urls): what the bookmarking or read-later service knew about each link
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS saved_at TIMESTAMP WITH TIME ZONE; -- when the link was saved there
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS import_source TEXT;                -- import format; NULL for links added in the app
+
+CREATE INDEX IF NOT EXISTS urls_tags_idx ON urls USING GIN (tags);
@@ -0,0 +1,66 @@
+-- Watched URLs: re-scraped on a schedule by the watch-urls function. When the text
+-- differs enough from the snapshot of the last change, the change is recorded and
+-- the watch's prompt is run again.
+CREATE TABLE IF NOT EXISTS url_watches (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    url_id BIGINT NOT NULL UNIQUE REFERENCES urls(id) ON DELETE CASCADE,
+    prompt_id BIGINT REFERENCES prompts(id) ON DELETE SET NULL, -- re-run on change; NULL only records the change
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    interval_minutes INTEGER NOT NULL DEFAULT 1440 CHECK (interval_minutes >= 15),
+    min_change_ratio NUMERIC(5,4) NOT NULL DEFAULT 0.02, -- share of the text that must change to count
+    next_check_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE, -- held while a check runs
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    last_snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL, -- compared against; moves on each recorded change
+    last_change_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS url_watches_due_idx ON url_watches (next_check_at) WHERE enabled;
+
+-- Meaningful changes found by watch-urls
+CREATE TABLE IF NOT EXISTS url_changes (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    url_id BIGINT NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+    watch_id BIGINT REFERENCES url_watches(id) ON DELETE SET NULL,
+    previous_snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL,
+    snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL,
+    change_ratio NUMERIC(5,4) NOT NULL,
+    added_lines INTEGER NOT NULL,
+    removed_lines INTEGER NOT NULL,
+    diff JSONB NOT NULL,              -- hunks from _shared/diff.ts
+    previous_summary_id BIGINT REFERENCES url_summery(id) ON DELETE SET NULL, -- latest summary before the change
+    job_id BIGINT REFERENCES summary_jobs(id) ON DELETE SET NULL,             -- re-run of the watch's prompt
+    acknowledged_at TIMESTAMP WITH TIME ZONE -- dismissed in the UI
+);
+
+CREATE INDEX IF NOT EXISTS url_changes_url_id_idx ON url_changes (url_id, created_at DESC);
+
+-- Claim due watches for a check. Checks whose function died are retried once the
+-- lock expires.
+CREATE OR REPLACE FUNCTION claim_due_watches(batch_size INTEGER DEFAULT 10, lock_seconds INTEGER DEFAULT 300)
+RETURNS SETOF url_watches
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE url_watches AS watch
+    SET locked_until = NOW() + make_interval(secs => lock_seconds)
+    WHERE watch.id IN (
+        SELECT id FROM url_watches
+        WHERE enabled
+          AND next_check_at <= NOW()
+          AND (locked_until IS NULL OR locked_until < NOW())
+        ORDER BY next_check_at
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING watch.*;
+END;
+$$;
+
+-- For the edge functions (service role) only
+REVOKE EXECUTE ON FUNCTION claim_due_watches(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
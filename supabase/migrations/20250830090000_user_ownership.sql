@@ -0,0 +1,111 @@
+-- Every URL, prompt and summary belongs to the signed-in user who created it, and Row
+-- Level Security keeps each user to their own rows. The browser uses the user's
+-- session; the edge functions use the service role and check the caller's JWT
+-- themselves (see supabase/functions/_shared/auth.ts).
+--
+-- Rows created before this migration have no owner and are hidden from every user.
+-- Hand them to an account with, for example:
+--   UPDATE urls SET user_id = '<user id>' WHERE user_id IS NULL;
+--   UPDATE url_summery SET user_id = '<user id>' WHERE user_id IS NULL;
+-- Prompts without an owner stay shared: every user can read and run them, nobody can
+-- change them.
+
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE;
+ALTER TABLE url_summery ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE summary_jobs ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE summary_batches ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE url_watches ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+CREATE INDEX IF NOT EXISTS prompts_user_id_idx ON prompts (user_id);
+CREATE INDEX IF NOT EXISTS url_summery_user_id_idx ON url_summery (user_id);
+
+-- The same page can be saved once per user
+ALTER TABLE urls DROP CONSTRAINT IF EXISTS urls_canonical_url_key;
+DROP INDEX IF EXISTS urls_canonical_url_key;
+CREATE UNIQUE INDEX IF NOT EXISTS urls_user_canonical_url_key ON urls (user_id, canonical_url);
+
+ALTER TABLE urls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE url_summery ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE summary_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE summary_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE url_watches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE url_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own URLs" ON urls
+    FOR ALL TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users read their own and shared prompts" ON prompts
+    FOR SELECT TO authenticated
+    USING (user_id IS NULL OR user_id = auth.uid());
+
+CREATE POLICY "Users manage their own prompts" ON prompts
+    FOR ALL TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+-- Summaries are written by the edge functions
+CREATE POLICY "Users read their own summaries" ON url_summery
+    FOR SELECT TO authenticated
+    USING (user_id = auth.uid());
+
+-- The scrape cache is shared between users; each sees the snapshots behind their summaries
+CREATE POLICY "Users read snapshots of their summaries" ON page_snapshots
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM url_summery s WHERE s.snapshot_id = page_snapshots.id AND s.user_id = auth.uid()
+    ));
+
+CREATE POLICY "Users read their own batches" ON summary_batches
+    FOR SELECT TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users read their own jobs" ON summary_jobs
+    FOR SELECT TO authenticated
+    USING (user_id = auth.uid());
+
+-- Jobs are cancelled from the browser; only the columns that takes can change, and
+-- only an unfinished job can be moved, and only to cancelled
+CREATE POLICY "Users cancel their own jobs" ON summary_jobs
+    FOR UPDATE TO authenticated
+    USING (user_id = auth.uid() AND status IN ('queued', 'running'))
+    WITH CHECK (user_id = auth.uid() AND status = 'cancelled');
+
+REVOKE UPDATE ON summary_jobs FROM anon, authenticated;
+GRANT UPDATE (status, finished_at, locked_until, progress) ON summary_jobs TO authenticated;
+
+CREATE POLICY "Users manage watches on their own URLs" ON url_watches
+    FOR ALL TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (
+        user_id = auth.uid()
+        AND EXISTS (SELECT 1 FROM urls WHERE urls.id = url_watches.url_id AND urls.user_id = auth.uid())
+        AND (prompt_id IS NULL OR EXISTS (
+            SELECT 1 FROM prompts
+            WHERE prompts.id = url_watches.prompt_id AND (prompts.user_id IS NULL OR prompts.user_id = auth.uid())
+        ))
+    );
+
+CREATE POLICY "Users read changes to their own URLs" ON url_changes
+    FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM urls WHERE urls.id = url_changes.url_id AND urls.user_id = auth.uid()));
+
+-- Changes are dismissed from the browser
+CREATE POLICY "Users dismiss changes to their own URLs" ON url_changes
+    FOR UPDATE TO authenticated
+    USING (EXISTS (SELECT 1 FROM urls WHERE urls.id = url_changes.url_id AND urls.user_id = auth.uid()));
+
+REVOKE UPDATE ON url_changes FROM anon, authenticated;
+GRANT UPDATE (acknowledged_at) ON url_changes TO authenticated;
+
+-- The views apply the policies of the querying user instead of their owner's
+ALTER VIEW summary_usage SET (security_invoker = true);
+ALTER VIEW summary_batch_progress SET (security_invoker = true);
+
+-- Queue functions are for the edge functions (service role) only
+REVOKE EXECUTE ON FUNCTION claim_summary_jobs(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_due_watches(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,400 @@
+-- Shared workspaces. URLs, prompts and summaries belong to a workspace rather than to
+-- one user. Members are owners (manage members and invitations), editors (add and
+-- change content, run prompts) or viewers (read only). Every user has a personal
+-- workspace, created when they sign up. Invitations are sent by the invite-member
+-- function and accepted with accept_workspace_invite().
+CREATE TABLE IF NOT EXISTS workspaces (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    personal BOOLEAN NOT NULL DEFAULT FALSE -- created for created_by when they signed up
+);
+
+CREATE TABLE IF NOT EXISTS workspace_members (
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    email TEXT,                       -- shown in the member list
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS workspace_members_user_id_idx ON workspace_members (user_id);
+
+CREATE TABLE IF NOT EXISTS workspace_invites (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    workspace_name TEXT NOT NULL,     -- shown to the invitee, who can't read the workspace yet
+    email TEXT NOT NULL,              -- lowercased
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '14 days',
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (workspace_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS workspace_invites_email_idx ON workspace_invites (email);
+
+-- Role of the signed-in user in a workspace, NULL when they aren't a member. Security
+-- definer, so the policies on workspace_members can use it without recursing.
+CREATE OR REPLACE FUNCTION workspace_role(ws BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM workspace_members WHERE workspace_id = ws AND user_id = auth.uid();
+$$;
+
+-- The signed-in user's email address, lowercased, once they have confirmed it; NULL
+-- before. Invitations are matched on it, so an account signed up with someone else's
+-- address can't see or accept their invitations.
+CREATE OR REPLACE FUNCTION confirmed_email()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT lower(email) FROM auth.users WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+$$;
+
+-- Personal workspace for every new account
+CREATE OR REPLACE FUNCTION create_personal_workspace()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    personal_id BIGINT;
+BEGIN
+    INSERT INTO workspaces (name, created_by, personal) VALUES ('Personal', NEW.id, TRUE)
+    RETURNING id INTO personal_id;
+    INSERT INTO workspace_members (workspace_id, user_id, email, role) VALUES (personal_id, NEW.id, NEW.email, 'owner');
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.create_personal_workspace();
+
+-- Existing accounts get theirs now
+DO $$
+DECLARE
+    account RECORD;
+    personal_id BIGINT;
+BEGIN
+    FOR account IN
+        SELECT u.id, u.email FROM auth.users u
+        WHERE NOT EXISTS (SELECT 1 FROM workspaces w WHERE w.created_by = u.id AND w.personal)
+    LOOP
+        INSERT INTO workspaces (name, created_by, personal) VALUES ('Personal', account.id, TRUE)
+        RETURNING id INTO personal_id;
+        INSERT INTO workspace_members (workspace_id, user_id, email, role) VALUES (personal_id, account.id, account.email, 'owner');
+    END LOOP;
+END;
+$$;
+
+-- Content moves into the owner's personal workspace. user_id stays as the row's creator
+-- (for summaries, whoever ran the prompt). Prompts without a workspace are shared
+-- with every workspace.
+ALTER TABLE urls ADD COLUMN IF NOT EXISTS workspace_id BIGINT REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS workspace_id BIGINT REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE url_summery ADD COLUMN IF NOT EXISTS workspace_id BIGINT REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE summary_batches ADD COLUMN IF NOT EXISTS workspace_id BIGINT REFERENCES workspaces(id) ON DELETE CASCADE;
+
+UPDATE urls SET workspace_id = w.id
+FROM workspaces w
+WHERE w.personal AND w.created_by = urls.user_id AND urls.workspace_id IS NULL;
+
+UPDATE prompts SET workspace_id = w.id
+FROM workspaces w
+WHERE w.personal AND w.created_by = prompts.user_id AND prompts.workspace_id IS NULL;
+
+UPDATE url_summery SET workspace_id = u.workspace_id
+FROM urls u
+WHERE u.id = url_summery.url_id AND url_summery.workspace_id IS NULL;
+
+UPDATE summary_batches SET workspace_id = w.id
+FROM workspaces w
+WHERE w.personal AND w.created_by = summary_batches.user_id AND summary_batches.workspace_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS urls_workspace_id_idx ON urls (workspace_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS prompts_workspace_id_idx ON prompts (workspace_id);
+CREATE INDEX IF NOT EXISTS url_summery_workspace_id_idx ON url_summery (workspace_id);
+
+-- The same page can be saved once per workspace
+ALTER TABLE urls DROP CONSTRAINT IF EXISTS urls_user_id_canonical_url_key;
+DROP INDEX IF EXISTS urls_user_canonical_url_key;
+CREATE UNIQUE INDEX IF NOT EXISTS urls_workspace_canonical_url_key ON urls (workspace_id, canonical_url);
+
+-- Workspace members replace row owners in the policies
+DROP POLICY IF EXISTS "Users manage their own URLs" ON urls;
+DROP POLICY IF EXISTS "Users read their own and shared prompts" ON prompts;
+DROP POLICY IF EXISTS "Users manage their own prompts" ON prompts;
+DROP POLICY IF EXISTS "Users read their own summaries" ON url_summery;
+DROP POLICY IF EXISTS "Users read snapshots of their summaries" ON page_snapshots;
+DROP POLICY IF EXISTS "Users read their own batches" ON summary_batches;
+DROP POLICY IF EXISTS "Users read their own jobs" ON summary_jobs;
+DROP POLICY IF EXISTS "Users cancel their own jobs" ON summary_jobs;
+DROP POLICY IF EXISTS "Users manage watches on their own URLs" ON url_watches;
+DROP POLICY IF EXISTS "Users read changes to their own URLs" ON url_changes;
+DROP POLICY IF EXISTS "Users dismiss changes to their own URLs" ON url_changes;
+
+ALTER TABLE workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workspace_invites ENABLE ROW LEVEL SECURITY;
+
+-- Workspaces are created with create_workspace()
+CREATE POLICY "Members read their workspaces" ON workspaces
+    FOR SELECT TO authenticated
+    USING (workspace_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners rename workspaces" ON workspaces
+    FOR UPDATE TO authenticated
+    USING (workspace_role(id) = 'owner');
+
+REVOKE UPDATE ON workspaces FROM anon, authenticated;
+GRANT UPDATE (name) ON workspaces TO authenticated;
+
+-- Members join with accept_workspace_invite()
+CREATE POLICY "Members read the member list" ON workspace_members
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Owners change roles" ON workspace_members
+    FOR UPDATE TO authenticated
+    USING (workspace_role(workspace_id) = 'owner')
+    WITH CHECK (workspace_role(workspace_id) = 'owner');
+
+REVOKE UPDATE ON workspace_members FROM anon, authenticated;
+GRANT UPDATE (role) ON workspace_members TO authenticated;
+
+CREATE POLICY "Owners remove members and members leave" ON workspace_members
+    FOR DELETE TO authenticated
+    USING (workspace_role(workspace_id) = 'owner' OR user_id = auth.uid());
+
+-- Users can't leave a workspace without an owner. Changes made with the service role
+-- (deleting an account, for instance) aren't checked.
+CREATE OR REPLACE FUNCTION keep_workspace_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL
+       AND OLD.role = 'owner'
+       AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+       AND NOT EXISTS (
+           SELECT 1 FROM workspace_members
+           WHERE workspace_id = OLD.workspace_id AND role = 'owner' AND user_id <> OLD.user_id
+       ) THEN
+        RAISE EXCEPTION 'A workspace needs at least one owner';
+    END IF;
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS keep_workspace_owner ON workspace_members;
+CREATE TRIGGER keep_workspace_owner
+    BEFORE UPDATE OR DELETE ON workspace_members
+    FOR EACH ROW EXECUTE FUNCTION keep_workspace_owner();
+
+-- Invitations are created by the invite-member function
+CREATE POLICY "Owners and invitees read invitations" ON workspace_invites
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) = 'owner' OR email = confirmed_email());
+
+CREATE POLICY "Owners revoke and invitees decline invitations" ON workspace_invites
+    FOR DELETE TO authenticated
+    USING (workspace_role(workspace_id) = 'owner' OR email = confirmed_email());
+
+CREATE POLICY "Members read workspace URLs" ON urls
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Editors manage workspace URLs" ON urls
+    FOR ALL TO authenticated
+    USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+    WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- The sample prompts have no workspace and are shared with every user
+CREATE POLICY "Members read workspace and shared prompts" ON prompts
+    FOR SELECT TO authenticated
+    USING (workspace_id IS NULL OR workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Editors manage workspace prompts" ON prompts
+    FOR ALL TO authenticated
+    USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+    WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- Summaries are written by the edge functions
+CREATE POLICY "Members read workspace summaries" ON url_summery
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Members read snapshots of workspace summaries" ON page_snapshots
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM url_summery s
+        WHERE s.snapshot_id = page_snapshots.id AND workspace_role(s.workspace_id) IS NOT NULL
+    ));
+
+CREATE POLICY "Members read workspace batches" ON summary_batches
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Members read jobs for workspace URLs" ON summary_jobs
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = summary_jobs.url_id AND workspace_role(urls.workspace_id) IS NOT NULL
+    ));
+
+-- Only an unfinished job can be moved, and only to cancelled
+CREATE POLICY "Editors cancel jobs for workspace URLs" ON summary_jobs
+    FOR UPDATE TO authenticated
+    USING (
+        status IN ('queued', 'running')
+        AND EXISTS (
+            SELECT 1 FROM urls WHERE urls.id = summary_jobs.url_id AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+        )
+    )
+    WITH CHECK (
+        status = 'cancelled'
+        AND EXISTS (
+            SELECT 1 FROM urls WHERE urls.id = summary_jobs.url_id AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+        )
+    );
+
+CREATE POLICY "Members read watches on workspace URLs" ON url_watches
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = url_watches.url_id AND workspace_role(urls.workspace_id) IS NOT NULL
+    ));
+
+CREATE POLICY "Editors manage watches on workspace URLs" ON url_watches
+    FOR ALL TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = url_watches.url_id AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+    ))
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM urls
+        WHERE urls.id = url_watches.url_id
+          AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+          AND (url_watches.prompt_id IS NULL OR EXISTS (
+              SELECT 1 FROM prompts
+              WHERE prompts.id = url_watches.prompt_id
+                AND (prompts.workspace_id IS NULL OR prompts.workspace_id = urls.workspace_id)
+          ))
+    ));
+
+CREATE POLICY "Members read changes to workspace URLs" ON url_changes
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = url_changes.url_id AND workspace_role(urls.workspace_id) IS NOT NULL
+    ));
+
+CREATE POLICY "Editors dismiss changes to workspace URLs" ON url_changes
+    FOR UPDATE TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM urls WHERE urls.id = url_changes.url_id AND workspace_role(urls.workspace_id) IN ('owner', 'editor')
+    ));
+
+-- New workspace with the caller as its owner
+CREATE OR REPLACE FUNCTION create_workspace(workspace_name TEXT)
+RETURNS workspaces
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    created workspaces;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to create a workspace';
+    END IF;
+
+    INSERT INTO workspaces (name, created_by) VALUES (trim(workspace_name), auth.uid())
+    RETURNING * INTO created;
+    INSERT INTO workspace_members (workspace_id, user_id, email, role)
+    VALUES (created.id, auth.uid(), auth.jwt() ->> 'email', 'owner');
+    RETURN created;
+END;
+$$;
+
+-- Join the workspace of an invitation sent to the caller's confirmed email address.
+-- Returns the workspace id; a member keeps the role they already have.
+CREATE OR REPLACE FUNCTION accept_workspace_invite(invite_id BIGINT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    invite workspace_invites;
+BEGIN
+    SELECT * INTO invite FROM workspace_invites
+    WHERE id = invite_id
+      AND email = confirmed_email()
+      AND accepted_at IS NULL
+      AND expires_at > NOW();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'The invitation was not found or has expired';
+    END IF;
+
+    INSERT INTO workspace_members (workspace_id, user_id, email, role)
+    VALUES (invite.workspace_id, auth.uid(), invite.email, invite.role)
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+    UPDATE workspace_invites SET accepted_at = NOW() WHERE id = invite.id;
+    RETURN invite.workspace_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_workspace(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION accept_workspace_invite(BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_workspace(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_workspace_invite(BIGINT) TO authenticated;
+
+-- Batch progress and spend per workspace
+CREATE OR REPLACE VIEW summary_batch_progress WITH (security_invoker = true) AS
+SELECT
+    b.id AS batch_id,
+    b.created_at,
+    b.user_id,
+    b.concurrency,
+    COUNT(j.id) AS total,
+    COUNT(j.id) FILTER (WHERE j.status = 'queued') AS queued,
+    COUNT(j.id) FILTER (WHERE j.status = 'running') AS running,
+    COUNT(j.id) FILTER (WHERE j.status = 'succeeded') AS succeeded,
+    COUNT(j.id) FILTER (WHERE j.status = 'failed') AS failed,
+    COUNT(j.id) FILTER (WHERE j.status = 'cancelled') AS cancelled,
+    MAX(j.finished_at) AS last_finished_at,
+    b.workspace_id
+FROM summary_batches b
+LEFT JOIN summary_jobs j ON j.batch_id = b.id
+GROUP BY b.id;
+
+CREATE OR REPLACE VIEW summary_usage WITH (security_invoker = true) AS
+SELECT
+    (s.created_at AT TIME ZONE 'UTC')::date AS day,
+    s.prompt_id,
+    p.prompt_name,
+    s.user_id,
+    COUNT(*) AS summaries,
+    COALESCE(SUM(s.prompt_tokens), 0) AS prompt_tokens,
+    COALESCE(SUM(s.completion_tokens), 0) AS completion_tokens,
+    COALESCE(SUM(s.cost_usd), 0) AS cost_usd,
+    COUNT(*) FILTER (WHERE s.prompt_tokens IS NOT NULL AND s.cost_usd IS NULL) AS unpriced_summaries,
+    ROUND(AVG(s.scrape_ms)) AS avg_scrape_ms,
+    ROUND(AVG(s.llm_ms)) AS avg_llm_ms,
+    ROUND(AVG(s.total_ms)) AS avg_total_ms,
+    s.workspace_id
+FROM url_summery s
+LEFT JOIN prompts p ON p.id = s.prompt_id
+GROUP BY 1, 2, 3, 4, s.workspace_id;
@@ -0,0 +1,60 @@
+-- Personal API keys for the api edge function. A key acts as the user who created
+-- it, with their roles in their workspaces. Only a SHA-256 hash of the key is
+-- stored; the key itself is shown once, when it is created.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    key_prefix TEXT NOT NULL,         -- first characters of the key, to tell keys apart
+    key_hash TEXT NOT NULL UNIQUE,    -- hex SHA-256 of the key
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_user_id_idx ON api_keys (user_id, created_at DESC);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are created with create_api_key() and revoked from the browser; the hash
+-- stays with the service role
+CREATE POLICY "Users read their API keys" ON api_keys
+    FOR SELECT TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users revoke their API keys" ON api_keys
+    FOR UPDATE TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+REVOKE SELECT, UPDATE ON api_keys FROM anon, authenticated;
+GRANT SELECT (id, created_at, user_id, name, key_prefix, last_used_at, revoked_at) ON api_keys TO authenticated;
+GRANT UPDATE (revoked_at) ON api_keys TO authenticated;
+
+-- gen_random_bytes() and digest(); enabled on Supabase projects by default
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- New API key for the caller. Returns the key, which can't be read back later.
+CREATE OR REPLACE FUNCTION create_api_key(key_name TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    new_key TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to create an API key';
+    END IF;
+
+    new_key := 'usk_' || encode(extensions.gen_random_bytes(24), 'hex');
+    INSERT INTO api_keys (user_id, name, key_prefix, key_hash)
+    VALUES (auth.uid(), trim(key_name), left(new_key, 12), encode(extensions.digest(new_key, 'sha256'), 'hex'));
+    RETURN new_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_api_key(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_api_key(TEXT) TO authenticated;
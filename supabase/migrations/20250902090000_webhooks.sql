@@ -0,0 +1,91 @@
+-- Outgoing webhooks. Owners and editors register endpoints for a workspace with the
+-- events they want; each event queues one webhook_deliveries row per matching
+-- endpoint, which the deliver-webhooks function sends signed with the endpoint's
+-- secret and retries with backoff. The rows double as the delivery log.
+
+CREATE TABLE IF NOT EXISTS webhooks (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL, -- creator
+    url TEXT NOT NULL CHECK (url ~ '^https?://'),
+    description TEXT,
+    events TEXT[] NOT NULL CHECK (
+        cardinality(events) > 0
+        AND events <@ ARRAY['summary.created', 'summary.failed', 'url.changed']::TEXT[]
+    ),
+    secret TEXT NOT NULL DEFAULT 'whsec_' || encode(extensions.gen_random_bytes(24), 'hex'), -- HMAC key for X-Webhook-Signature
+    enabled BOOLEAN NOT NULL DEFAULT TRUE
+);
+
+CREATE INDEX IF NOT EXISTS webhooks_workspace_id_idx ON webhooks (workspace_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    webhook_id BIGINT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,           -- request body without the delivery id
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 6,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- not claimed before this (retry backoff)
+    locked_until TIMESTAMP WITH TIME ZONE, -- held while an attempt runs
+    last_attempt_at TIMESTAMP WITH TIME ZONE,
+    response_status INTEGER,
+    response_body TEXT,               -- start of the endpoint's response
+    error TEXT,                       -- why the last attempt failed
+    duration_ms INTEGER,
+    replay_of BIGINT REFERENCES webhook_deliveries(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_pending_idx ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_id_idx ON webhook_deliveries (webhook_id, created_at DESC);
+
+-- Claim due deliveries for an attempt. Attempts whose function died are retried once
+-- the lock expires.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(batch_size INTEGER DEFAULT 10, lock_seconds INTEGER DEFAULT 60)
+RETURNS SETOF webhook_deliveries
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE webhook_deliveries AS delivery
+    SET locked_until = NOW() + make_interval(secs => lock_seconds),
+        attempts = delivery.attempts + 1
+    WHERE delivery.id IN (
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'pending'
+          AND next_attempt_at <= NOW()
+          AND (locked_until IS NULL OR locked_until < NOW())
+        ORDER BY next_attempt_at
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING delivery.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Webhooks hold their signing secret, so viewers don't see them
+CREATE POLICY "Editors manage workspace webhooks" ON webhooks
+    FOR ALL TO authenticated
+    USING (workspace_role(workspace_id) IN ('owner', 'editor'))
+    WITH CHECK (workspace_role(workspace_id) IN ('owner', 'editor'));
+
+-- The secret is generated by the table
+REVOKE INSERT, UPDATE ON webhooks FROM anon, authenticated;
+GRANT INSERT (workspace_id, url, description, events, enabled) ON webhooks TO authenticated;
+GRANT UPDATE (url, description, events, enabled) ON webhooks TO authenticated;
+
+-- Deliveries are written by the edge functions
+CREATE POLICY "Editors read deliveries of workspace webhooks" ON webhook_deliveries
+    FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM webhooks
+        WHERE webhooks.id = webhook_deliveries.webhook_id AND workspace_role(webhooks.workspace_id) IN ('owner', 'editor')
+    ));
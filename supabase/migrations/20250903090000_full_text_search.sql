@@ -0,0 +1,128 @@
+-- Full-text search over a workspace's URLs (url, caption, title) and summaries
+-- (ai_response, scraped_data). The documents are built by immutable functions so
+-- the GIN indexes and search_urls() use the same expression; nothing is stored on
+-- the rows, which the app reads with select *.
+
+-- Caption and title weigh more than words in the address
+CREATE OR REPLACE FUNCTION url_search_vector(url_text TEXT, caption_text TEXT, title_text TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE PARALLEL SAFE
+AS $$
+    SELECT setweight(to_tsvector('english', concat_ws(' ', caption_text, title_text)), 'A')
+        || setweight(to_tsvector('english', coalesce(url_text, '')), 'B');
+$$;
+
+-- The response weighs more than the page it was written from. Only the start of very
+-- long pages is indexed, to stay under the tsvector size limit.
+CREATE OR REPLACE FUNCTION summary_search_vector(response_text TEXT, scraped_text TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE PARALLEL SAFE
+AS $$
+    SELECT setweight(to_tsvector('english', coalesce(response_text, '')), 'A')
+        || setweight(to_tsvector('english', left(coalesce(scraped_text, ''), 100000)), 'C');
+$$;
+
+CREATE INDEX IF NOT EXISTS urls_search_idx ON urls USING GIN (url_search_vector(url, caption, title));
+CREATE INDEX IF NOT EXISTS url_summery_search_idx ON url_summery USING GIN (summary_search_vector(ai_response, scraped_data));
+
+-- Search a workspace's URLs, best match first. search_query takes web search syntax
+-- ("quoted phrases", or, -excluded); an empty query lists every URL that passes the
+-- filters, newest first. Each row is a URL with its best matching summary, and the
+-- snippets mark the matched words with <mark></mark>. Runs as the caller, so Row Level
+-- Security limits it to workspaces they belong to.
+CREATE OR REPLACE FUNCTION search_urls(
+    target_workspace BIGINT,
+    search_query TEXT DEFAULT '',
+    prompt_filter BIGINT DEFAULT NULL,   -- only URLs with a summary from this prompt
+    domain_filter TEXT DEFAULT NULL,     -- host, including its subdomains
+    added_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    added_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    result_limit INTEGER DEFAULT 50,
+    result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    url_id BIGINT,
+    rank REAL,
+    url_snippet TEXT,
+    summary_id BIGINT,
+    prompt_id BIGINT,
+    prompt_name TEXT,
+    summary_snippet TEXT,
+    content_snippet TEXT,
+    matching_summaries INTEGER,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', coalesce(search_query, '')) AS q
+    ),
+    candidates AS (
+        SELECT u.id, u.url, u.caption, u.title, u.created_at
+        FROM urls u
+        WHERE u.workspace_id = target_workspace
+          AND (domain_filter IS NULL OR domain_filter = ''
+               OR lower(substring(u.url FROM '^[a-zA-Z]+://(?:www\.)?([^/:?#]+)')) = lower(domain_filter)
+               OR lower(substring(u.url FROM '^[a-zA-Z]+://([^/:?#]+)')) LIKE '%.' || lower(domain_filter))
+          AND (added_after IS NULL OR u.created_at >= added_after)
+          AND (added_before IS NULL OR u.created_at < added_before)
+          AND (prompt_filter IS NULL OR EXISTS (
+              SELECT 1 FROM url_summery s WHERE s.url_id = u.id AND s.prompt_id = prompt_filter
+          ))
+    ),
+    summary_hits AS (
+        SELECT DISTINCT ON (s.url_id)
+            s.url_id,
+            s.id,
+            ts_rank(summary_search_vector(s.ai_response, s.scraped_data), query.q) AS rank,
+            COUNT(*) OVER (PARTITION BY s.url_id) AS hits
+        FROM url_summery s, query
+        WHERE s.workspace_id = target_workspace
+          AND s.url_id IN (SELECT id FROM candidates)
+          AND (prompt_filter IS NULL OR s.prompt_id = prompt_filter)
+          AND summary_search_vector(s.ai_response, s.scraped_data) @@ query.q
+        ORDER BY s.url_id, rank DESC, s.id DESC
+    ),
+    ranked AS (
+        SELECT
+            c.id,
+            c.created_at,
+            -- A match in the caption or address counts twice
+            (2 * ts_rank(url_search_vector(c.url, c.caption, c.title), query.q) + coalesce(sh.rank, 0))::REAL AS rank,
+            sh.id AS summary_id,
+            coalesce(sh.hits, 0)::INTEGER AS hits,
+            COUNT(*) OVER () AS total_count
+        FROM candidates c
+        CROSS JOIN query
+        LEFT JOIN summary_hits sh ON sh.url_id = c.id
+        WHERE numnode(query.q) = 0
+           OR sh.id IS NOT NULL
+           OR url_search_vector(c.url, c.caption, c.title) @@ query.q
+        ORDER BY rank DESC, c.created_at DESC, c.id DESC
+        LIMIT result_limit
+        OFFSET result_offset
+    )
+    SELECT
+        r.id,
+        r.rank,
+        ts_headline('english', concat_ws(' · ', coalesce(u.title, u.caption), u.url), query.q,
+            'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+        s.id,
+        s.prompt_id,
+        p.prompt_name,
+        CASE WHEN s.id IS NOT NULL THEN ts_headline('english', coalesce(s.ai_response, ''), query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=12') END,
+        CASE WHEN s.id IS NOT NULL THEN ts_headline('english', left(coalesce(s.scraped_data, ''), 100000), query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=12') END,
+        r.hits,
+        r.total_count
+    FROM ranked r
+    JOIN urls u ON u.id = r.id
+    CROSS JOIN query
+    LEFT JOIN url_summery s ON s.id = r.summary_id
+    LEFT JOIN prompts p ON p.id = s.prompt_id
+    ORDER BY r.rank DESC, r.created_at DESC, r.id DESC;
+$$;
@@ -0,0 +1,133 @@
+-- Semantic search over saved pages. Each URL's scraped text is split into chunks and
+-- embedded by the edge functions (embeddings.ts); ask-library embeds a question,
+-- fetches the closest chunks with match_page_chunks() and answers from them.
+
+-- pgvector; available on Supabase projects, enabled here
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS page_chunks (
+    id BIGSERIAL PRIMARY KEY,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    url_id BIGINT NOT NULL REFERENCES urls(id) ON DELETE CASCADE,
+    snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL, -- the page version that was embedded
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    token_count INTEGER,
+    embedding_model TEXT NOT NULL,    -- provider/model; vectors are only compared within a model
+    embedding extensions.vector NOT NULL, -- any dimension, so the model can be changed
+    UNIQUE (url_id, embedding_model, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS page_chunks_workspace_model_idx ON page_chunks (workspace_id, embedding_model);
+
+-- One row per indexed URL, including pages without text, so they aren't tried again
+CREATE TABLE IF NOT EXISTS page_indexes (
+    url_id BIGINT PRIMARY KEY REFERENCES urls(id) ON DELETE CASCADE,
+    workspace_id BIGINT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    snapshot_id BIGINT REFERENCES page_snapshots(id) ON DELETE SET NULL,
+    embedding_model TEXT NOT NULL,
+    chunk_count INTEGER NOT NULL,
+    indexed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS page_indexes_workspace_model_idx ON page_indexes (workspace_id, embedding_model);
+
+-- The chunks are scanned exactly, which is quick for a personal or team library. For
+-- a large one, add an approximate index for the model in use, e.g.
+--   CREATE INDEX ON page_chunks USING hnsw ((embedding::extensions.vector(1536)) extensions.vector_cosine_ops)
+--       WHERE embedding_model = 'openai/text-embedding-3-small';
+-- and cast the same way in match_page_chunks().
+
+-- The chunks of a workspace closest in meaning to query_embedding, most similar
+-- first. Similarity is cosine similarity (1 is identical). Runs as the caller, so Row
+-- Level Security limits it to workspaces they belong to.
+CREATE OR REPLACE FUNCTION match_page_chunks(
+    target_workspace BIGINT,
+    query_embedding extensions.vector,
+    model TEXT,
+    match_count INTEGER DEFAULT 8,
+    min_similarity REAL DEFAULT 0
+)
+RETURNS TABLE (
+    id BIGINT,
+    url_id BIGINT,
+    chunk_index INTEGER,
+    content TEXT,
+    similarity REAL,
+    url TEXT,
+    title TEXT,
+    caption TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+    SELECT c.id, c.url_id, c.chunk_index, c.content, c.similarity, u.url, u.title, u.caption
+    FROM (
+        SELECT pc.id, pc.url_id, pc.chunk_index, pc.content,
+            (1 - (pc.embedding <=> query_embedding))::REAL AS similarity
+        FROM page_chunks pc
+        WHERE pc.workspace_id = target_workspace
+          AND pc.embedding_model = model
+          AND vector_dims(pc.embedding) = vector_dims(query_embedding)
+        ORDER BY pc.embedding <=> query_embedding
+        LIMIT match_count
+    ) c
+    JOIN urls u ON u.id = c.url_id
+    WHERE c.similarity >= min_similarity
+    ORDER BY c.similarity DESC;
+$$;
+
+-- Replace a URL's chunks, from any snapshot or model, with new ones in one
+-- transaction, and record the page as indexed. chunks is an array of
+-- {"content", "token_count", "embedding"} in chunk order; it may be empty.
+CREATE OR REPLACE FUNCTION replace_page_chunks(
+    target_url BIGINT,
+    target_workspace BIGINT,
+    snapshot BIGINT,
+    model TEXT,
+    chunks JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+    -- Concurrent indexing of the same URL waits instead of colliding on chunk_index
+    PERFORM 1 FROM urls WHERE id = target_url FOR UPDATE;
+
+    DELETE FROM page_chunks WHERE url_id = target_url;
+
+    INSERT INTO page_chunks (workspace_id, url_id, snapshot_id, chunk_index, content, token_count, embedding_model, embedding)
+    SELECT target_workspace, target_url, snapshot, (c.ordinality - 1)::INTEGER, c.value->>'content',
+        (c.value->>'token_count')::INTEGER, model, (c.value->>'embedding')::extensions.vector
+    FROM jsonb_array_elements(chunks) WITH ORDINALITY AS c(value, ordinality);
+
+    INSERT INTO page_indexes (url_id, workspace_id, snapshot_id, embedding_model, chunk_count, indexed_at)
+    VALUES (target_url, target_workspace, snapshot, model, jsonb_array_length(chunks), NOW())
+    ON CONFLICT (url_id) DO UPDATE SET
+        workspace_id = EXCLUDED.workspace_id,
+        snapshot_id = EXCLUDED.snapshot_id,
+        embedding_model = EXCLUDED.embedding_model,
+        chunk_count = EXCLUDED.chunk_count,
+        indexed_at = EXCLUDED.indexed_at;
+
+    RETURN jsonb_array_length(chunks);
+END;
+$$;
+
+ALTER TABLE page_chunks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_indexes ENABLE ROW LEVEL SECURITY;
+
+-- Chunks and indexes are written by the edge functions
+CREATE POLICY "Members read workspace page chunks" ON page_chunks
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+CREATE POLICY "Members read workspace page indexes" ON page_indexes
+    FOR SELECT TO authenticated
+    USING (workspace_role(workspace_id) IS NOT NULL);
+
+-- For the edge functions (service role) only
+REVOKE EXECUTE ON FUNCTION replace_page_chunks(BIGINT, BIGINT, BIGINT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
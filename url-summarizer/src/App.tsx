@@ -1,11 +1,25 @@
 import { useState, useEffect, useRef } from 'react'
+import type { Session } from '@supabase/supabase-js'
 import { supabase } from './lib/supabase'
+import AuthForm from './components/AuthForm'
 import EnteredURL from './components/EnteredURL'
 import UrlList from './components/UrlList'
+import AskPage from './components/AskPage'
 import PromptsPage from './components/PromptsPage'
+import UsagePage from './components/UsagePage'
+import ImportPage from './components/ImportPage'
+import ApiKeysPage from './components/ApiKeysPage'
+import WebhooksPage from './components/WebhooksPage'
+import WorkspaceSwitcher from './components/WorkspaceSwitcher'
+import {
+  fetchWorkspaces,
+  loadCurrentWorkspaceId,
+  storeCurrentWorkspaceId,
+  type Workspace
+} from './lib/workspaces'
 import './App.css'
 
-type Page = 'urls' | 'prompts'
+type Page = 'urls' | 'ask' | 'import' | 'prompts' | 'usage' | 'webhooks' | 'api'
 
 interface UrlListRef {
   refreshUrls: () => void;
@@ -18,7 +32,13 @@ interface PromptsPageRef {
 function App() {
   const [connected, setConnected] = useState<boolean | null>(null)
   const [loading, setLoading] = useState(true)
+  // undefined until the stored session has been read
+  const [session, setSession] = useState<Session | null | undefined>(undefined)
   const [currentPage, setCurrentPage] = useState<Page>('urls')
+  // null until the user's workspaces have been loaded
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null)
+  const [workspaceId, setWorkspaceId] = useState<number | null>(loadCurrentWorkspaceId)
+  const [workspaceError, setWorkspaceError] = useState('')
   const urlListRef = useRef<UrlListRef>(null)
   const promptsPageRef = useRef<PromptsPageRef>(null)
 
@@ -26,6 +46,57 @@ function App() {
     checkConnection()
   }, [])
 
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setSession(data.session))
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession)
+    })
+    return () => subscription.unsubscribe()
+  }, [])
+
+  const userId = session?.user.id
+  // Bumped to load the workspaces again after one is created, joined or left
+  const [workspacesVersion, setWorkspacesVersion] = useState(0)
+
+  // Keeps the current workspace while the user still belongs to it, otherwise
+  // falls back to the first one (their personal workspace)
+  useEffect(() => {
+    if (!userId) {
+      setWorkspaces(null)
+      return
+    }
+
+    const loadWorkspaces = async () => {
+      try {
+        setWorkspaceError('')
+        const list = await fetchWorkspaces(userId)
+        setWorkspaces(list)
+        setWorkspaceId(current => list.some(workspace => workspace.id === current) ? current : list[0]?.id ?? null)
+      } catch (error) {
+        setWorkspaces([])
+        setWorkspaceError((error as Error).message)
+      }
+    }
+
+    loadWorkspaces()
+  }, [userId, workspacesVersion])
+
+  const reloadWorkspaces = (selectId?: number) => {
+    if (selectId) setWorkspaceId(selectId)
+    setWorkspacesVersion(version => version + 1)
+  }
+
+  useEffect(() => {
+    if (workspaceId) storeCurrentWorkspaceId(workspaceId)
+  }, [workspaceId])
+
+  const workspace = workspaces?.find(candidate => candidate.id === workspaceId) ?? null
+
+  const signOut = async () => {
+    await supabase.auth.signOut()
+    setCurrentPage('urls')
+  }
+
   const checkConnection = async () => {
     try {
       const { error } = await supabase.from('test').select('count', { count: 'exact', head: true })
@@ -57,7 +128,7 @@ function App() {
         <div className="header-content">
           <h1>URL Summarizer</h1>
           
-          {connected && (
+          {connected && session && (
             <nav className="navigation">
               <button
                 className={`nav-button ${currentPage === 'urls' ? 'active' : ''}`}
@@ -65,30 +136,101 @@ function App() {
               >
                 URLs
               </button>
+              <button
+                className={`nav-button ${currentPage === 'ask' ? 'active' : ''}`}
+                onClick={() => setCurrentPage('ask')}
+              >
+                Ask
+              </button>
+              <button
+                className={`nav-button ${currentPage === 'import' ? 'active' : ''}`}
+                onClick={() => setCurrentPage('import')}
+              >
+                Import
+              </button>
               <button
                 className={`nav-button ${currentPage === 'prompts' ? 'active' : ''}`}
                 onClick={() => setCurrentPage('prompts')}
               >
                 Prompts
               </button>
+              <button
+                className={`nav-button ${currentPage === 'usage' ? 'active' : ''}`}
+                onClick={() => setCurrentPage('usage')}
+              >
+                Usage
+              </button>
+              <button
+                className={`nav-button ${currentPage === 'webhooks' ? 'active' : ''}`}
+                onClick={() => setCurrentPage('webhooks')}
+              >
+                Webhooks
+              </button>
+              <button
+                className={`nav-button ${currentPage === 'api' ? 'active' : ''}`}
+                onClick={() => setCurrentPage('api')}
+              >
+                API
+              </button>
             </nav>
           )}
+
+          {connected && session && workspaces && (
+            <WorkspaceSwitcher
+              userId={session.user.id}
+              email={session.user.email ?? ''}
+              workspaces={workspaces}
+              current={workspace}
+              onSelect={setWorkspaceId}
+              onWorkspacesChange={reloadWorkspaces}
+            />
+          )}
+
+          {session && (
+            <div className="account-bar">
+              <span className="account-email">{session.user.email}</span>
+              <button className="sign-out-button" onClick={signOut}>
+                Sign out
+              </button>
+            </div>
+          )}
         </div>
         
-        {loading ? (
+        {loading || session === undefined ? (
           <p>Loading...</p>
         ) : !connected ? (
           <p>❌ Connection failed. Check your environment variables.</p>
+        ) : !session ? (
+          <AuthForm />
+        ) : !workspaces ? (
+          <p>Loading workspaces...</p>
+        ) : !workspace ? (
+          <p>
+            {workspaceError
+              ? `❌ Failed to load workspaces: ${workspaceError}`
+              : "You don't belong to any workspace. Create one or accept an invitation above."}
+          </p>
         ) : (
-          <div className="content-section">
+          // Keyed by user and workspace so nothing from another one stays on screen
+          <div className="content-section" key={`${session.user.id}:${workspace.id}`}>
             {currentPage === 'urls' ? (
               <div className="url-summarizer-section">
-                <EnteredURL onUrlProcessed={handleUrlProcessed} />
+                <EnteredURL workspace={workspace} onUrlProcessed={handleUrlProcessed} />
                 <div className="separator"></div>
-                <UrlList ref={urlListRef} />
+                <UrlList ref={urlListRef} workspace={workspace} />
               </div>
+            ) : currentPage === 'ask' ? (
+              <AskPage workspace={workspace} />
+            ) : currentPage === 'import' ? (
+              <ImportPage workspace={workspace} />
+            ) : currentPage === 'prompts' ? (
+              <PromptsPage ref={promptsPageRef} workspace={workspace} />
+            ) : currentPage === 'usage' ? (
+              <UsagePage workspace={workspace} />
+            ) : currentPage === 'webhooks' ? (
+              <WebhooksPage workspace={workspace} />
             ) : (
-              <PromptsPage ref={promptsPageRef} />
+              <ApiKeysPage workspace={workspace} />
             )}
           </div>
         )}
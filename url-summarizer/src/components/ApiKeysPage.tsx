@@ -0,0 +1,172 @@
+import { type FormEvent, useEffect, useState } from "react";
+import { API_BASE_URL, type ApiKey, createApiKey, fetchApiKeys, OPENAPI_URL, revokeApiKey } from "../lib/apiKeys";
+import type { Workspace } from "../lib/workspaces";
+
+// Personal API keys for scripts and other tools, with a short guide to the REST API.
+// Keys belong to the user, not the workspace: they reach every workspace the user
+// is a member of, with the same role.
+
+interface ApiKeysPageProps {
+  // Used in the examples
+  workspace: Workspace;
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : "Never");
+
+const ApiKeysPage = ({ workspace }: ApiKeysPageProps) => {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [newKey, setNewKey] = useState("");
+  const [copied, setCopied] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState("");
+  // Bumped to load the keys again after a change
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    fetchApiKeys()
+      .then(setKeys)
+      .catch((err) => setError(`Failed to load API keys: ${(err as Error).message}`))
+      .finally(() => setLoading(false));
+  }, [version]);
+
+  const create = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      setWorking(true);
+      setError("");
+      setNewKey(await createApiKey(name.trim()));
+      setCopied(false);
+      setName("");
+      setVersion((current) => current + 1);
+    } catch (err) {
+      setError(`Failed to create the key: ${(err as Error).message}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const revoke = async (key: ApiKey) => {
+    if (!confirm(`Revoke "${key.name}"? Scripts using it will stop working.`)) return;
+
+    try {
+      setError("");
+      await revokeApiKey(key);
+      setVersion((current) => current + 1);
+    } catch (err) {
+      setError(`Failed to revoke the key: ${(err as Error).message}`);
+    }
+  };
+
+  const copyNewKey = async () => {
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  };
+
+  return (
+    <div className="api-keys-page">
+      <h2>API Keys</h2>
+      <p className="api-keys-hint">
+        Scripts and other tools can save URLs, run prompts and read summaries through the REST API. A key
+        acts as you, in every workspace you belong to and with the same role.
+      </p>
+
+      {error && (
+        <div className="error-message">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      <form className="api-key-form" onSubmit={create}>
+        <input
+          type="text"
+          placeholder="Key name, e.g. Nightly import script"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+        />
+        <button type="submit" className="api-key-create-button" disabled={working || !name.trim()}>
+          {working ? "Creating..." : "Create key"}
+        </button>
+      </form>
+
+      {newKey && (
+        <div className="api-key-new">
+          <p>Copy the new key now. It won't be shown again.</p>
+          <div className="api-key-value">
+            <code>{newKey}</code>
+            <button type="button" onClick={copyNewKey}>
+              {copied ? "Copied" : "Copy"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading API keys...</p>
+      ) : keys.length === 0 ? (
+        <p className="api-keys-hint">You don't have any API keys yet.</p>
+      ) : (
+        <table className="api-keys-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Key</th>
+              <th>Created</th>
+              <th>Last used</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map((key) => (
+              <tr key={key.id} className={key.revoked_at ? "api-key-revoked" : ""}>
+                <td>{key.name}</td>
+                <td>
+                  <code>{key.key_prefix}...</code>
+                </td>
+                <td>{formatDate(key.created_at)}</td>
+                <td>{formatDate(key.last_used_at)}</td>
+                <td>
+                  {key.revoked_at ? (
+                    `Revoked ${new Date(key.revoked_at).toLocaleDateString()}`
+                  ) : (
+                    <button className="api-key-revoke-button" onClick={() => revoke(key)}>
+                      Revoke
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <h3>Using the API</h3>
+      <p className="api-keys-hint">
+        Send the key as a bearer token. Every endpoint is described in the{" "}
+        <a href={OPENAPI_URL} target="_blank" rel="noopener noreferrer">
+          OpenAPI document
+        </a>
+        . This workspace's id is {workspace.id}.
+      </p>
+      <pre className="api-keys-example">
+        {`# Save a URL
+curl -X POST '${API_BASE_URL}/urls' \\
+  -H 'Authorization: Bearer usk_...' -H 'Content-Type: application/json' \\
+  -d '{"workspace_id": ${workspace.id}, "url": "https://example.com/article"}'
+
+# Summarize it with a prompt (see GET /prompts?workspace_id=${workspace.id}), then poll the job
+curl -X POST '${API_BASE_URL}/jobs' \\
+  -H 'Authorization: Bearer usk_...' -H 'Content-Type: application/json' \\
+  -d '{"url_id": 1, "prompt_id": 1}'
+curl '${API_BASE_URL}/jobs/1' -H 'Authorization: Bearer usk_...'
+
+# Read the summary once the job has succeeded
+curl '${API_BASE_URL}/summaries/<summary_id>' -H 'Authorization: Bearer usk_...'`}
+      </pre>
+    </div>
+  );
+};
+
+export default ApiKeysPage;
@@ -0,0 +1,208 @@
+import { type FormEvent, useEffect, useState } from "react";
+import {
+  askLibrary,
+  fetchLibraryStatus,
+  indexLibrary,
+  type LibraryAnswer,
+  type LibraryStatus,
+  splitCitations,
+} from "../lib/library";
+import { LLM_PROVIDERS, type LlmProvider, PROVIDER_LABELS } from "../lib/providers";
+import { canEditWorkspace, type Workspace } from "../lib/workspaces";
+
+// Questions answered from the workspace's saved pages. The closest passages are found
+// by meaning rather than by keyword, and the answer cites them as [n], linked to the
+// list of sources below it.
+
+interface AskPageProps {
+  workspace: Workspace;
+}
+
+const PASSAGE_PREVIEW_LENGTH = 500;
+
+const AskPage = ({ workspace }: AskPageProps) => {
+  const canEdit = canEditWorkspace(workspace);
+  const [question, setQuestion] = useState("");
+  const [provider, setProvider] = useState<LlmProvider | "">("");
+  const [model, setModel] = useState("");
+  const [asking, setAsking] = useState(false);
+  const [answer, setAnswer] = useState<LibraryAnswer | null>(null);
+  const [status, setStatus] = useState<LibraryStatus | null>(null);
+  const [indexProgress, setIndexProgress] = useState<string | null>(null);
+  const [indexing, setIndexing] = useState(false);
+  const [error, setError] = useState("");
+  // Bumped to count the indexed URLs again
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    fetchLibraryStatus(workspace.id)
+      .then(setStatus)
+      .catch((err) => setError(`Failed to load the library status: ${(err as Error).message}`));
+  }, [workspace.id, version]);
+
+  const ask = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+
+    try {
+      setAsking(true);
+      setError("");
+      setAnswer(await askLibrary(workspace.id, question.trim(), provider || null, model));
+    } catch (err) {
+      setError(`Failed to answer: ${(err as Error).message}`);
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  // Each call indexes as many URLs as fit in the function's time budget; keep calling
+  // from where the last one stopped until none are left
+  const indexRemaining = async () => {
+    let cursor = 0;
+    let indexed = 0;
+    let failed = 0;
+
+    try {
+      setIndexing(true);
+      setError("");
+      setIndexProgress("Indexing...");
+      for (;;) {
+        const run = await indexLibrary(workspace.id, cursor);
+        indexed += run.indexed;
+        failed += run.failed;
+        setIndexProgress(
+          `Indexed ${indexed} URL${indexed === 1 ? "" : "s"}${failed ? `, ${failed} failed` : ""}` +
+            (run.remaining ? `, ${run.remaining} to go...` : ".")
+        );
+        if (!run.remaining || run.cursor === cursor) break;
+        cursor = run.cursor;
+      }
+    } catch (err) {
+      setError(`Failed to index the library: ${(err as Error).message}`);
+    } finally {
+      setIndexing(false);
+      setVersion((current) => current + 1);
+    }
+  };
+
+  return (
+    <div className="ask-page">
+      <h2>Ask your library</h2>
+      <p className="ask-hint">
+        Answers come only from the pages saved in {workspace.name}, with numbered citations of the passages
+        they are based on.
+      </p>
+
+      {status && (
+        <div className="ask-index-status">
+          <span>
+            {status.indexed} of {status.urls} URL{status.urls === 1 ? "" : "s"} indexed
+          </span>
+          {canEdit && status.indexed < status.urls && (
+            <button type="button" onClick={indexRemaining} disabled={indexing}>
+              {indexing ? "Indexing..." : "Index remaining"}
+            </button>
+          )}
+          {indexProgress && <span className="ask-index-progress">{indexProgress}</span>}
+        </div>
+      )}
+
+      {error && (
+        <div className="error-message">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      <form className="ask-form" onSubmit={ask}>
+        <textarea
+          className="ask-question"
+          placeholder="What have I saved about..."
+          rows={3}
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) ask(e);
+          }}
+        />
+        <div className="ask-form-row">
+          <select
+            value={provider}
+            onChange={(e) => setProvider(e.target.value as LlmProvider | "")}
+            title="Provider"
+          >
+            <option value="">Default provider</option>
+            {LLM_PROVIDERS.map((option) => (
+              <option key={option} value={option}>
+                {PROVIDER_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            placeholder="Model (default)"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            title="Model"
+          />
+          <button type="submit" className="ask-button" disabled={asking || !question.trim()}>
+            {asking ? "Thinking..." : "Ask"}
+          </button>
+        </div>
+      </form>
+
+      {answer && (
+        <div className="ask-answer">
+          <div className="ask-answer-text">
+            {splitCitations(answer.answer).map((part, index) =>
+              part.sources.length ? (
+                <sup key={index} className="ask-citation">
+                  {part.sources.map((n) => (
+                    <a key={n} href={`#ask-source-${n}`}>
+                      [{n}]
+                    </a>
+                  ))}
+                </sup>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </div>
+          <p className="ask-answer-meta">
+            {PROVIDER_LABELS[answer.provider] ?? answer.provider} · {answer.model}
+          </p>
+
+          {answer.sources.length > 0 && (
+            <>
+              <h3>Sources</h3>
+              <ol className="ask-sources">
+                {answer.sources.map((source) => (
+                  <li
+                    key={source.id}
+                    id={`ask-source-${source.n}`}
+                    className={`ask-source ${source.cited ? "cited" : ""}`}
+                  >
+                    <div className="ask-source-header">
+                      <span className="ask-source-number">[{source.n}]</span>
+                      <a href={source.url} target="_blank" rel="noopener noreferrer">
+                        {source.title || source.caption || source.url}
+                      </a>
+                      <span className="ask-source-similarity">{Math.round(source.similarity * 100)}% match</span>
+                      {!source.cited && <span className="ask-source-uncited">not cited</span>}
+                    </div>
+                    <blockquote>
+                      {source.content.length > PASSAGE_PREVIEW_LENGTH
+                        ? `${source.content.slice(0, PASSAGE_PREVIEW_LENGTH)}...`
+                        : source.content}
+                    </blockquote>
+                  </li>
+                ))}
+              </ol>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AskPage;
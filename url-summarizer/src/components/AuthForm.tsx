@@ -0,0 +1,124 @@
+import { type FormEvent, useState } from "react";
+import { supabase } from "../lib/supabase";
+
+// Email and password sign-in with Supabase Auth. People invited to a workspace who
+// never set a password sign in with a link sent to their email instead.
+
+type Mode = "sign_in" | "sign_up" | "magic_link";
+
+const AuthForm = () => {
+  const [mode, setMode] = useState<Mode>("sign_in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      setWorking(true);
+      setError("");
+      setNotice("");
+
+      if (mode === "sign_in") {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+      } else if (mode === "magic_link") {
+        const { error } = await supabase.auth.signInWithOtp({
+          email,
+          options: { shouldCreateUser: false, emailRedirectTo: window.location.origin },
+        });
+        if (error) throw error;
+        setNotice("Check your email for a sign-in link.");
+      } else {
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: window.location.origin },
+        });
+        if (error) throw error;
+        // Projects that confirm email addresses return no session until the link is followed
+        if (!data.session) {
+          setNotice("Check your email for a link to confirm your account, then sign in.");
+          setMode("sign_in");
+        }
+      }
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="auth-form">
+      <h2>{mode === "sign_up" ? "Create an account" : "Sign in"}</h2>
+
+      <form onSubmit={submit}>
+        <label>
+          Email
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+          />
+        </label>
+        {mode !== "magic_link" && (
+          <label>
+            Password
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete={mode === "sign_in" ? "current-password" : "new-password"}
+              minLength={6}
+              required
+            />
+          </label>
+        )}
+        <button type="submit" className="auth-submit-button" disabled={working}>
+          {working
+            ? "Please wait..."
+            : mode === "sign_in"
+              ? "Sign in"
+              : mode === "magic_link"
+                ? "Email me a sign-in link"
+                : "Create account"}
+        </button>
+      </form>
+
+      {error && (
+        <div className="error-message">
+          <p>❌ {error}</p>
+        </div>
+      )}
+      {notice && <p className="auth-notice">{notice}</p>}
+
+      <div className="auth-links">
+        {mode === "sign_in" ? (
+          <>
+            <button className="auth-link" onClick={() => setMode("sign_up")}>
+              Don't have an account? Create one
+            </button>
+            <button className="auth-link" onClick={() => setMode("magic_link")}>
+              Invited to a workspace? Sign in with an email link
+            </button>
+          </>
+        ) : mode === "magic_link" ? (
+          <button className="auth-link" onClick={() => setMode("sign_in")}>
+            Sign in with a password instead
+          </button>
+        ) : (
+          <button className="auth-link" onClick={() => setMode("sign_in")}>
+            Already have an account? Sign in
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuthForm;
@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import {
+  cancelBatch,
+  describeJobError,
+  fetchBatchJobs,
+  isActiveJob,
+  JOB_STATUS_LABELS,
+  type JobStatus,
+  startBatch,
+  subscribeToJobs,
+  type SummaryJob,
+} from "../lib/jobs";
+
+// Runs several prompts over the URLs selected in the list (the process-batch function)
+// and follows every job of the batch.
+
+interface BatchUrl {
+  id: number;
+  label: string;
+}
+
+interface BatchPrompt {
+  id: number;
+  prompt_name: string;
+}
+
+interface BatchRunPanelProps {
+  workspaceId: number;
+  urls: BatchUrl[];
+  prompts: BatchPrompt[];
+  onClose: () => void;
+}
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 5, 10];
+
+const countByStatus = (jobs: SummaryJob[]) => {
+  const counts: Record<JobStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 };
+  jobs.forEach((job) => counts[job.status]++);
+  return counts;
+};
+
+const BatchRunPanel = ({ workspaceId, urls, prompts, onClose }: BatchRunPanelProps) => {
+  const [promptIds, setPromptIds] = useState<number[]>(prompts.length > 0 ? [prompts[0].id] : []);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [concurrency, setConcurrency] = useState(3);
+  const [batchId, setBatchId] = useState<number | null>(null);
+  const [jobs, setJobs] = useState<SummaryJob[]>([]);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (batchId === null) return;
+    return subscribeToJobs(
+      (update) => {
+        setJobs((prev) => prev.map((job) => (job.id === update.id ? update : job)));
+      },
+      `batch_id=eq.${batchId}`,
+      // Catch up on changes made before the subscription started
+      () => {
+        fetchBatchJobs(batchId)
+          .then(setJobs)
+          .catch((err) => console.error("Error fetching batch jobs:", err));
+      }
+    );
+  }, [batchId]);
+
+  const togglePrompt = (promptId: number, checked: boolean) => {
+    setPromptIds((prev) => (checked ? [...prev, promptId] : prev.filter((id) => id !== promptId)));
+  };
+
+  const run = async () => {
+    try {
+      setStarting(true);
+      setError("");
+      const batch = await startBatch(
+        workspaceId,
+        urls.map((url) => url.id),
+        promptIds,
+        { forceRefresh, concurrency }
+      );
+      setJobs(batch.jobs);
+      setBatchId(batch.batchId);
+    } catch (err) {
+      setError(`Failed to start the batch: ${(err as Error).message}`);
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const cancelRemaining = async () => {
+    if (batchId === null) return;
+    try {
+      await cancelBatch(batchId);
+    } catch (err) {
+      setError(`Failed to cancel: ${(err as Error).message}`);
+    }
+  };
+
+  const counts = countByStatus(jobs);
+  const finished = counts.succeeded + counts.failed + counts.cancelled;
+  const active = counts.queued + counts.running > 0;
+  const urlLabel = (urlId: number) => urls.find((url) => url.id === urlId)?.label || `URL #${urlId}`;
+  const promptName = (promptId: number) =>
+    prompts.find((prompt) => prompt.id === promptId)?.prompt_name || `Prompt #${promptId}`;
+
+  return (
+    <div className="batch-panel">
+      <div className="batch-panel-header">
+        <h3>
+          Run prompts on {urls.length} selected {urls.length === 1 ? "URL" : "URLs"}
+        </h3>
+        <button className="batch-close-button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {error && (
+        <div className="error-message">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      {batchId === null ? (
+        <>
+          <div className="batch-prompts">
+            {prompts.map((prompt) => (
+              <label key={prompt.id}>
+                <input
+                  type="checkbox"
+                  checked={promptIds.includes(prompt.id)}
+                  onChange={(e) => togglePrompt(prompt.id, e.target.checked)}
+                />
+                {prompt.prompt_name}
+              </label>
+            ))}
+          </div>
+
+          <div className="batch-options">
+            <label title="Ignore the cached copies of the pages and download them again">
+              <input type="checkbox" checked={forceRefresh} onChange={(e) => setForceRefresh(e.target.checked)} />
+              Refetch pages
+            </label>
+            <label>
+              Run{" "}
+              <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))}>
+                {CONCURRENCY_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>{" "}
+              at a time
+            </label>
+            <button
+              className="batch-run-button"
+              onClick={run}
+              disabled={starting || promptIds.length === 0 || urls.length === 0}
+            >
+              {starting
+                ? "Starting..."
+                : `Run ${urls.length * promptIds.length} ${urls.length * promptIds.length === 1 ? "job" : "jobs"}`}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="batch-summary">
+            <progress value={finished} max={jobs.length} />
+            <span>
+              {finished} of {jobs.length} done
+              {counts.running > 0 && ` · ${counts.running} running`}
+              {counts.failed > 0 && ` · ${counts.failed} failed`}
+              {counts.cancelled > 0 && ` · ${counts.cancelled} cancelled`}
+            </span>
+            {active && (
+              <button className="batch-cancel-button" onClick={cancelRemaining}>
+                Cancel remaining
+              </button>
+            )}
+          </div>
+
+          <table className="batch-table">
+            <thead>
+              <tr>
+                <th>URL</th>
+                <th>Prompt</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map((job) => (
+                <tr key={job.id} className={`batch-row-${job.status}`}>
+                  <td title={urlLabel(job.url_id)}>{urlLabel(job.url_id)}</td>
+                  <td>{promptName(job.prompt_id)}</td>
+                  <td>
+                    <span className="batch-job-status">{JOB_STATUS_LABELS[job.status]}</span>
+                    {isActiveJob(job) && job.progress && <span className="batch-job-note">{job.progress}</span>}
+                    {job.status === "failed" && <span className="batch-job-error">{describeJobError(job)}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchRunPanel;
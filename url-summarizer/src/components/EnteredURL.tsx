@@ -1,11 +1,25 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { supabase } from '../lib/supabase'
+import { invokeFunction } from '../lib/functions'
+import { describeJobError, fetchJob, isActiveJob, type SummaryJob, subscribeToJobs } from '../lib/jobs'
+import { canEditWorkspace, promptScopeFilter, type Workspace } from '../lib/workspaces'
 
 interface EnteredURLProps {
+  workspace: Workspace // URLs are added to this workspace
   onSummaryReceived?: (summary: string) => void
   onUrlProcessed?: () => void // Callback to refresh URL list
 }
 
+interface SummarizeResult {
+  url_id: number
+  job_id: number
+  already_existed?: boolean
+}
+
+interface JobResult {
+  ai_response: string
+}
+
 interface Prompt {
   id: number;
   prompt_name: string;
@@ -13,13 +27,16 @@ interface Prompt {
   description: string;
 }
 
-const EnteredURL: React.FC<EnteredURLProps> = ({ onSummaryReceived, onUrlProcessed }) => {
+const EnteredURL: React.FC<EnteredURLProps> = ({ workspace, onSummaryReceived, onUrlProcessed }) => {
   const [url, setUrl] = useState('')
   const [loading, setLoading] = useState(false)
   const [summary, setSummary] = useState('')
   const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
   const [prompts, setPrompts] = useState<Prompt[]>([])
   const [selectedPromptId, setSelectedPromptId] = useState<number | null>(null)
+  // Job queued for the last URL; followed until it finishes
+  const [jobId, setJobId] = useState<number | null>(null)
 
   // Fetch prompts from database
   const fetchPrompts = async () => {
@@ -27,6 +44,7 @@ const EnteredURL: React.FC<EnteredURLProps> = ({ onSummaryReceived, onUrlProcess
       const { data, error } = await supabase
         .from("prompts")
         .select("*")
+        .or(promptScopeFilter(workspace.id))
         .order("prompt_name", { ascending: true });
 
       if (error) {
@@ -49,6 +67,56 @@ const EnteredURL: React.FC<EnteredURLProps> = ({ onSummaryReceived, onUrlProcess
     fetchPrompts();
   }, []);
 
+  // Read through a ref so a new callback from the parent doesn't resubscribe
+  const summaryReceived = useRef(onSummaryReceived)
+  summaryReceived.current = onSummaryReceived
+
+  useEffect(() => {
+    if (jobId === null) return
+
+    // Both the subscription and the catch-up read may report the outcome
+    let finished = false
+    const showJob = (job: SummaryJob<JobResult>) => {
+      if (finished) return
+      finished = !isActiveJob(job)
+      switch (job.status) {
+        case 'running':
+          setSummary(job.progress || 'Analyzing...')
+          break
+        case 'queued':
+          if (job.progress) setSummary(job.progress)
+          break
+        case 'succeeded': {
+          const summaryResult = job.result?.ai_response || 'URL processed successfully!'
+          setSummary(summaryResult)
+          summaryReceived.current?.(summaryResult)
+          setJobId(null)
+          break
+        }
+        case 'failed':
+          setSummary('')
+          setError(describeJobError(job))
+          setJobId(null)
+          break
+        case 'cancelled':
+          setSummary('Analysis cancelled.')
+          setJobId(null)
+          break
+      }
+    }
+
+    return subscribeToJobs(
+      (update) => showJob(update as SummaryJob<JobResult>),
+      `id=eq.${jobId}`,
+      // The job may have moved on, or even finished, before the channel was ready
+      () => {
+        fetchJob<JobResult>(jobId)
+          .then(showJob)
+          .catch((err) => console.error('Error fetching the job:', err))
+      }
+    )
+  }, [jobId])
+
   const handleSummarize = async () => {
     if (!url.trim()) {
       setError('Please enter a valid URL')
@@ -62,29 +130,22 @@ const EnteredURL: React.FC<EnteredURLProps> = ({ onSummaryReceived, onUrlProcess
 
     setLoading(true)
     setError('')
+    setNotice('')
     setSummary('')
 
     try {
-      const { data, error: functionError } = await supabase.functions.invoke('summerize_url', {
-        body: { 
-          url: url.trim(),
-          prompt_id: selectedPromptId 
-        }
+      // The summary runs as a background job; its progress shows here and on the URL's card
+      const data = await invokeFunction<SummarizeResult>('summerize_url', {
+        workspace_id: workspace.id,
+        url: url.trim(),
+        prompt_id: selectedPromptId
       })
 
-      if (functionError) {
-        throw functionError
-      }
+      setJobId(data.job_id)
+      setSummary('URL added. Waiting for the analysis to start...')
 
-      if (data?.processed) {
-        const summaryResult = data?.summary || 'URL processed successfully!'
-        setSummary(summaryResult)
-        
-        if (onSummaryReceived) {
-          onSummaryReceived(summaryResult)
-        }
-      } else {
-        setSummary('URL added successfully!')
+      if (data?.already_existed) {
+        setNotice('This URL was already saved, so the summary was added to the existing entry.')
       }
       
       setUrl('') // Clear the input after successful add
@@ -107,6 +168,16 @@ const EnteredURL: React.FC<EnteredURLProps> = ({ onSummaryReceived, onUrlProcess
     }
   }
 
+  if (!canEditWorkspace(workspace)) {
+    return (
+      <div className="entered-url-container">
+        <p className="read-only-note">
+          You can read this workspace but not add URLs. Ask an owner to make you an editor.
+        </p>
+      </div>
+    )
+  }
+
   return (
     <div className="entered-url-container">
       <div className="input-group">
@@ -147,9 +218,15 @@ const EnteredURL: React.FC<EnteredURLProps> = ({ onSummaryReceived, onUrlProcess
         </div>
       )}
 
+      {notice && (
+        <div className="notice-message">
+          <p>ℹ️ {notice}</p>
+        </div>
+      )}
+
       {summary && (
         <div className="summary-result">
-          <p>✅ {summary}</p>
+          <p>{loading || jobId !== null ? '⏳' : '✅'} {summary}</p>
         </div>
       )}
 
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { buildExport, downloadFile, EXPORT_FORMATS, type ExportFormat, fetchExportData } from "../lib/export";
+import type { Workspace } from "../lib/workspaces";
+
+// Downloads the URLs selected in the list, or the whole workspace, with their
+// summaries in one of the formats of lib/export.ts.
+
+interface ExportPanelProps {
+  workspace: Workspace;
+  // Ticked in the list; empty exports everything
+  selectedUrlIds: number[];
+  onClose: () => void;
+}
+
+const ExportPanel = ({ workspace, selectedUrlIds, onClose }: ExportPanelProps) => {
+  const [format, setFormat] = useState<ExportFormat>("markdown");
+  const [onlySelected, setOnlySelected] = useState(selectedUrlIds.length > 0);
+  const [exporting, setExporting] = useState(false);
+  const [done, setDone] = useState("");
+  const [error, setError] = useState("");
+
+  const runExport = async () => {
+    try {
+      setExporting(true);
+      setError("");
+      setDone("");
+      const urls = await fetchExportData(workspace.id, onlySelected ? selectedUrlIds : undefined);
+      const file = buildExport(format, urls, workspace.name);
+      downloadFile(file);
+      const summaryCount = urls.reduce((count, url) => count + url.summaries.length, 0);
+      setDone(`Exported ${urls.length} ${urls.length === 1 ? "URL" : "URLs"} and ${summaryCount} ${summaryCount === 1 ? "summary" : "summaries"} to ${file.filename}`);
+    } catch (err) {
+      setError(`Failed to export: ${(err as Error).message}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="export-panel">
+      <div className="export-panel-header">
+        <h3>Export summaries</h3>
+        <button className="export-close-button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {error && (
+        <div className="error-message">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      <div className="export-formats">
+        {EXPORT_FORMATS.map((option) => (
+          <label key={option.value}>
+            <input
+              type="radio"
+              name="export-format"
+              checked={format === option.value}
+              onChange={() => setFormat(option.value)}
+            />
+            <strong>{option.label}</strong>
+            <span className="export-format-description">{option.description}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="export-options">
+        <label>
+          <input
+            type="radio"
+            name="export-scope"
+            checked={onlySelected}
+            disabled={selectedUrlIds.length === 0}
+            onChange={() => setOnlySelected(true)}
+          />
+          {selectedUrlIds.length} selected {selectedUrlIds.length === 1 ? "URL" : "URLs"}
+        </label>
+        <label>
+          <input type="radio" name="export-scope" checked={!onlySelected} onChange={() => setOnlySelected(false)} />
+          Every URL in {workspace.name}
+        </label>
+        <button className="export-run-button" onClick={runExport} disabled={exporting}>
+          {exporting ? "Exporting..." : "Download"}
+        </button>
+      </div>
+
+      {done && <p className="export-done">{done}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
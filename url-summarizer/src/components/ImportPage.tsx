@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabase";
+import { invokeFunction } from "../lib/functions";
+import { canEditWorkspace, promptScopeFilter, type Workspace } from "../lib/workspaces";
+
+// Bulk import through the import-urls function: preview the links found in a file,
+// then save the new ones to the workspace and optionally queue a summary for each.
+// Viewers can only preview.
+
+type ImportFormat = "auto" | "csv" | "lines" | "bookmarks" | "opml" | "pocket" | "instapaper";
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  auto: "Detect automatically",
+  csv: "CSV",
+  lines: "One URL per line",
+  bookmarks: "Browser bookmarks (HTML)",
+  opml: "OPML",
+  pocket: "Pocket export",
+  instapaper: "Instapaper export",
+};
+
+interface ImportItem {
+  url: string;
+  title: string | null;
+  tags: string[];
+  saved_at: string | null;
+  status: "new" | "imported" | "duplicate";
+  url_id: number | null;
+}
+
+interface ImportResult {
+  preview: boolean;
+  format: Exclude<ImportFormat, "auto">;
+  total: number;
+  new: number;
+  duplicates: number;
+  skipped: number;
+  batch_id: number | null;
+  items: ImportItem[];
+}
+
+interface Prompt {
+  id: number;
+  prompt_name: string;
+}
+
+const STATUS_LABELS: Record<ImportItem["status"], string> = {
+  new: "New",
+  imported: "Imported",
+  duplicate: "Already saved",
+};
+
+// Large imports are previewed in part
+const PREVIEW_ROWS = 200;
+
+interface ImportPageProps {
+  workspace: Workspace;
+}
+
+const ImportPage = ({ workspace }: ImportPageProps) => {
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<ImportFormat>("auto");
+  const [prompts, setPrompts] = useState<Prompt[]>([]);
+  const [promptId, setPromptId] = useState<number | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchPrompts = async () => {
+      const { data, error } = await supabase
+        .from("prompts")
+        .select("id, prompt_name")
+        .or(promptScopeFilter(workspace.id))
+        .order("prompt_name", { ascending: true });
+      if (error) {
+        setError(`Failed to fetch prompts: ${error.message}`);
+      } else {
+        setPrompts(data || []);
+      }
+    };
+
+    fetchPrompts();
+  }, [workspace.id]);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setContent(await file.text());
+    setResult(null);
+  };
+
+  const runImport = async (preview: boolean) => {
+    try {
+      setWorking(true);
+      setError("");
+      const data = await invokeFunction<ImportResult>("import-urls", {
+        workspace_id: workspace.id,
+        content,
+        format,
+        preview,
+        ...(promptId ? { prompt_id: promptId } : {}),
+      });
+      setResult(data);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : "");
+
+  return (
+    <div className="import-page">
+      <h2>Import URLs</h2>
+      <p className="import-hint">
+        Upload a CSV, a list with one URL per line, bookmarks exported from your browser, an OPML file,
+        or a Pocket or Instapaper export. Links that are already saved are skipped.
+      </p>
+
+      <div className="import-source">
+        <label className="import-file">
+          <input
+            type="file"
+            accept=".csv,.txt,.html,.htm,.opml,.xml"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+          />
+          {fileName || "Choose a file..."}
+        </label>
+        <span className="import-or">or paste below</span>
+      </div>
+
+      <textarea
+        className="import-content"
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value);
+          setFileName("");
+          setResult(null);
+        }}
+        placeholder={"https://example.com/article\nhttps://example.org/post"}
+        rows={8}
+      />
+
+      <div className="import-options">
+        <label>
+          Format{" "}
+          <select value={format} onChange={(e) => setFormat(e.target.value as ImportFormat)}>
+            {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map((option) => (
+              <option key={option} value={option}>
+                {FORMAT_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Summarize new links with{" "}
+          <select
+            value={promptId ?? ""}
+            onChange={(e) => setPromptId(e.target.value ? Number(e.target.value) : null)}
+          >
+            <option value="">Don't summarize</option>
+            {prompts.map((prompt) => (
+              <option key={prompt.id} value={prompt.id}>
+                {prompt.prompt_name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button className="import-preview-button" onClick={() => runImport(true)} disabled={working || !content.trim()}>
+          Preview
+        </button>
+        {canEditWorkspace(workspace) && (
+          <button className="import-button" onClick={() => runImport(false)} disabled={working || !content.trim()}>
+            {working ? "Working..." : "Import"}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="error-message">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="import-result">
+          <p className="import-summary">
+            {result.preview ? "Found" : "Read"} {result.total} {result.total === 1 ? "link" : "links"} as{" "}
+            {FORMAT_LABELS[result.format]}: {result.new} {result.preview ? "new" : "imported"}, {result.duplicates}{" "}
+            already saved
+            {result.skipped > 0 && `, ${result.skipped} skipped (not http or https)`}.
+            {result.batch_id !== null && ` Summaries are queued as batch #${result.batch_id}.`}
+          </p>
+
+          <table className="import-table">
+            <thead>
+              <tr>
+                <th>Title</th>
+                <th>Tags</th>
+                <th>Saved</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.items.slice(0, PREVIEW_ROWS).map((item) => (
+                <tr key={item.url} className={`import-row-${item.status}`}>
+                  <td>
+                    <a href={item.url} target="_blank" rel="noopener noreferrer" title={item.url}>
+                      {item.title || item.url}
+                    </a>
+                  </td>
+                  <td>{item.tags.join(", ")}</td>
+                  <td>{formatDate(item.saved_at)}</td>
+                  <td>{STATUS_LABELS[item.status]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {result.items.length > PREVIEW_ROWS && (
+            <p className="import-hint">…and {result.items.length - PREVIEW_ROWS} more.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPage;
@@ -1,19 +1,180 @@
 import React, { useState, useEffect, forwardRef, useImperativeHandle } from "react";
 import { supabase } from "../lib/supabase";
+import { PROMPT_VARIABLES, validatePromptTemplate } from "../lib/promptTemplate";
+import {
+  describeOutputSchema,
+  EXAMPLE_OUTPUT_SCHEMA,
+  formatOutputSchema,
+  type JsonSchema,
+  parseOutputSchema
+} from "../lib/outputSchema";
+import { LLM_PROVIDERS, type LlmProvider, PROVIDER_LABELS } from "../lib/providers";
+import { canEditWorkspace, promptScopeFilter, type Workspace } from "../lib/workspaces";
 
 interface Prompt {
   id: number;
   prompt_name: string;
   prompt: string;
   description: string;
+  target_language: string | null;
+  provider: LlmProvider | null;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  output_schema: JsonSchema | null;
   created_at?: string;
+  // null for the shared sample prompts, which every workspace can use but not change
+  workspace_id: number | null;
 }
 
+type ModelSettings = Pick<Prompt, "provider" | "model" | "temperature" | "max_tokens">;
+
+const EMPTY_MODEL_SETTINGS: ModelSettings = {
+  provider: null,
+  model: null,
+  temperature: null,
+  max_tokens: null,
+};
+
+// Blank fields are stored as NULL so the edge functions use their defaults
+const normalizeModelSettings = (settings: ModelSettings): ModelSettings => ({
+  provider: settings.provider || null,
+  model: settings.model?.trim() || null,
+  temperature: settings.temperature,
+  max_tokens: settings.max_tokens,
+});
+
+const describeModelSettings = (settings: ModelSettings) => {
+  const provider = settings.provider ? PROVIDER_LABELS[settings.provider] : "Default provider";
+  const parts = [`${provider} · ${settings.model || "default model"}`];
+  if (settings.temperature !== null) parts.push(`temperature ${settings.temperature}`);
+  if (settings.max_tokens !== null) parts.push(`${settings.max_tokens} max tokens`);
+  return parts.join(", ");
+};
+
+const parseOptionalNumber = (value: string) => (value === "" ? null : Number(value));
+
+// Live placeholder validation shown under the prompt text editors
+const TemplateHints = ({ template }: { template: string }) => {
+  const { errors, warnings } = validatePromptTemplate(template);
+
+  return (
+    <div className="template-hints">
+      <div className="template-variables">
+        Variables:{" "}
+        {PROMPT_VARIABLES.map((variable) => (
+          <code key={variable.name} title={variable.description}>
+            {`{{${variable.name}}}`}
+          </code>
+        ))}
+      </div>
+      {errors.map((message) => (
+        <p key={message} className="template-error">❌ {message}</p>
+      ))}
+      {warnings.map((message) => (
+        <p key={message} className="template-warning">⚠️ {message}</p>
+      ))}
+    </div>
+  );
+};
+
+interface OutputSchemaFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  className: string;
+}
+
+// JSON Schema editor for structured output; blank keeps free-text responses
+const OutputSchemaField = ({ value, onChange, className }: OutputSchemaFieldProps) => {
+  const { error } = parseOutputSchema(value);
+
+  return (
+    <>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={`Optional JSON Schema for structured output, e.g.\n${EXAMPLE_OUTPUT_SCHEMA}`}
+        className={`${className} schema-textarea`}
+        rows={value ? 8 : 3}
+      />
+      <div className="template-hints">
+        {error ? (
+          <p className="template-error">❌ {error}</p>
+        ) : (
+          <p className="template-variables">
+            Leave blank for a free-text response. With a schema, the model replies with JSON that is validated and shown as fields, lists and tables.
+          </p>
+        )}
+      </div>
+    </>
+  );
+};
+
+interface ModelSettingsFieldsProps {
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+}
+
+const ModelSettingsFields = ({ settings, onChange }: ModelSettingsFieldsProps) => (
+  <div className="model-settings">
+    <select
+      value={settings.provider || ""}
+      onChange={(e) => onChange({ ...settings, provider: (e.target.value || null) as LlmProvider | null })}
+      className="form-input"
+      title="Provider"
+    >
+      <option value="">Default provider</option>
+      {LLM_PROVIDERS.map((provider) => (
+        <option key={provider} value={provider}>
+          {PROVIDER_LABELS[provider]}
+        </option>
+      ))}
+    </select>
+    <input
+      type="text"
+      value={settings.model || ""}
+      onChange={(e) => onChange({ ...settings, model: e.target.value })}
+      placeholder="Model (default)"
+      className="form-input"
+      title="Model"
+    />
+    <input
+      type="number"
+      min={0}
+      max={2}
+      step={0.1}
+      value={settings.temperature ?? ""}
+      onChange={(e) => onChange({ ...settings, temperature: parseOptionalNumber(e.target.value) })}
+      placeholder="Temperature (0.7)"
+      className="form-input"
+      title="Temperature"
+    />
+    <input
+      type="number"
+      min={1}
+      step={1}
+      value={settings.max_tokens ?? ""}
+      onChange={(e) => onChange({ ...settings, max_tokens: parseOptionalNumber(e.target.value) })}
+      placeholder="Max tokens (500)"
+      className="form-input"
+      title="Max tokens"
+    />
+  </div>
+);
+
 export interface PromptsPageRef {
   refreshPrompts: () => void;
 }
 
-const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
+interface PromptsPageProps {
+  workspace: Workspace;
+}
+
+// Prompts belong to the workspace, so its members all run the same definitions.
+// Owners and editors change them; a shared prompt can be copied into the workspace
+// to adapt it.
+const PromptsPage = forwardRef<PromptsPageRef, PromptsPageProps>(({ workspace }, ref) => {
+  const canEdit = canEditWorkspace(workspace);
   const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
@@ -22,8 +183,13 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
   const [formData, setFormData] = useState({
     prompt_name: "",
     prompt: "",
-    description: ""
+    description: "",
+    target_language: "",
+    output_schema: "",
+    ...EMPTY_MODEL_SETTINGS
   });
+  // Schema text of the prompt being edited, kept as text so it can be invalid while typing
+  const [schemaDraft, setSchemaDraft] = useState("");
 
   // Fetch prompts from database
   const fetchPrompts = async () => {
@@ -33,6 +199,7 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
       const { data, error } = await supabase
         .from("prompts")
         .select("*")
+        .or(promptScopeFilter(workspace.id))
         .order("created_at", { ascending: false });
 
       if (error) {
@@ -65,14 +232,30 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
       return;
     }
 
+    const { errors } = validatePromptTemplate(formData.prompt);
+    if (errors.length > 0) {
+      setError(`Invalid prompt text: ${errors.join("; ")}`);
+      return;
+    }
+
+    const { schema, error: schemaError } = parseOutputSchema(formData.output_schema);
+    if (schemaError) {
+      setError(schemaError);
+      return;
+    }
+
     try {
       setError("");
       const { error } = await supabase
         .from("prompts")
         .insert([{
+          workspace_id: workspace.id,
           prompt_name: formData.prompt_name.trim(),
           prompt: formData.prompt.trim(),
-          description: formData.description.trim()
+          description: formData.description.trim(),
+          target_language: formData.target_language.trim() || null,
+          output_schema: schema,
+          ...normalizeModelSettings(formData)
         }]);
 
       if (error) {
@@ -80,7 +263,7 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
       }
 
       // Reset form and refresh
-      setFormData({ prompt_name: "", prompt: "", description: "" });
+      setFormData({ prompt_name: "", prompt: "", description: "", target_language: "", output_schema: "", ...EMPTY_MODEL_SETTINGS });
       setShowAddForm(false);
       fetchPrompts();
     } catch (err: any) {
@@ -99,6 +282,18 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
       return;
     }
 
+    const { errors } = validatePromptTemplate(prompt.prompt);
+    if (errors.length > 0) {
+      setError(`Invalid prompt text: ${errors.join("; ")}`);
+      return;
+    }
+
+    const { schema, error: schemaError } = parseOutputSchema(schemaDraft);
+    if (schemaError) {
+      setError(schemaError);
+      return;
+    }
+
     try {
       setError("");
       const { error } = await supabase
@@ -106,7 +301,10 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
         .update({
           prompt_name: prompt.prompt_name.trim(),
           prompt: prompt.prompt.trim(),
-          description: prompt.description.trim()
+          description: prompt.description.trim(),
+          target_language: prompt.target_language?.trim() || null,
+          output_schema: schema,
+          ...normalizeModelSettings(prompt)
         })
         .eq('id', id);
 
@@ -146,6 +344,36 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
     }
   };
 
+  // Copy a shared prompt into the workspace, where it can be edited
+  const handleCopyPrompt = async (prompt: Prompt) => {
+    try {
+      setError("");
+      const { error } = await supabase
+        .from("prompts")
+        .insert([{
+          workspace_id: workspace.id,
+          prompt_name: prompt.prompt_name,
+          prompt: prompt.prompt,
+          description: prompt.description,
+          target_language: prompt.target_language,
+          output_schema: prompt.output_schema,
+          provider: prompt.provider,
+          model: prompt.model,
+          temperature: prompt.temperature,
+          max_tokens: prompt.max_tokens
+        }]);
+
+      if (error) {
+        throw error;
+      }
+
+      fetchPrompts();
+    } catch (err) {
+      setError(`Failed to copy prompt: ${(err as Error).message}`);
+      console.error("Error copying prompt:", err);
+    }
+  };
+
   // Update prompt field
   const updatePromptField = (id: number, field: keyof Prompt, value: string) => {
     setPrompts(prompts.map(prompt => 
@@ -153,6 +381,19 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
     ));
   };
 
+  // Update model settings of a prompt being edited
+  const updatePromptModelSettings = (id: number, settings: ModelSettings) => {
+    setPrompts(prompts.map(prompt =>
+      prompt.id === id ? { ...prompt, ...settings } : prompt
+    ));
+  };
+
+  // Start editing a prompt
+  const startEdit = (prompt: Prompt) => {
+    setSchemaDraft(formatOutputSchema(prompt.output_schema));
+    setEditingId(prompt.id);
+  };
+
   // Cancel editing
   const cancelEdit = () => {
     setEditingId(null);
@@ -162,7 +403,7 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
   // Cancel add form
   const cancelAdd = () => {
     setShowAddForm(false);
-    setFormData({ prompt_name: "", prompt: "", description: "" });
+    setFormData({ prompt_name: "", prompt: "", description: "", target_language: "", output_schema: "", ...EMPTY_MODEL_SETTINGS });
   };
 
   const formatDate = (dateString?: string) => {
@@ -173,13 +414,15 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
     <div className="prompts-page-container">
       <div className="header-section">
         <h2>Manage Prompts</h2>
-        <button
-          onClick={() => setShowAddForm(true)}
-          disabled={showAddForm || editingId !== null}
-          className="add-button"
-        >
-          Add New Prompt
-        </button>
+        {canEdit && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            disabled={showAddForm || editingId !== null}
+            className="add-button"
+          >
+            Add New Prompt
+          </button>
+        )}
       </div>
 
       {error && (
@@ -230,10 +473,39 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
             <textarea
               value={formData.prompt}
               onChange={(e) => setFormData({ ...formData, prompt: e.target.value })}
-              placeholder="Enter the prompt text..."
+              placeholder="Enter the prompt text, e.g. Summarize {{title}} in {{target_language}}: {{content}}"
               className="form-textarea"
               rows={4}
             />
+            <TemplateHints template={formData.prompt} />
+          </div>
+
+          <div className="form-group">
+            <label>Target Language:</label>
+            <input
+              type="text"
+              value={formData.target_language}
+              onChange={(e) => setFormData({ ...formData, target_language: e.target.value })}
+              placeholder="Language for {{target_language}} (default: English)"
+              className="form-input"
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Model Settings:</label>
+            <ModelSettingsFields
+              settings={formData}
+              onChange={(settings) => setFormData({ ...formData, ...settings })}
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Output Schema:</label>
+            <OutputSchemaField
+              value={formData.output_schema}
+              onChange={(value) => setFormData({ ...formData, output_schema: value })}
+              className="form-textarea"
+            />
           </div>
         </div>
       )}
@@ -283,10 +555,26 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
                         Cancel
                       </button>
                     </>
-                  ) : (
+                  ) : prompt.workspace_id === null ? (
+                    <>
+                      <span className="shared-badge" title="Shared with every workspace; it can't be edited or deleted">
+                        Shared
+                      </span>
+                      {canEdit && (
+                        <button
+                          onClick={() => handleCopyPrompt(prompt)}
+                          disabled={showAddForm || editingId !== null}
+                          className="edit-button"
+                          title="Add an editable copy to this workspace"
+                        >
+                          Copy to workspace
+                        </button>
+                      )}
+                    </>
+                  ) : !canEdit ? null : (
                     <>
                       <button
-                        onClick={() => setEditingId(prompt.id)}
+                        onClick={() => startEdit(prompt)}
                         disabled={showAddForm || (editingId !== null && editingId !== prompt.id)}
                         className="edit-button"
                       >
@@ -324,18 +612,57 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
               <div className="form-group">
                 <label>Prompt Text:</label>
                 {editingId === prompt.id ? (
-                  <textarea
-                    value={prompt.prompt}
-                    onChange={(e) => updatePromptField(prompt.id, 'prompt', e.target.value)}
-                    className="edit-textarea"
-                    rows={4}
-                  />
+                  <>
+                    <textarea
+                      value={prompt.prompt}
+                      onChange={(e) => updatePromptField(prompt.id, 'prompt', e.target.value)}
+                      className="edit-textarea"
+                      rows={4}
+                    />
+                    <TemplateHints template={prompt.prompt} />
+                  </>
                 ) : (
                   <div className="prompt-text-display">
                     {prompt.prompt}
                   </div>
                 )}
               </div>
+
+              <div className="form-group">
+                <label>Target Language:</label>
+                {editingId === prompt.id ? (
+                  <input
+                    type="text"
+                    value={prompt.target_language || ""}
+                    onChange={(e) => updatePromptField(prompt.id, 'target_language', e.target.value)}
+                    className="edit-input"
+                    placeholder="Language for {{target_language}} (default: English)"
+                  />
+                ) : (
+                  <p className="description-text">{prompt.target_language || 'English (default)'}</p>
+                )}
+              </div>
+
+              <div className="form-group">
+                <label>Model Settings:</label>
+                {editingId === prompt.id ? (
+                  <ModelSettingsFields
+                    settings={prompt}
+                    onChange={(settings) => updatePromptModelSettings(prompt.id, settings)}
+                  />
+                ) : (
+                  <p className="description-text">{describeModelSettings(prompt)}</p>
+                )}
+              </div>
+
+              <div className="form-group">
+                <label>Output Schema:</label>
+                {editingId === prompt.id ? (
+                  <OutputSchemaField value={schemaDraft} onChange={setSchemaDraft} className="edit-textarea" />
+                ) : (
+                  <p className="description-text">{describeOutputSchema(prompt.output_schema)}</p>
+                )}
+              </div>
             </div>
           ))}
         </div>
@@ -436,6 +763,14 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
           color: #888;
         }
 
+        .shared-badge {
+          padding: 4px 10px;
+          font-size: 12px;
+          color: #61dafb;
+          border: 1px solid #61dafb;
+          border-radius: 12px;
+        }
+
         .action-buttons {
           display: flex;
           gap: 10px;
@@ -530,6 +865,45 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
           font-family: inherit;
         }
 
+        .schema-textarea {
+          font-family: monospace;
+          font-size: 12px;
+        }
+
+        .template-hints {
+          margin-top: 6px;
+          font-size: 12px;
+          color: #a0a0a0;
+        }
+
+        .template-variables code {
+          margin-right: 6px;
+          padding: 1px 4px;
+          border-radius: 3px;
+          background: rgba(97, 218, 251, 0.15);
+          color: #61dafb;
+          cursor: help;
+        }
+
+        .template-error,
+        .template-warning {
+          margin: 4px 0 0 0;
+        }
+
+        .template-error {
+          color: #f5a3ab;
+        }
+
+        .template-warning {
+          color: #ffd36b;
+        }
+
+        .model-settings {
+          display: grid;
+          grid-template-columns: 2fr 2fr 1fr 1fr;
+          gap: 10px;
+        }
+
         .description-text {
           margin: 0;
           color: #e0e0e0;
@@ -558,6 +932,38 @@ const PromptsPage = forwardRef<PromptsPageRef>((props, ref) => {
           .action-buttons {
             align-self: stretch;
           }
+
+          .template-hints {
+          margin-top: 6px;
+          font-size: 12px;
+          color: #a0a0a0;
+        }
+
+        .template-variables code {
+          margin-right: 6px;
+          padding: 1px 4px;
+          border-radius: 3px;
+          background: rgba(97, 218, 251, 0.15);
+          color: #61dafb;
+          cursor: help;
+        }
+
+        .template-error,
+        .template-warning {
+          margin: 4px 0 0 0;
+        }
+
+        .template-error {
+          color: #f5a3ab;
+        }
+
+        .template-warning {
+          color: #ffd36b;
+        }
+
+        .model-settings {
+            grid-template-columns: 1fr 1fr;
+          }
         }
       `}</style>
     </div>
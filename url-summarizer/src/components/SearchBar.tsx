@@ -0,0 +1,101 @@
+import { type FormEvent, useState } from "react";
+import { EMPTY_SEARCH, isSearchActive, type SearchFilters } from "../lib/search";
+
+// Search box and filters above the URL list. The filters are applied when the form
+// is submitted, so typing doesn't start a search on every key.
+
+interface SearchBarProps {
+  prompts: { id: number; prompt_name: string }[];
+  // Sites of the saved URLs, offered as suggestions
+  domains: string[];
+  searching: boolean;
+  onSearch: (filters: SearchFilters) => void;
+}
+
+const SearchBar = ({ prompts, domains, searching, onSearch }: SearchBarProps) => {
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_SEARCH);
+  const [showFilters, setShowFilters] = useState(false);
+
+  const update = (changes: Partial<SearchFilters>) => setFilters((current) => ({ ...current, ...changes }));
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    onSearch(filters);
+  };
+
+  const clear = () => {
+    setFilters(EMPTY_SEARCH);
+    onSearch(EMPTY_SEARCH);
+  };
+
+  const filterCount = [filters.promptId !== null, filters.domain.trim() !== "", !!filters.from, !!filters.to].filter(Boolean).length;
+
+  return (
+    <form className="search-bar" onSubmit={submit}>
+      <div className="search-bar-row">
+        <input
+          type="search"
+          className="search-input"
+          placeholder='Search titles, pages and summaries, e.g. "climate policy" -opinion'
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+        />
+        <button type="button" className="search-filters-toggle" onClick={() => setShowFilters(!showFilters)}>
+          Filters{filterCount > 0 && ` (${filterCount})`}
+        </button>
+        <button type="submit" className="search-button" disabled={searching}>
+          {searching ? "Searching..." : "Search"}
+        </button>
+        {isSearchActive(filters) && (
+          <button type="button" className="search-clear-button" onClick={clear}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="search-filters">
+          <label>
+            Prompt
+            <select
+              value={filters.promptId ?? ""}
+              onChange={(e) => update({ promptId: e.target.value ? Number(e.target.value) : null })}
+            >
+              <option value="">Any prompt</option>
+              {prompts.map((prompt) => (
+                <option key={prompt.id} value={prompt.id}>
+                  {prompt.prompt_name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Domain
+            <input
+              type="text"
+              list="search-domains"
+              placeholder="example.com"
+              value={filters.domain}
+              onChange={(e) => update({ domain: e.target.value })}
+            />
+            <datalist id="search-domains">
+              {domains.map((domain) => (
+                <option key={domain} value={domain} />
+              ))}
+            </datalist>
+          </label>
+          <label>
+            Added from
+            <input type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => update({ from: e.target.value })} />
+          </label>
+          <label>
+            to
+            <input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => update({ to: e.target.value })} />
+          </label>
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default SearchBar;
@@ -0,0 +1,109 @@
+// Renders the JSON produced by prompts with an output schema: objects as labelled
+// fields, arrays of values as lists and arrays of flat objects as tables.
+
+type Primitive = string | number | boolean | null;
+
+const isPrimitive = (value: unknown): value is Primitive =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// "why_it_matters" / "whyItMatters" -> "Why it matters"
+const humanizeKey = (key: string) => {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatPrimitive = (value: Primitive) => {
+  if (value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+const StructuredValue = ({ value }: { value: unknown }) => {
+  if (isPrimitive(value) || value === undefined) {
+    return <span>{formatPrimitive(value ?? null)}</span>;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return <span className="structured-empty">None</span>;
+    }
+
+    if (value.every(isPrimitive)) {
+      return (
+        <ul className="structured-list">
+          {value.map((item, index) => (
+            <li key={index}>{formatPrimitive(item)}</li>
+          ))}
+        </ul>
+      );
+    }
+
+    // Rows of flat objects read best as a table
+    if (value.every((item) => isRecord(item) && Object.values(item).every(isPrimitive))) {
+      const rows = value as Record<string, Primitive>[];
+      const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+      return (
+        <table className="structured-table">
+          <thead>
+            <tr>
+              {columns.map((column) => (
+                <th key={column}>{humanizeKey(column)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index}>
+                {columns.map((column) => (
+                  <td key={column}>{formatPrimitive(row[column] ?? null)}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+
+    return (
+      <ol className="structured-list">
+        {value.map((item, index) => (
+          <li key={index}>
+            <StructuredValue value={item} />
+          </li>
+        ))}
+      </ol>
+    );
+  }
+
+  if (isRecord(value)) {
+    return (
+      <dl className="structured-fields">
+        {Object.entries(value).map(([key, fieldValue]) => (
+          <div key={key} className="structured-field">
+            <dt>{humanizeKey(key)}</dt>
+            <dd>
+              <StructuredValue value={fieldValue} />
+            </dd>
+          </div>
+        ))}
+      </dl>
+    );
+  }
+
+  return null;
+};
+
+const StructuredResult = ({ value }: { value: unknown }) => (
+  <div className="structured-result">
+    <StructuredValue value={value} />
+  </div>
+);
+
+export default StructuredResult;
@@ -0,0 +1,95 @@
+import StructuredResult from "./StructuredResult";
+import { describeJobError, isActiveJob, JOB_STATUS_LABELS, type SummaryJob } from "../lib/jobs";
+import type { UrlChange } from "../lib/watches";
+
+// What changed on a watched page: the line diff recorded by watch-urls and the summary
+// from before the change next to the one from the re-run.
+
+interface ChangeSummary {
+  id: number;
+  created_at: string;
+  ai_response: string;
+  structured_response: unknown;
+}
+
+interface UrlChangePanelProps {
+  change: UrlChange;
+  before: ChangeSummary | null;
+  after: ChangeSummary | null;
+  // The re-run of the watch's prompt, while it hasn't produced a summary
+  job: SummaryJob | null;
+  // Left out for viewers, who can't dismiss changes
+  onDismiss?: () => void;
+}
+
+const SummaryColumn = ({ title, summary, placeholder }: {
+  title: string;
+  summary: ChangeSummary | null;
+  placeholder: string;
+}) => (
+  <div className="change-summary">
+    <h4>
+      {title}
+      {summary && <span className="change-summary-date">{new Date(summary.created_at).toLocaleString()}</span>}
+    </h4>
+    {!summary ? (
+      <p className="change-note">{placeholder}</p>
+    ) : summary.structured_response != null ? (
+      <StructuredResult value={summary.structured_response} />
+    ) : (
+      <div className="ai-response-display">{summary.ai_response}</div>
+    )}
+  </div>
+);
+
+const LINE_PREFIX = { context: " ", added: "+", removed: "−" };
+
+const UrlChangePanel = ({ change, before, after, job, onDismiss }: UrlChangePanelProps) => {
+  const afterPlaceholder = !change.job_id
+    ? "This watch doesn't re-run a prompt."
+    : job && isActiveJob(job)
+      ? `Re-running the prompt: ${job.progress || JOB_STATUS_LABELS[job.status]}`
+      : job?.status === "failed"
+        ? describeJobError(job)
+        : "The re-run didn't produce a summary.";
+
+  return (
+    <div className="change-panel">
+      <div className="change-panel-header">
+        <span>
+          Changed {new Date(change.created_at).toLocaleString()} · {Math.round(change.change_ratio * 100)}% of the text
+          · <span className="change-added">+{change.added_lines}</span>{" "}
+          <span className="change-removed">−{change.removed_lines}</span> lines
+        </span>
+        {onDismiss && (
+          <button className="change-dismiss-button" onClick={onDismiss}>
+            Dismiss
+          </button>
+        )}
+      </div>
+
+      <div className="change-diff">
+        {change.diff.hunks.map((hunk, index) => (
+          <div key={index} className="change-hunk">
+            <div className="change-hunk-header">
+              @@ line {hunk.old_start} → {hunk.new_start} @@
+            </div>
+            {hunk.lines.map((line, lineIndex) => (
+              <div key={lineIndex} className={`change-line change-line-${line.type}`}>
+                {LINE_PREFIX[line.type]} {line.text}
+              </div>
+            ))}
+          </div>
+        ))}
+        {change.diff.truncated && <p className="change-note">The rest of the diff was left out.</p>}
+      </div>
+
+      <div className="change-summaries">
+        <SummaryColumn title="Before" summary={before} placeholder="There was no summary before the change." />
+        <SummaryColumn title="After" summary={after} placeholder={afterPlaceholder} />
+      </div>
+    </div>
+  );
+};
+
+export default UrlChangePanel;
@@ -1,24 +1,72 @@
-import React, { useState, useEffect, forwardRef, useImperativeHandle } from "react";
+import React, { useState, useEffect, useRef, forwardRef, useImperativeHandle } from "react";
 import { supabase } from "../lib/supabase";
+import { invokeStreaming } from "../lib/streaming";
+import {
+  cancelJob,
+  describeJobError,
+  fetchJob,
+  isActiveJob,
+  JOB_STATUS_LABELS,
+  subscribeToJobs,
+  type SummaryJob
+} from "../lib/jobs";
+import StructuredResult from "./StructuredResult";
+import BatchRunPanel from "./BatchRunPanel";
+import ExportPanel from "./ExportPanel";
+import SearchBar from "./SearchBar";
+import UrlChangePanel from "./UrlChangePanel";
+import UrlWatchControl from "./UrlWatchControl";
+import { acknowledgeChange, fetchOpenChanges, fetchWatches, type UrlChange, type UrlWatch } from "../lib/watches";
+import { describeUsage, formatCost, formatDuration, formatTokens, type SummaryUsage } from "../lib/usage";
+import { canEditWorkspace, promptScopeFilter, type Workspace } from "../lib/workspaces";
+import { isSearchActive, type SearchFilters, type SearchResult, searchUrls, splitSnippet } from "../lib/search";
 
 interface UrlRecord {
   id: number;
   created_at: string;
   url: string;
   caption: string;
+  document_type: DocumentType | null;
+  title: string | null;
+  description: string | null;
+  site_name: string | null;
+  image_url: string | null;
+  favicon_url: string | null;
+  // Kept from bulk imports
+  tags: string[] | null;
+  saved_at: string | null;
 }
 
-interface UrlSummary {
+type DocumentType = "html" | "pdf" | "feed" | "json" | "markdown" | "text";
+
+const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  html: "Web page",
+  pdf: "PDF",
+  feed: "Feed",
+  json: "JSON",
+  markdown: "Markdown",
+  text: "Text",
+};
+
+interface UrlSummary extends SummaryUsage {
   id: number;
   url_id: number;
   prompt_id: number;
   scraped_data: string;
   ai_response: string;
+  structured_response: unknown;
   created_at: string;
+  chunk_count: number | null;
+  summary_strategy: "single" | "map_reduce" | null;
+  model: string | null;
+  snapshot_id: number | null;
   prompts?: {
     prompt_name: string;
     description: string;
   };
+  page_snapshots?: {
+    page_count: number | null;
+  } | null;
 }
 
 interface ProcessResult {
@@ -28,8 +76,29 @@ interface ProcessResult {
   original_caption: string;
   scraped_text_length: number;
   ai_response: string;
+  structured_response: unknown;
   prompt_used: string;
   model: string;
+  provider: string;
+  chunk_count: number;
+  summary_strategy: "single" | "map_reduce";
+  snapshot_id: number | null;
+  page_count: number | null;
+  document_type: DocumentType;
+  cache_status: "fresh" | "not_modified" | "unchanged" | "new";
+  usage: SummaryUsage;
+}
+
+const CACHE_STATUS_LABELS: Record<ProcessResult["cache_status"], string> = {
+  fresh: "Cached page (recently fetched)",
+  not_modified: "Cached page (server reported no changes)",
+  unchanged: "Refetched, content unchanged",
+  new: "Freshly fetched",
+};
+
+interface StreamedResponse {
+  text: string;
+  status: string;
 }
 
 interface Prompt {
@@ -43,14 +112,38 @@ export interface UrlListRef {
   refreshUrls: () => void;
 }
 
-const UrlList = forwardRef<UrlListRef>((props, ref) => {
+interface UrlListProps {
+  workspace: Workspace;
+}
+
+const UrlList = forwardRef<UrlListRef, UrlListProps>(({ workspace }, ref) => {
+  // Viewers see the URLs and summaries but don't run or change anything
+  const canEdit = canEditWorkspace(workspace);
   const [urls, setUrls] = useState<UrlRecord[]>([]);
   const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [summaries, setSummaries] = useState<UrlSummary[]>([]);
   const [loading, setLoading] = useState(true);
-  const [processingId, setProcessingId] = useState<number | null>(null);
+  // Latest summary job per URL id
+  const [jobs, setJobs] = useState<{[key: number]: SummaryJob<ProcessResult>}>({});
   const [results, setResults] = useState<ProcessResult | null>(null);
+  // Response being streamed per URL id, for runs started from its card
+  const [streaming, setStreaming] = useState<{[key: number]: StreamedResponse}>({});
+  // Jobs cancelled from this list, whose streams end in an error that isn't one
+  const cancelledJobIds = useRef(new Set<number>());
   const [selectedPrompts, setSelectedPrompts] = useState<{[key: number]: number}>({});
+  const [forceRefetch, setForceRefetch] = useState<{[key: number]: boolean}>({});
+  // URLs ticked for a batch run or an export
+  const [selectedUrls, setSelectedUrls] = useState<{[key: number]: boolean}>({});
+  const [showBatch, setShowBatch] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [watches, setWatches] = useState<{[key: number]: UrlWatch}>({});
+  // Latest change per watched URL that hasn't been dismissed
+  const [changes, setChanges] = useState<{[key: number]: UrlChange}>({});
+  const [openChanges, setOpenChanges] = useState<{[key: number]: boolean}>({});
+  // Ranked matches while a search is applied; null shows every URL
+  const [searchFilters, setSearchFilters] = useState<SearchFilters | null>(null);
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
   const [error, setError] = useState("");
 
   // Fetch URLs from database
@@ -60,6 +153,7 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
       const { data, error } = await supabase
         .from("urls")
         .select("*")
+        .eq("workspace_id", workspace.id)
         .order("created_at", { ascending: false });
 
       if (error) {
@@ -81,6 +175,7 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
       const { data, error } = await supabase
         .from("prompts")
         .select("*")
+        .or(promptScopeFilter(workspace.id))
         .order("prompt_name", { ascending: true });
 
       if (error) {
@@ -107,41 +202,140 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
     }
   };
 
-  // Process URL with ChatGPT
-  const processUrl = async (urlId: number) => {
+  // Keep the newest job for each URL
+  const trackJob = (job: SummaryJob<ProcessResult>) => {
+    setJobs(prev => {
+      const current = prev[job.url_id];
+      if (current && current.id > job.id) return prev;
+      return { ...prev, [job.url_id]: job };
+    });
+  };
+
+  // This workspace's recent jobs, newest first, so cards show work that is still queued or running
+  const fetchJobs = async () => {
     try {
-      const selectedPromptId = selectedPrompts[urlId];
-      if (!selectedPromptId) {
-        setError("Please select a prompt for this URL first");
-        return;
+      const { data, error } = await supabase
+        .from("summary_jobs")
+        .select("*, urls!inner(workspace_id)")
+        .eq("urls.workspace_id", workspace.id)
+        .order("id", { ascending: false })
+        .limit(200);
+
+      if (error) {
+        throw error;
       }
 
-      setProcessingId(urlId);
+      (data || []).forEach(trackJob);
+    } catch (err) {
+      console.error("Error fetching summary jobs:", err);
+    }
+  };
+
+  const fetchWatchState = async () => {
+    try {
+      const [watchRows, latestChanges] = await Promise.all([fetchWatches(), fetchOpenChanges()]);
+      setWatches(Object.fromEntries(watchRows.map(watch => [watch.url_id, watch])));
+      setChanges(latestChanges);
+    } catch (err) {
+      console.error("Error fetching watches:", err);
+    }
+  };
+
+  const updateWatch = (urlId: number, watch: UrlWatch | null) => {
+    setWatches(prev => {
+      const next = { ...prev };
+      if (watch) next[urlId] = watch;
+      else delete next[urlId];
+      return next;
+    });
+  };
+
+  const dismissChange = async (change: UrlChange) => {
+    try {
+      await acknowledgeChange(change);
+      setChanges(prev => {
+        const next = { ...prev };
+        delete next[change.url_id];
+        return next;
+      });
+    } catch (err) {
+      setError(`Failed to dismiss the change: ${(err as Error).message}`);
+    }
+  };
+
+  const handleJobUpdate = (job: SummaryJob<ProcessResult>) => {
+    trackJob(job);
+    if (!isActiveJob(job) && Object.values(changes).some(change => change.job_id === job.id)) {
+      // A re-run for a changed page finished
+      fetchWatchState();
+    }
+    if (job.status === "succeeded") {
+      fetchSummaries();
+      // The scrape may have filled in the title, description etc.
+      fetchUrls();
+    }
+  };
+
+  const updateStreaming = (urlId: number, update: (current: StreamedResponse) => StreamedResponse) => {
+    setStreaming(prev => (prev[urlId] ? { ...prev, [urlId]: update(prev[urlId]) } : prev));
+  };
+
+  // Run a summary as a job streamed to this card; the job row still records its status
+  const processUrl = async (urlId: number) => {
+    const selectedPromptId = selectedPrompts[urlId];
+    if (!selectedPromptId) {
+      setError("Please select a prompt for this URL first");
+      return;
+    }
+
+    let jobId: number | null = null;
+    try {
       setError("");
       setResults(null);
+      setStreaming(prev => ({ ...prev, [urlId]: { text: "", status: "" } }));
 
-      const { data, error: functionError } = await supabase.functions.invoke(
+      const data = await invokeStreaming<ProcessResult>(
         "process-url",
         {
-          body: {
-            url_id: urlId,
-            prompt_id: selectedPromptId,
+          url_id: urlId,
+          prompt_id: selectedPromptId,
+          force_refresh: !!forceRefetch[urlId],
+        },
+        {
+          onJob: (id) => {
+            jobId = id;
+            fetchJob<ProcessResult>(id).then(trackJob).catch(err => console.error("Error fetching the job:", err));
           },
+          onToken: (text) => updateStreaming(urlId, current => ({ ...current, text: current.text + text })),
+          onStatus: (status) => updateStreaming(urlId, current => ({ ...current, status })),
         }
       );
 
-      if (functionError) {
-        throw functionError;
-      }
-
       setResults(data);
-      // Refresh summaries after processing
-      fetchSummaries();
+      // Refresh summaries before the streamed text is cleared
+      await fetchSummaries();
     } catch (err: any) {
-      setError(`Failed to process URL: ${err.message}`);
-      console.error("Error processing URL:", err);
+      if (jobId === null || !cancelledJobIds.current.has(jobId)) {
+        setError(`Failed to process URL: ${err.message}`);
+        console.error("Error processing URL:", err);
+      }
     } finally {
-      setProcessingId(null);
+      if (jobId !== null) cancelledJobIds.current.delete(jobId);
+      setStreaming(prev => {
+        const next = { ...prev };
+        delete next[urlId];
+        return next;
+      });
+    }
+  };
+
+  const cancelUrlJob = async (job: SummaryJob) => {
+    try {
+      cancelledJobIds.current.add(job.id);
+      await cancelJob(job.id);
+    } catch (err) {
+      cancelledJobIds.current.delete(job.id);
+      setError(`Failed to cancel: ${(err as Error).message}`);
     }
   };
 
@@ -155,8 +349,12 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
           prompts (
             prompt_name,
             description
+          ),
+          page_snapshots (
+            page_count
           )
         `)
+        .eq("workspace_id", workspace.id)
         .order("created_at", { ascending: false });
 
       if (error) {
@@ -178,13 +376,65 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
     }
   }));
 
-  // Load URLs, prompts, and summaries on component mount
+  // Load URLs, prompts and summaries on component mount; jobs once the subscription is ready
   useEffect(() => {
     fetchUrls();
     fetchPrompts();
     fetchSummaries();
+    fetchWatchState();
   }, []);
 
+  // Live job status; the subscription outlives renders, so it calls the latest handlers
+  const jobUpdateHandler = useRef(handleJobUpdate);
+  jobUpdateHandler.current = handleJobUpdate;
+  const jobsLoader = useRef(fetchJobs);
+  jobsLoader.current = fetchJobs;
+  useEffect(
+    () => subscribeToJobs(
+      (job) => jobUpdateHandler.current(job as SummaryJob<ProcessResult>),
+      undefined,
+      // Catch up on changes made before the subscription started
+      () => jobsLoader.current()
+    ),
+    []
+  );
+
+  // Fetch a page of search results; later pages are appended
+  const runSearch = async (filters: SearchFilters, offset = 0) => {
+    if (!isSearchActive(filters)) {
+      setSearchFilters(null);
+      setSearchResults(null);
+      return;
+    }
+
+    try {
+      setSearching(true);
+      setError("");
+      const results = await searchUrls(workspace.id, filters, offset);
+      setSearchFilters(filters);
+      setSearchResults(prev => (offset > 0 && prev ? [...prev, ...results] : results));
+    } catch (err) {
+      setError(`Search failed: ${(err as Error).message}`);
+      console.error("Error searching URLs:", err);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const searchResultsById = new Map((searchResults ?? []).map(result => [result.url_id, result]));
+  // Search results keep their ranking; URLs saved since the search aren't loaded yet
+  const visibleUrls = searchResults
+    ? searchResults.flatMap(result => urls.filter(url => url.id === result.url_id))
+    : urls;
+  const searchTotal = searchResults?.[0]?.total_count ?? 0;
+
+  const selectedUrlRecords = urls.filter(url => selectedUrls[url.id]);
+  const allSelected = visibleUrls.length > 0 && visibleUrls.every(url => selectedUrls[url.id]);
+
+  const toggleAllUrls = (checked: boolean) => {
+    setSelectedUrls(checked ? Object.fromEntries(visibleUrls.map(url => [url.id, true])) : {});
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
@@ -193,17 +443,41 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
     return url.length > maxLength ? `${url.substring(0, maxLength)}...` : url;
   };
 
+  const siteFromUrl = (url: string) => {
+    try {
+      return new URL(url).hostname.replace(/^www\./, "");
+    } catch {
+      return url;
+    }
+  };
+
+  const domains = [...new Set(urls.map(url => siteFromUrl(url.url)))].sort();
+
+  const renderSnippet = (snippet: string) =>
+    splitSnippet(snippet).map((part, index) =>
+      part.highlighted ? <mark key={index}>{part.text}</mark> : <React.Fragment key={index}>{part.text}</React.Fragment>
+    );
+
   return (
     <div className="url-list-container">
       <div className="header-section">
         <h2>Saved URLs</h2>
-        <button
-          onClick={fetchUrls}
-          disabled={loading}
-          className="refresh-button"
-        >
-          {loading ? "Loading..." : "Refresh"}
-        </button>
+        <div className="header-actions">
+          <button
+            onClick={() => setShowExport(true)}
+            disabled={urls.length === 0 || showExport}
+            className="export-open-button"
+          >
+            Export
+          </button>
+          <button
+            onClick={fetchUrls}
+            disabled={loading}
+            className="refresh-button"
+          >
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
       </div>
 
 
@@ -213,6 +487,58 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
         </div>
       )}
 
+      {urls.length > 0 && (
+        <SearchBar prompts={prompts} domains={domains} searching={searching} onSearch={(filters) => runSearch(filters)} />
+      )}
+
+      {searchResults && (
+        <p className="search-summary">
+          {searchTotal === 0
+            ? "No URLs match the search."
+            : `${searchTotal} ${searchTotal === 1 ? "URL matches" : "URLs match"}, best match first`}
+        </p>
+      )}
+
+      {canEdit && urls.length > 0 && (
+        <div className="selection-bar">
+          <label className="select-all-toggle">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={(e) => toggleAllUrls(e.target.checked)}
+            />
+            {selectedUrlRecords.length > 0 ? `${selectedUrlRecords.length} selected` : "Select all"}
+          </label>
+          <button
+            onClick={() => setShowBatch(true)}
+            disabled={selectedUrlRecords.length === 0 || showBatch}
+            className="batch-open-button"
+          >
+            Run prompts on selected
+          </button>
+        </div>
+      )}
+
+      {showExport && (
+        <ExportPanel
+          workspace={workspace}
+          selectedUrlIds={selectedUrlRecords.map(url => url.id)}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showBatch && (
+        <BatchRunPanel
+          workspaceId={workspace.id}
+          urls={selectedUrlRecords.map(url => ({
+            id: url.id,
+            label: url.title || url.caption || url.url,
+          }))}
+          prompts={prompts}
+          onClose={() => setShowBatch(false)}
+        />
+      )}
+
       {loading ? (
         <div className="loading">
           <p>Loading URLs...</p>
@@ -223,57 +549,228 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
         </div>
       ) : (
         <div className="urls-grid">
-          {urls.map((urlRecord) => {
+          {visibleUrls.map((urlRecord) => {
             const urlSummaries = summaries.filter(s => s.url_id === urlRecord.id);
             const hasSummary = urlSummaries.length > 0;
+            // Summaries are newest first, so this is the page count of the latest PDF scrape
+            const pageCount = urlSummaries.find(s => s.page_snapshots?.page_count)?.page_snapshots?.page_count;
+            const job = jobs[urlRecord.id];
+            const jobActive = !!job && isActiveJob(job);
+            const streamed = streaming[urlRecord.id];
+            const change = changes[urlRecord.id];
+            // Live status of the change's re-run when it is the card's latest job
+            const changeJob = change && (job?.id === change.job_id ? job : change.summary_jobs ?? null);
+            const searchResult = searchResultsById.get(urlRecord.id);
             
             return (
               <div key={urlRecord.id} className="url-card">
                 {/* Top section with prompt selector and analyze button */}
-                <div className="url-card-header">
-                  <div className="url-prompt-section">
-                    <select
-                      value={selectedPrompts[urlRecord.id] || ""}
-                      onChange={(e) => setSelectedPrompts(prev => ({
+                {canEdit && (
+                  <div className="url-card-header">
+                    <input
+                      type="checkbox"
+                      className="url-select-checkbox"
+                      title="Select for a batch run"
+                      checked={!!selectedUrls[urlRecord.id]}
+                      onChange={(e) => setSelectedUrls(prev => ({
                         ...prev,
-                        [urlRecord.id]: e.target.value ? Number(e.target.value) : 0
+                        [urlRecord.id]: e.target.checked
                       }))}
-                      className="url-prompt-select"
+                    />
+                    <div className="url-prompt-section">
+                      <select
+                        value={selectedPrompts[urlRecord.id] || ""}
+                        onChange={(e) => setSelectedPrompts(prev => ({
+                          ...prev,
+                          [urlRecord.id]: e.target.value ? Number(e.target.value) : 0
+                        }))}
+                        className="url-prompt-select"
+                      >
+                        <option value="">Choose prompt...</option>
+                        {prompts.map((prompt) => (
+                          <option key={prompt.id} value={prompt.id}>
+                            {prompt.prompt_name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <label className="refetch-toggle" title="Ignore the cached copy of the page and download it again">
+                      <input
+                        type="checkbox"
+                        checked={!!forceRefetch[urlRecord.id]}
+                        onChange={(e) => setForceRefetch(prev => ({
+                          ...prev,
+                          [urlRecord.id]: e.target.checked
+                        }))}
+                      />
+                      Refetch
+                    </label>
+
+                    <button
+                      onClick={() => processUrl(urlRecord.id)}
+                      disabled={jobActive || !!streamed || !selectedPrompts[urlRecord.id]}
+                      className="analyze-button"
                     >
-                      <option value="">Choose prompt...</option>
-                      {prompts.map((prompt) => (
-                        <option key={prompt.id} value={prompt.id}>
-                          {prompt.prompt_name}
-                        </option>
-                      ))}
-                    </select>
+                      {jobActive || streamed ? "Analyzing..." : "Analyze"}
+                    </button>
                   </div>
+                )}
 
-                  <button
-                    onClick={() => processUrl(urlRecord.id)}
-                    disabled={processingId === urlRecord.id || !selectedPrompts[urlRecord.id]}
-                    className="analyze-button"
-                  >
-                    {processingId === urlRecord.id ? "Analyzing..." : "Analyze"}
-                  </button>
+                {/* Page preview: image, title and site from the scraped metadata */}
+                <div className="url-preview">
+                  {urlRecord.image_url && (
+                    <img
+                      src={urlRecord.image_url}
+                      alt=""
+                      loading="lazy"
+                      className="url-preview-image"
+                      onError={(e) => { e.currentTarget.style.display = "none"; }}
+                    />
+                  )}
+                  <div className="url-preview-text">
+                    <a
+                      href={urlRecord.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="url-title"
+                      title={urlRecord.url}
+                    >
+                      {urlRecord.title || urlRecord.caption || truncateUrl(urlRecord.url, 60)}
+                    </a>
+                    {urlRecord.description && (
+                      <p className="url-description">{urlRecord.description}</p>
+                    )}
+                  </div>
                 </div>
 
+                {/* Where the search matched, best matching summary first */}
+                {searchResult && (searchResult.summary_snippet || searchResult.content_snippet) && (
+                  <div className="search-snippets">
+                    {searchResult.summary_snippet && (
+                      <p>
+                        <span className="search-snippet-label">
+                          {searchResult.prompt_name ?? "Summary"}
+                          {searchResult.matching_summaries > 1 && ` (+${searchResult.matching_summaries - 1} more)`}:
+                        </span>{" "}
+                        {renderSnippet(searchResult.summary_snippet)}
+                      </p>
+                    )}
+                    {searchResult.content_snippet && (
+                      <p>
+                        <span className="search-snippet-label">Page:</span> {renderSnippet(searchResult.content_snippet)}
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* URL info section - smaller and less prominent */}
                 <div className="url-meta">
-                  <a
-                    href={urlRecord.url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="url-link-small"
-                    title={urlRecord.url}
-                  >
-                    {truncateUrl(urlRecord.url, 60)}
-                  </a>
+                  <span className="url-site" title={urlRecord.url}>
+                    {urlRecord.favicon_url && (
+                      <img
+                        src={urlRecord.favicon_url}
+                        alt=""
+                        className="url-favicon"
+                        onError={(e) => { e.currentTarget.style.display = "none"; }}
+                      />
+                    )}
+                    {urlRecord.site_name || siteFromUrl(urlRecord.url)}
+                  </span>
+                  {urlRecord.document_type && (
+                    <span className={`document-type-badge type-${urlRecord.document_type}`}>
+                      {DOCUMENT_TYPE_LABELS[urlRecord.document_type]}
+                    </span>
+                  )}
+                  {pageCount && (
+                    <span className="url-page-count" title="PDF document">
+                      📄 {pageCount} {pageCount === 1 ? "page" : "pages"}
+                    </span>
+                  )}
                   <span className="url-date-small">
                     Added: {formatDate(urlRecord.created_at)}
                   </span>
+                  {urlRecord.saved_at && (
+                    <span className="url-date-small" title="When the link was saved before it was imported">
+                      Saved: {formatDate(urlRecord.saved_at)}
+                    </span>
+                  )}
+                  {urlRecord.tags?.map((tag) => (
+                    <span key={tag} className="url-tag">{tag}</span>
+                  ))}
                 </div>
 
+                {canEdit && (
+                  <UrlWatchControl
+                    urlId={urlRecord.id}
+                    watch={watches[urlRecord.id] ?? null}
+                    prompts={prompts}
+                    onChange={(watch) => updateWatch(urlRecord.id, watch)}
+                  />
+                )}
+
+                {/* The page changed since the summary was written */}
+                {change && (
+                  <div className="change-indicator">
+                    <button
+                      className="change-toggle"
+                      onClick={() => setOpenChanges(prev => ({ ...prev, [urlRecord.id]: !prev[urlRecord.id] }))}
+                    >
+                      ⚠ Changed since last analysis ({formatDate(change.created_at)})
+                      {openChanges[urlRecord.id] ? " ▲" : " ▼"}
+                    </button>
+                    {openChanges[urlRecord.id] && (
+                      <UrlChangePanel
+                        change={change}
+                        before={summaries.find(s => s.id === change.previous_summary_id) ?? null}
+                        after={summaries.find(s => !!changeJob?.summary_id && s.id === changeJob.summary_id) ?? null}
+                        job={changeJob}
+                        onDismiss={canEdit ? () => dismissChange(change) : undefined}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {/* Status of the latest job for this URL */}
+                {job && job.status !== "succeeded" && (
+                  <div className={`job-status job-${job.status}`}>
+                    <span className="job-status-label">
+                      {prompts.find(p => p.id === job.prompt_id)?.prompt_name || "Summary"}:{" "}
+                      {JOB_STATUS_LABELS[job.status]}
+                      {job.attempts > 1 && ` (attempt ${job.attempts} of ${job.max_attempts})`}
+                    </span>
+                    {jobActive && !streamed && (
+                      <span className="job-progress">
+                        {job.progress || (job.status === "queued" ? "Waiting for a worker..." : "Working...")}
+                      </span>
+                    )}
+                    {job.status === "failed" && (
+                      <span className="job-error">{describeJobError(job)}</span>
+                    )}
+                    {canEdit && jobActive && (
+                      <button className="job-cancel-button" onClick={() => cancelUrlJob(job)}>
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {/* Response being streamed for this URL */}
+                {streamed && (
+                  <div className="summary-item streaming">
+                    <div className="summary-header">
+                      <span className="prompt-name">
+                        {prompts.find(p => p.id === selectedPrompts[urlRecord.id])?.prompt_name || "Analyzing"}
+                      </span>
+                      <span className="summary-date">{streamed.status || "Generating..."}</span>
+                    </div>
+                    <div className="ai-response-display">
+                      {streamed.text}
+                      <span className="streaming-cursor">▍</span>
+                    </div>
+                  </div>
+                )}
+
                 {/* Summary section - prominent if exists */}
                 {hasSummary ? (
                   <div className="summaries-section">
@@ -281,12 +778,32 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
                     {urlSummaries.map((summary) => (
                       <div key={summary.id} className="summary-item">
                         <div className="summary-header">
-                          <span className="prompt-name">{summary.prompts?.prompt_name || 'Unknown Prompt'}</span>
+                          <span className="prompt-name">
+                            {summary.prompts?.prompt_name || 'Unknown Prompt'}
+                            {summary.model && <span className="summary-model">{summary.model}</span>}
+                          </span>
+                          {summary.summary_strategy === "map_reduce" && (
+                            <span
+                              className="summary-coverage"
+                              title="The page was split into chunks so the whole document was summarized"
+                            >
+                              Full document · {summary.chunk_count} chunks
+                            </span>
+                          )}
+                          {describeUsage(summary) && (
+                            <span className="summary-usage" title="Prompt + completion tokens · estimated cost · total time">
+                              {describeUsage(summary)}
+                            </span>
+                          )}
                           <span className="summary-date">{formatDate(summary.created_at)}</span>
                         </div>
-                        <div className="ai-response-display">
-                          {summary.ai_response}
-                        </div>
+                        {summary.structured_response != null ? (
+                          <StructuredResult value={summary.structured_response} />
+                        ) : (
+                          <div className="ai-response-display">
+                            {summary.ai_response}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -301,6 +818,16 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
         </div>
       )}
 
+      {searchResults && searchFilters && searchResults.length < searchTotal && (
+        <button
+          className="search-more-button"
+          onClick={() => runSearch(searchFilters, searchResults.length)}
+          disabled={searching}
+        >
+          {searching ? "Loading..." : `Show more results (${searchTotal - searchResults.length} left)`}
+        </button>
+      )}
+
       {/* Results Display */}
       {results && (
         <div className="results-section">
@@ -311,7 +838,7 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
                 <strong>URL ID:</strong> {results.url_id}
               </span>
               <span>
-                <strong>Model:</strong> {results.model}
+                <strong>Model:</strong> {results.model} ({results.provider})
               </span>
             </div>
 
@@ -323,10 +850,41 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
             </div>
 
             <div className="result-stats">
+              <span>
+                <strong>Type:</strong> {DOCUMENT_TYPE_LABELS[results.document_type]}
+              </span>
               <span>
                 <strong>Text Length:</strong> {results.scraped_text_length}{" "}
                 characters
               </span>
+              {results.page_count !== null && (
+                <span>
+                  <strong>PDF Pages:</strong> {results.page_count}
+                </span>
+              )}
+              <span>
+                <strong>Chunks:</strong> {results.chunk_count}
+              </span>
+              <span>
+                <strong>Page:</strong> {CACHE_STATUS_LABELS[results.cache_status]}
+                {results.snapshot_id !== null && ` (snapshot #${results.snapshot_id})`}
+              </span>
+              {results.usage && (
+                <>
+                  <span>
+                    <strong>Tokens:</strong> {formatTokens(results.usage.prompt_tokens)} prompt,{" "}
+                    {formatTokens(results.usage.completion_tokens)} completion
+                    {results.usage.tokens_estimated && " (estimated)"}
+                  </span>
+                  <span>
+                    <strong>Cost:</strong> {formatCost(results.usage.cost_usd)}
+                  </span>
+                  <span>
+                    <strong>Time:</strong> {formatDuration(results.usage.total_ms)} (scrape{" "}
+                    {formatDuration(results.usage.scrape_ms)}, model {formatDuration(results.usage.llm_ms)})
+                  </span>
+                </>
+              )}
               <span>
                 <strong>Original Caption:</strong> {results.original_caption}
               </span>
@@ -339,6 +897,9 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
 
             <div className="ai-response">
               <strong>AI Response:</strong>
+              {results.structured_response != null && (
+                <StructuredResult value={results.structured_response} />
+              )}
               <textarea
                 value={results.ai_response}
                 readOnly
@@ -390,6 +951,75 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
           cursor: not-allowed;
         }
 
+        .search-summary {
+          margin: 0 0 12px;
+          font-size: 13px;
+          color: #a0a0a0;
+          text-align: left;
+        }
+
+        .search-snippets {
+          margin: 8px 0;
+          padding: 8px 10px;
+          font-size: 12px;
+          line-height: 1.5;
+          color: #d0d0d0;
+          text-align: left;
+          background: rgba(97, 218, 251, 0.06);
+          border-radius: 4px;
+        }
+
+        .search-snippets p {
+          margin: 0 0 4px;
+        }
+
+        .search-snippets p:last-child {
+          margin-bottom: 0;
+        }
+
+        .search-snippets mark {
+          background-color: rgba(255, 215, 0, 0.35);
+          color: inherit;
+          border-radius: 2px;
+        }
+
+        .search-snippet-label {
+          color: #61dafb;
+          font-weight: 600;
+        }
+
+        .search-more-button {
+          display: block;
+          margin: 0 auto 30px;
+          padding: 8px 16px;
+          background-color: transparent;
+          color: #61dafb;
+          border: 1px solid #61dafb;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 14px;
+        }
+
+        .header-actions {
+          display: flex;
+          gap: 8px;
+        }
+
+        .export-open-button {
+          padding: 8px 16px;
+          background-color: transparent;
+          color: #61dafb;
+          border: 1px solid #61dafb;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 14px;
+        }
+
+        .export-open-button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
         .prompt-section {
           margin-bottom: 20px;
           padding: 15px;
@@ -513,6 +1143,16 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
           box-sizing: border-box;
         }
 
+        .refetch-toggle {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          font-size: 12px;
+          color: #a0a0a0;
+          white-space: nowrap;
+          cursor: pointer;
+        }
+
         .analyze-button {
           padding: 8px 16px;
           background-color: #007bff;
@@ -535,21 +1175,75 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
 
         .url-meta {
           display: flex;
+          flex-wrap: wrap;
           justify-content: space-between;
           align-items: center;
+          gap: 8px;
           margin-bottom: 20px;
           font-size: 12px;
           color: #a0a0a0;
         }
 
-        .url-link-small {
-          color: #61dafb;
+        .url-preview {
+          display: flex;
+          gap: 12px;
+          margin-bottom: 10px;
+        }
+
+        .url-preview-image {
+          width: 96px;
+          height: 64px;
+          object-fit: cover;
+          border-radius: 6px;
+          flex-shrink: 0;
+          background: #1a1a1a;
+        }
+
+        .url-preview-text {
+          min-width: 0;
+        }
+
+        .url-title {
+          color: #e0e0e0;
+          font-size: 15px;
+          font-weight: 600;
+          line-height: 1.3;
           text-decoration: none;
+          display: -webkit-box;
+          -webkit-line-clamp: 2;
+          -webkit-box-orient: vertical;
+          overflow: hidden;
+        }
+
+        .url-title:hover {
+          color: #61dafb;
+        }
+
+        .url-description {
+          margin: 4px 0 0;
           font-size: 12px;
+          color: #a0a0a0;
+          line-height: 1.4;
+          display: -webkit-box;
+          -webkit-line-clamp: 2;
+          -webkit-box-orient: vertical;
+          overflow: hidden;
         }
 
-        .url-link-small:hover {
-          text-decoration: underline;
+        .url-site {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          min-width: 0;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+
+        .url-favicon {
+          width: 14px;
+          height: 14px;
+          flex-shrink: 0;
         }
 
         .url-date-small {
@@ -557,6 +1251,40 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
           color: #888;
         }
 
+        .document-type-badge {
+          font-size: 10px;
+          font-weight: 600;
+          text-transform: uppercase;
+          letter-spacing: 0.5px;
+          padding: 2px 6px;
+          border-radius: 4px;
+          background: rgba(160, 160, 160, 0.15);
+          color: #a0a0a0;
+          white-space: nowrap;
+        }
+
+        .document-type-badge.type-pdf {
+          background: rgba(229, 115, 115, 0.15);
+          color: #e57373;
+        }
+
+        .document-type-badge.type-feed {
+          background: rgba(255, 183, 77, 0.15);
+          color: #ffb74d;
+        }
+
+        .document-type-badge.type-json,
+        .document-type-badge.type-markdown {
+          background: rgba(100, 181, 246, 0.15);
+          color: #64b5f6;
+        }
+
+        .url-page-count {
+          font-size: 11px;
+          color: #a0a0a0;
+          white-space: nowrap;
+        }
+
         .summaries-section {
           margin-top: 20px;
         }
@@ -598,6 +1326,135 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
           color: #888;
         }
 
+        .summary-model {
+          font-weight: normal;
+          font-size: 11px;
+          color: #a0a0a0;
+          margin-left: 8px;
+        }
+
+        .job-status {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 10px;
+          margin: 10px 0 15px;
+          padding: 10px 12px;
+          border-radius: 6px;
+          border: 1px dashed rgba(97, 218, 251, 0.5);
+          background: rgba(97, 218, 251, 0.05);
+          font-size: 13px;
+        }
+
+        .job-status.job-failed {
+          border-color: rgba(255, 87, 87, 0.6);
+          background: rgba(255, 87, 87, 0.08);
+        }
+
+        .job-status.job-cancelled {
+          border-color: rgba(255, 255, 255, 0.2);
+          background: transparent;
+        }
+
+        .job-status-label {
+          font-weight: bold;
+          color: #61dafb;
+        }
+
+        .job-failed .job-status-label {
+          color: #ff9999;
+        }
+
+        .job-cancelled .job-status-label {
+          color: #a0a0a0;
+        }
+
+        .job-progress {
+          color: #c0c0c0;
+        }
+
+        .job-error {
+          color: #ffb3b3;
+          flex-basis: 100%;
+        }
+
+        .url-tag {
+          padding: 1px 8px;
+          font-size: 11px;
+          color: #61dafb;
+          border: 1px solid rgba(97, 218, 251, 0.4);
+          border-radius: 10px;
+        }
+
+        .selection-bar {
+          display: flex;
+          align-items: center;
+          gap: 15px;
+          margin-bottom: 15px;
+          font-size: 14px;
+        }
+
+        .select-all-toggle {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          cursor: pointer;
+        }
+
+        .batch-open-button {
+          padding: 6px 14px;
+          background-color: #007bff;
+          color: white;
+          border: none;
+          border-radius: 4px;
+          cursor: pointer;
+          font-size: 14px;
+        }
+
+        .batch-open-button:disabled {
+          background-color: #6c757d;
+          cursor: not-allowed;
+        }
+
+        .url-select-checkbox {
+          width: 18px;
+          height: 18px;
+          cursor: pointer;
+        }
+
+        .job-cancel-button {
+          margin-left: auto;
+          padding: 3px 10px;
+          font-size: 12px;
+          background: transparent;
+          color: #e0e0e0;
+          border: 1px solid rgba(255, 255, 255, 0.3);
+          border-radius: 4px;
+          cursor: pointer;
+        }
+
+        .job-cancel-button:hover {
+          border-color: #ff9999;
+          color: #ff9999;
+        }
+
+        .summary-usage {
+          font-size: 11px;
+          color: #a0a0a0;
+          margin-left: auto;
+          margin-right: 10px;
+        }
+
+        .summary-coverage {
+          font-size: 11px;
+          color: #61dafb;
+          border: 1px solid rgba(97, 218, 251, 0.4);
+          border-radius: 10px;
+          padding: 2px 8px;
+          margin-left: auto;
+          margin-right: 10px;
+        }
+
         .ai-response-display {
           color: #e0e0e0;
           line-height: 1.6;
@@ -606,6 +1463,23 @@ const UrlList = forwardRef<UrlListRef>((props, ref) => {
           padding: 12px;
           border-radius: 4px;
           border-left: 3px solid #61dafb;
+          white-space: pre-wrap;
+        }
+
+        .summary-item.streaming {
+          margin-bottom: 15px;
+          border-style: dashed;
+        }
+
+        .streaming-cursor {
+          color: #61dafb;
+          animation: blink 1s step-start infinite;
+        }
+
+        @keyframes blink {
+          50% {
+            opacity: 0;
+          }
         }
 
         .no-summary {
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { deleteWatch, describeInterval, saveWatch, type UrlWatch, WATCH_INTERVALS } from "../lib/watches";
+
+// Watch settings for one URL card: how often the page is re-scraped and which prompt
+// runs again when it changes.
+
+interface WatchPrompt {
+  id: number;
+  prompt_name: string;
+}
+
+interface UrlWatchControlProps {
+  urlId: number;
+  watch: UrlWatch | null;
+  prompts: WatchPrompt[];
+  onChange: (watch: UrlWatch | null) => void;
+}
+
+const UrlWatchControl = ({ urlId, watch, prompts, onChange }: UrlWatchControlProps) => {
+  const [open, setOpen] = useState(false);
+  const [intervalMinutes, setIntervalMinutes] = useState(1440);
+  const [promptId, setPromptId] = useState<number | null>(null);
+  const [enabled, setEnabled] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  // The form starts from the saved settings each time it opens
+  const toggleSettings = () => {
+    if (!open) {
+      setIntervalMinutes(watch?.interval_minutes ?? 1440);
+      setPromptId(watch ? watch.prompt_id : prompts[0]?.id ?? null);
+      setEnabled(watch?.enabled ?? true);
+      setError("");
+    }
+    setOpen(!open);
+  };
+
+  const run = async (action: () => Promise<UrlWatch | null>) => {
+    try {
+      setSaving(true);
+      setError("");
+      onChange(await action());
+      setOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const status = !watch
+    ? null
+    : !watch.enabled
+      ? "Paused"
+      : `${describeInterval(watch.interval_minutes)}${
+          watch.last_checked_at ? ` · checked ${new Date(watch.last_checked_at).toLocaleString()}` : ""
+        }`;
+
+  return (
+    <div className="watch-control">
+      <button
+        className={`watch-toggle${watch?.enabled ? " watch-active" : ""}`}
+        onClick={toggleSettings}
+        title="Re-scrape this page on a schedule and flag changes"
+      >
+        👁 {watch ? "Watching" : "Watch"}
+      </button>
+      {status && <span className="watch-status">{status}</span>}
+      {watch?.last_error && (
+        <span className="watch-error" title={watch.last_error}>
+          Last check failed
+        </span>
+      )}
+
+      {open && (
+        <div className="watch-settings">
+          <label>
+            Check{" "}
+            <select value={intervalMinutes} onChange={(e) => setIntervalMinutes(Number(e.target.value))}>
+              {WATCH_INTERVALS.map((interval) => (
+                <option key={interval.minutes} value={interval.minutes}>
+                  {interval.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            On change, run{" "}
+            <select
+              value={promptId ?? ""}
+              onChange={(e) => setPromptId(e.target.value ? Number(e.target.value) : null)}
+            >
+              <option value="">No prompt (only flag the change)</option>
+              {prompts.map((prompt) => (
+                <option key={prompt.id} value={prompt.id}>
+                  {prompt.prompt_name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+            Enabled
+          </label>
+          <button
+            className="watch-save-button"
+            disabled={saving}
+            onClick={() =>
+              run(() => saveWatch(urlId, { interval_minutes: intervalMinutes, prompt_id: promptId, enabled }))
+            }
+          >
+            Save
+          </button>
+          {watch && (
+            <button
+              className="watch-remove-button"
+              disabled={saving}
+              onClick={() => run(async () => {
+                await deleteWatch(urlId);
+                return null;
+              })}
+            >
+              Stop watching
+            </button>
+          )}
+          {error && <span className="watch-error">{error}</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UrlWatchControl;
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { supabase } from "../lib/supabase";
+import { formatCost, formatDuration, formatTokens } from "../lib/usage";
+import { fetchMembers, type Workspace } from "../lib/workspaces";
+
+// A row of the summary_usage view: one day, prompt and user, in the current workspace
+interface UsageRow {
+  day: string;
+  prompt_id: number | null;
+  prompt_name: string | null;
+  user_id: string | null;
+  // Looked up among the workspace's members
+  user_email?: string | null;
+  summaries: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number | string;
+  unpriced_summaries: number;
+  avg_total_ms: number | string | null;
+}
+
+type GroupBy = "day" | "prompt" | "user";
+
+interface UsageGroup {
+  key: string;
+  label: string;
+  summaries: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpriced: number;
+  // Weighted by summaries so the combined average is correct
+  totalMs: number;
+  timedSummaries: number;
+}
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  day: "Day",
+  prompt: "Prompt",
+  user: "User",
+};
+
+const groupKey = (row: UsageRow, groupBy: GroupBy) => {
+  switch (groupBy) {
+    case "day":
+      return { key: row.day, label: row.day };
+    case "prompt":
+      return { key: String(row.prompt_id), label: row.prompt_name || "Deleted prompt" };
+    case "user":
+      return { key: row.user_id || "anonymous", label: row.user_email || row.user_id || "Anonymous" };
+  }
+};
+
+const aggregate = (rows: UsageRow[], groupBy: GroupBy): UsageGroup[] => {
+  const groups = new Map<string, UsageGroup>();
+
+  for (const row of rows) {
+    const { key, label } = groupKey(row, groupBy);
+    const group = groups.get(key) || {
+      key,
+      label,
+      summaries: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cost: 0,
+      unpriced: 0,
+      totalMs: 0,
+      timedSummaries: 0,
+    };
+    group.summaries += row.summaries;
+    group.promptTokens += row.prompt_tokens;
+    group.completionTokens += row.completion_tokens;
+    group.cost += Number(row.cost_usd);
+    group.unpriced += row.unpriced_summaries;
+    if (row.avg_total_ms !== null) {
+      group.totalMs += Number(row.avg_total_ms) * row.summaries;
+      group.timedSummaries += row.summaries;
+    }
+    groups.set(key, group);
+  }
+
+  const sorted = Array.from(groups.values());
+  return groupBy === "day"
+    ? sorted.sort((a, b) => b.key.localeCompare(a.key))
+    : sorted.sort((a, b) => b.cost - a.cost);
+};
+
+interface UsagePageProps {
+  workspace: Workspace;
+}
+
+const UsagePage = ({ workspace }: UsagePageProps) => {
+  const [rows, setRows] = useState<UsageRow[]>([]);
+  const [days, setDays] = useState(30);
+  const [groupBy, setGroupBy] = useState<GroupBy>("day");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      setLoading(true);
+      setError("");
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      const [{ data, error }, members] = await Promise.all([
+        supabase
+          .from("summary_usage")
+          .select("*")
+          .eq("workspace_id", workspace.id)
+          .gte("day", since)
+          .order("day", { ascending: false }),
+        // Only used for labels, so a failure just leaves user ids
+        fetchMembers(workspace.id).catch(() => []),
+      ]);
+
+      if (error) {
+        setError(`Failed to load usage: ${error.message}`);
+        setRows([]);
+      } else {
+        const emails = new Map(members.map((member) => [member.user_id, member.email]));
+        setRows(((data || []) as UsageRow[]).map((row) => ({ ...row, user_email: row.user_id ? emails.get(row.user_id) : null })));
+      }
+      setLoading(false);
+    };
+
+    fetchUsage();
+  }, [days, workspace.id]);
+
+  const groups = aggregate(rows, groupBy);
+  const totals = aggregate(rows.map((row) => ({ ...row, day: "all" })), "day")[0];
+
+  return (
+    <div className="usage-page">
+      <div className="usage-header">
+        <h2>API Usage</h2>
+        <div className="usage-controls">
+          <label>
+            Last{" "}
+            <select value={days} onChange={(e) => setDays(Number(e.target.value))}>
+              {RANGE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option} days
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Group by{" "}
+            <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as GroupBy)}>
+              {(Object.keys(GROUP_LABELS) as GroupBy[]).map((option) => (
+                <option key={option} value={option}>
+                  {GROUP_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="error-message">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading usage...</p>
+      ) : !totals ? (
+        <p className="usage-empty">No summaries in this period.</p>
+      ) : (
+        <>
+          <div className="usage-totals">
+            <div>
+              <span className="usage-total-value">{formatCost(totals.cost)}</span>
+              <span className="usage-total-label">estimated cost</span>
+            </div>
+            <div>
+              <span className="usage-total-value">{totals.summaries.toLocaleString()}</span>
+              <span className="usage-total-label">summaries</span>
+            </div>
+            <div>
+              <span className="usage-total-value">
+                {formatTokens(totals.promptTokens + totals.completionTokens)}
+              </span>
+              <span className="usage-total-label">tokens</span>
+            </div>
+          </div>
+
+          {totals.unpriced > 0 && (
+            <p className="usage-note">
+              {totals.unpriced} summaries used models without a price and are not included in the cost.
+              Add them to LLM_PRICES to estimate their cost.
+            </p>
+          )}
+
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>{GROUP_LABELS[groupBy]}</th>
+                <th>Summaries</th>
+                <th>Prompt tokens</th>
+                <th>Completion tokens</th>
+                <th>Cost</th>
+                <th>Avg. time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map((group) => (
+                <tr key={group.key}>
+                  <td>{group.label}</td>
+                  <td>{group.summaries.toLocaleString()}</td>
+                  <td>{formatTokens(group.promptTokens)}</td>
+                  <td>{formatTokens(group.completionTokens)}</td>
+                  <td>{formatCost(group.cost)}</td>
+                  <td>{group.timedSummaries ? formatDuration(group.totalMs / group.timedSummaries) : "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsagePage;
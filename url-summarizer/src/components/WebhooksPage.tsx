@@ -0,0 +1,287 @@
+import { type FormEvent, useEffect, useState } from "react";
+import {
+  createWebhook,
+  deleteWebhook,
+  fetchDeliveries,
+  fetchWebhooks,
+  replayDelivery,
+  sendTestEvent,
+  updateWebhook,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+  WEBHOOK_EVENTS,
+} from "../lib/webhooks";
+import { canEditWorkspace, type Workspace } from "../lib/workspaces";
+
+// Webhook endpoints of the workspace and the log of what was sent to them. Requests
+// are signed with each endpoint's secret; a failed delivery is retried by the server,
+// and any logged delivery can be sent again from here.
+
+interface WebhooksPageProps {
+  workspace: Workspace;
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : "-");
+
+const WebhooksPage = ({ workspace }: WebhooksPageProps) => {
+  const canEdit = canEditWorkspace(workspace);
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["summary.created"]);
+  const [revealed, setRevealed] = useState<number | null>(null);
+  // "webhook-<id>" or "delivery-<id>" while its request is in flight
+  const [sending, setSending] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState("");
+  // Bumped to load the webhooks and deliveries again after a change
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!canEdit) return;
+
+    fetchWebhooks(workspace.id)
+      .then(async (loaded) => {
+        setWebhooks(loaded);
+        setDeliveries(await fetchDeliveries(loaded.map((webhook) => webhook.id)));
+      })
+      .catch((err) => setError(`Failed to load webhooks: ${(err as Error).message}`))
+      .finally(() => setLoading(false));
+  }, [workspace.id, canEdit, version]);
+
+  const reload = () => setVersion((current) => current + 1);
+
+  const toggleEvent = (event: WebhookEvent) =>
+    setEvents((current) => (current.includes(event) ? current.filter((e) => e !== event) : [...current, event]));
+
+  const create = async (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      setWorking(true);
+      setError("");
+      await createWebhook(workspace.id, {
+        url: url.trim(),
+        description: description.trim() || null,
+        events,
+        enabled: true,
+      });
+      setUrl("");
+      setDescription("");
+      reload();
+    } catch (err) {
+      setError(`Failed to add the webhook: ${(err as Error).message}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const toggleEnabled = async (webhook: Webhook) => {
+    try {
+      setError("");
+      await updateWebhook(webhook, { enabled: !webhook.enabled });
+      reload();
+    } catch (err) {
+      setError(`Failed to update the webhook: ${(err as Error).message}`);
+    }
+  };
+
+  const remove = async (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) return;
+
+    try {
+      setError("");
+      await deleteWebhook(webhook);
+      reload();
+    } catch (err) {
+      setError(`Failed to delete the webhook: ${(err as Error).message}`);
+    }
+  };
+
+  // Test events and replays report their outcome through the delivery log
+  const send = async (key: string, request: () => Promise<WebhookDelivery>) => {
+    try {
+      setSending(key);
+      setError("");
+      await request();
+    } catch (err) {
+      setError(`Failed to send: ${(err as Error).message}`);
+    } finally {
+      setSending(null);
+      reload();
+    }
+  };
+
+  if (!canEdit) {
+    return (
+      <div className="webhooks-page">
+        <h2>Webhooks</h2>
+        <p className="webhooks-hint">Only owners and editors of {workspace.name} can manage its webhooks.</p>
+      </div>
+    );
+  }
+
+  const webhookUrl = (id: number) => webhooks.find((webhook) => webhook.id === id)?.url ?? `#${id}`;
+
+  return (
+    <div className="webhooks-page">
+      <h2>Webhooks</h2>
+      <p className="webhooks-hint">
+        Get a POST request when summaries in {workspace.name} are created or fail, or when a watched URL
+        changes. Each request carries an <code>X-Webhook-Signature</code> header:{" "}
+        <code>sha256=</code> and the HMAC-SHA256, keyed with the webhook's secret, of the{" "}
+        <code>X-Webhook-Timestamp</code> header, a dot and the body. Failed deliveries are retried with
+        increasing delays.
+      </p>
+
+      {error && (
+        <div className="error-message">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      <form className="webhook-form" onSubmit={create}>
+        <div className="webhook-form-fields">
+          <input
+            type="url"
+            placeholder="https://example.com/hooks/summaries"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            required
+          />
+          <input
+            type="text"
+            placeholder="Description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </div>
+        <div className="webhook-events">
+          {WEBHOOK_EVENTS.map(({ value, label }) => (
+            <label key={value}>
+              <input type="checkbox" checked={events.includes(value)} onChange={() => toggleEvent(value)} />
+              {label} <code>{value}</code>
+            </label>
+          ))}
+        </div>
+        <button type="submit" className="webhook-add-button" disabled={working || !url.trim() || events.length === 0}>
+          {working ? "Adding..." : "Add webhook"}
+        </button>
+      </form>
+
+      {loading ? (
+        <p>Loading webhooks...</p>
+      ) : webhooks.length === 0 ? (
+        <p className="webhooks-hint">This workspace doesn't have any webhooks yet.</p>
+      ) : (
+        <ul className="webhook-list">
+          {webhooks.map((webhook) => (
+            <li key={webhook.id} className={webhook.enabled ? "" : "webhook-disabled"}>
+              <div className="webhook-header">
+                <strong>{webhook.url}</strong>
+                <label className="webhook-enabled">
+                  <input type="checkbox" checked={webhook.enabled} onChange={() => toggleEnabled(webhook)} />
+                  Enabled
+                </label>
+              </div>
+              {webhook.description && <p className="webhooks-hint">{webhook.description}</p>}
+              <p className="webhooks-hint">Events: {webhook.events.join(", ")}</p>
+              <div className="webhook-actions">
+                <button type="button" onClick={() => setRevealed(revealed === webhook.id ? null : webhook.id)}>
+                  {revealed === webhook.id ? "Hide secret" : "Show secret"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => send(`webhook-${webhook.id}`, () => sendTestEvent(webhook))}
+                  disabled={sending !== null || !webhook.enabled}
+                >
+                  {sending === `webhook-${webhook.id}` ? "Sending..." : "Send test event"}
+                </button>
+                <button type="button" className="webhook-delete-button" onClick={() => remove(webhook)}>
+                  Delete
+                </button>
+              </div>
+              {revealed === webhook.id && <code className="webhook-secret">{webhook.secret}</code>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {webhooks.length > 0 && (
+        <>
+          <div className="webhook-log-header">
+            <h3>Recent deliveries</h3>
+            <button type="button" onClick={reload}>
+              Refresh
+            </button>
+          </div>
+          {deliveries.length === 0 ? (
+            <p className="webhooks-hint">Nothing has been sent yet.</p>
+          ) : (
+            <table className="webhook-log">
+              <thead>
+                <tr>
+                  <th>Created</th>
+                  <th>Endpoint</th>
+                  <th>Event</th>
+                  <th>Status</th>
+                  <th>Response</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id}>
+                    <td>{formatDate(delivery.created_at)}</td>
+                    <td className="webhook-log-url">{webhookUrl(delivery.webhook_id)}</td>
+                    <td>
+                      <code>{delivery.event}</code>
+                      {delivery.replay_of && <span className="webhooks-hint"> (replay of #{delivery.replay_of})</span>}
+                    </td>
+                    <td>
+                      <span className={`webhook-status webhook-status-${delivery.status}`}>{delivery.status}</span>
+                      <div className="webhooks-hint">
+                        Attempt {delivery.attempts} of {delivery.max_attempts}
+                        {delivery.status === "pending" && delivery.attempts > 0 && (
+                          <>, next {formatDate(delivery.next_attempt_at)}</>
+                        )}
+                      </div>
+                    </td>
+                    <td>
+                      {delivery.response_status ?? "-"}
+                      {delivery.duration_ms !== null && ` in ${delivery.duration_ms} ms`}
+                      {delivery.error && <div className="webhook-log-error">{delivery.error}</div>}
+                      <details>
+                        <summary>Payload</summary>
+                        <pre>{JSON.stringify(delivery.payload, null, 2)}</pre>
+                        {delivery.response_body && (
+                          <>
+                            <p>Response body</p>
+                            <pre>{delivery.response_body}</pre>
+                          </>
+                        )}
+                      </details>
+                    </td>
+                    <td>
+                      <button
+                        type="button"
+                        onClick={() => send(`delivery-${delivery.id}`, () => replayDelivery(delivery))}
+                        disabled={sending !== null || delivery.status === "pending"}
+                      >
+                        {sending === `delivery-${delivery.id}` ? "Sending..." : "Replay"}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WebhooksPage;
@@ -0,0 +1,210 @@
+import { type FormEvent, useEffect, useState } from "react";
+import {
+  deleteInvite,
+  fetchMembers,
+  fetchWorkspaceInvites,
+  inviteMember,
+  removeMember,
+  roleLabel,
+  updateMemberRole,
+  type Workspace,
+  type WorkspaceInvite,
+  type WorkspaceMember,
+  type WorkspaceRole,
+  WORKSPACE_ROLES,
+} from "../lib/workspaces";
+
+// Members and invitations of the current workspace. Owners change roles, remove
+// members and invite people by email; everyone else sees the member list and can
+// leave.
+
+interface WorkspaceMembersPanelProps {
+  workspace: Workspace;
+  userId: string;
+  // The signed-in user's own membership changed (left, or gave up ownership)
+  onMembershipChange: () => void;
+}
+
+const WorkspaceMembersPanel = ({ workspace, userId, onMembershipChange }: WorkspaceMembersPanelProps) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("editor");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  // Bumped to load the lists again after a change
+  const [version, setVersion] = useState(0);
+  const isOwner = workspace.role === "owner";
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [memberRows, inviteRows] = await Promise.all([
+          fetchMembers(workspace.id),
+          isOwner ? fetchWorkspaceInvites(workspace.id) : Promise.resolve([]),
+        ]);
+        setMembers(memberRows);
+        setInvites(inviteRows);
+      } catch (err) {
+        setError(`Failed to load members: ${(err as Error).message}`);
+      }
+    };
+
+    load();
+  }, [workspace.id, isOwner, version]);
+
+  const reload = () => setVersion((current) => current + 1);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setWorking(true);
+      setError("");
+      setNotice("");
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const changeRole = (member: WorkspaceMember, newRole: WorkspaceRole) =>
+    run(async () => {
+      await updateMemberRole(member, newRole);
+      if (member.user_id === userId) {
+        onMembershipChange();
+      } else {
+        reload();
+      }
+    });
+
+  const remove = (member: WorkspaceMember) => {
+    const self = member.user_id === userId;
+    const question = self
+      ? `Leave "${workspace.name}"? You'll need a new invitation to come back.`
+      : `Remove ${member.email || "this member"} from "${workspace.name}"?`;
+    if (!confirm(question)) return;
+
+    run(async () => {
+      await removeMember(member);
+      if (self) {
+        onMembershipChange();
+      } else {
+        reload();
+      }
+    });
+  };
+
+  const invite = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const { email_sent } = await inviteMember(workspace.id, email.trim(), role);
+      setNotice(
+        email_sent
+          ? `Invitation sent to ${email.trim()}.`
+          : `Invitation saved, but the email couldn't be sent. ${email.trim()} will see it after signing in.`
+      );
+      setEmail("");
+      reload();
+    });
+  };
+
+  const revoke = (pending: WorkspaceInvite) =>
+    run(async () => {
+      await deleteInvite(pending);
+      reload();
+    });
+
+  return (
+    <div className="workspace-members-panel">
+      <h3>Members of {workspace.name}</h3>
+
+      {error && (
+        <div className="error-message">
+          <p>❌ {error}</p>
+        </div>
+      )}
+      {notice && <p className="workspace-notice">{notice}</p>}
+
+      <ul className="workspace-member-list">
+        {members.map((member) => (
+          <li key={member.user_id} className="workspace-member">
+            <span className="workspace-member-email">
+              {member.email || member.user_id}
+              {member.user_id === userId && <span className="workspace-you"> (you)</span>}
+            </span>
+            {isOwner ? (
+              <select
+                value={member.role}
+                onChange={(e) => changeRole(member, e.target.value as WorkspaceRole)}
+                disabled={working}
+              >
+                {WORKSPACE_ROLES.map((option) => (
+                  <option key={option.role} value={option.role}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span className="workspace-role-badge">{roleLabel(member.role)}</span>
+            )}
+            {(isOwner || member.user_id === userId) && !(workspace.personal && member.user_id === userId) && (
+              <button className="workspace-remove-button" onClick={() => remove(member)} disabled={working}>
+                {member.user_id === userId ? "Leave" : "Remove"}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <>
+          <form className="workspace-invite-form" onSubmit={invite}>
+            <input
+              type="email"
+              placeholder="teammate@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+            <select value={role} onChange={(e) => setRole(e.target.value as WorkspaceRole)}>
+              {WORKSPACE_ROLES.map((option) => (
+                <option key={option.role} value={option.role} title={option.description}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="workspace-invite-button" disabled={working || !email.trim()}>
+              {working ? "Sending..." : "Invite"}
+            </button>
+          </form>
+
+          {invites.length > 0 && (
+            <>
+              <h4>Pending invitations</h4>
+              <ul className="workspace-member-list">
+                {invites.map((pending) => (
+                  <li key={pending.id} className="workspace-member">
+                    <span className="workspace-member-email">{pending.email}</span>
+                    <span className="workspace-role-badge">{roleLabel(pending.role)}</span>
+                    <span className="workspace-invite-expiry">
+                      {new Date(pending.expires_at) < new Date()
+                        ? "Expired"
+                        : `Expires ${new Date(pending.expires_at).toLocaleDateString()}`}
+                    </span>
+                    <button className="workspace-remove-button" onClick={() => revoke(pending)} disabled={working}>
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceMembersPanel;
@@ -0,0 +1,175 @@
+import { type FormEvent, useEffect, useState } from "react";
+import WorkspaceMembersPanel from "./WorkspaceMembersPanel";
+import {
+  acceptInvite,
+  createWorkspace,
+  deleteInvite,
+  fetchMyInvites,
+  roleLabel,
+  type Workspace,
+  type WorkspaceInvite,
+} from "../lib/workspaces";
+
+// Workspace picker for the App header, with panels to create a workspace, manage the
+// current one's members and answer invitations sent to the signed-in user.
+
+interface WorkspaceSwitcherProps {
+  userId: string;
+  email: string;
+  workspaces: Workspace[];
+  current: Workspace | null;
+  onSelect: (workspaceId: number) => void;
+  // Reload the user's workspaces, then switch to `selectId` if given
+  onWorkspacesChange: (selectId?: number) => void;
+}
+
+type Panel = "members" | "new" | "invites";
+
+const WorkspaceSwitcher = ({ userId, email, workspaces, current, onSelect, onWorkspacesChange }: WorkspaceSwitcherProps) => {
+  const [panel, setPanel] = useState<Panel | null>(null);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [name, setName] = useState("");
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState("");
+  // Bumped to load the invitations again after one is answered
+  const [invitesVersion, setInvitesVersion] = useState(0);
+
+  useEffect(() => {
+    fetchMyInvites(email)
+      .then(setInvites)
+      .catch((err) => console.error("Error fetching invitations:", err));
+  }, [email, invitesVersion]);
+
+  const togglePanel = (next: Panel) => {
+    setError("");
+    setPanel(panel === next ? null : next);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setWorking(true);
+      setError("");
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const create = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const workspace = await createWorkspace(name.trim());
+      setName("");
+      setPanel("members");
+      onWorkspacesChange(workspace.id);
+    });
+  };
+
+  const accept = (invite: WorkspaceInvite) =>
+    run(async () => {
+      const workspaceId = await acceptInvite(invite);
+      setInvitesVersion((current) => current + 1);
+      setPanel(null);
+      onWorkspacesChange(workspaceId);
+    });
+
+  const decline = (invite: WorkspaceInvite) =>
+    run(async () => {
+      await deleteInvite(invite);
+      setInvitesVersion((current) => current + 1);
+    });
+
+  return (
+    <div className="workspace-switcher">
+      <div className="workspace-bar">
+        <select
+          className="workspace-select"
+          value={current?.id ?? ""}
+          onChange={(e) => onSelect(Number(e.target.value))}
+          aria-label="Workspace"
+        >
+          {!current && <option value="">No workspace</option>}
+          {workspaces.map((workspace) => (
+            <option key={workspace.id} value={workspace.id}>
+              {workspace.name}
+            </option>
+          ))}
+        </select>
+        {current && <span className="workspace-role-badge">{roleLabel(current.role)}</span>}
+        {current && (
+          <button
+            className={`workspace-bar-button ${panel === "members" ? "active" : ""}`}
+            onClick={() => togglePanel("members")}
+          >
+            Members
+          </button>
+        )}
+        <button
+          className={`workspace-bar-button ${panel === "new" ? "active" : ""}`}
+          onClick={() => togglePanel("new")}
+        >
+          New workspace
+        </button>
+        {invites.length > 0 && (
+          <button
+            className={`workspace-bar-button workspace-invites-button ${panel === "invites" ? "active" : ""}`}
+            onClick={() => togglePanel("invites")}
+          >
+            Invitations ({invites.length})
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="error-message">
+          <p>❌ {error}</p>
+        </div>
+      )}
+
+      {panel === "members" && current && (
+        <WorkspaceMembersPanel
+          workspace={current}
+          userId={userId}
+          onMembershipChange={() => onWorkspacesChange()}
+        />
+      )}
+
+      {panel === "new" && (
+        <form className="workspace-new-form" onSubmit={create}>
+          <input
+            type="text"
+            placeholder="Workspace name, e.g. Research team"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+          />
+          <button type="submit" className="workspace-invite-button" disabled={working || !name.trim()}>
+            {working ? "Creating..." : "Create"}
+          </button>
+        </form>
+      )}
+
+      {panel === "invites" && (
+        <ul className="workspace-member-list workspace-my-invites">
+          {invites.map((invite) => (
+            <li key={invite.id} className="workspace-member">
+              <span className="workspace-member-email">
+                {invite.workspace_name} as {roleLabel(invite.role).toLowerCase()}
+              </span>
+              <button className="workspace-invite-button" onClick={() => accept(invite)} disabled={working}>
+                Accept
+              </button>
+              <button className="workspace-remove-button" onClick={() => decline(invite)} disabled={working}>
+                Decline
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
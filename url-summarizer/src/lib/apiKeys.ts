@@ -0,0 +1,42 @@
+import { supabase, supabaseUrl } from "./supabase";
+
+// Personal API keys for the public REST API (supabase/functions/api). A key acts as
+// the user who created it. Only a hash is stored, so a new key can be shown once.
+
+export interface ApiKey {
+  id: number;
+  created_at: string;
+  name: string;
+  // First characters of the key, to tell keys apart
+  key_prefix: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export const API_BASE_URL = `${supabaseUrl}/functions/v1/api/v1`;
+export const OPENAPI_URL = `${API_BASE_URL}/openapi.json`;
+
+// The signed-in user's keys, newest first (the hash isn't readable from the browser)
+export const fetchApiKeys = async () => {
+  const { data, error } = await supabase
+    .from("api_keys")
+    .select("id, created_at, name, key_prefix, last_used_at, revoked_at")
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data || []) as ApiKey[];
+};
+
+// Returns the new key, which can't be read back later
+export const createApiKey = async (name: string) => {
+  const { data, error } = await supabase.rpc("create_api_key", { key_name: name });
+  if (error) throw error;
+  return data as string;
+};
+
+export const revokeApiKey = async (key: ApiKey) => {
+  const { error } = await supabase
+    .from("api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", key.id);
+  if (error) throw error;
+};
@@ -0,0 +1,37 @@
+// Messages for the error codes returned by the edge functions
+// (see supabase/functions/_shared/errors.ts).
+
+export const ERROR_MESSAGES: Record<string, string> = {
+  unauthorized: "Your session has expired. Sign in again.",
+  forbidden: "Your role in this workspace doesn't allow that. Ask an owner to make you an editor.",
+  // Fetching the page
+  invalid_url: "The URL is not valid.",
+  unsupported_scheme: "Only http:// and https:// URLs can be summarized.",
+  blocked_address: "This URL points to a private or local network address and can't be fetched.",
+  dns_failure: "The website's domain could not be found.",
+  too_many_redirects: "The website redirected too many times.",
+  response_too_large: "The page is too large to summarize.",
+  network_error: "Couldn't connect to the website. Check the URL or try again later.",
+  unsupported_content_type: "This URL doesn't point to a text page that can be summarized.",
+  target_4xx: "The website refused the request (the page may be missing, private or behind a login).",
+  target_5xx: "The website is having problems right now. Try again in a few minutes.",
+  content_empty: "No readable text was found on the page. It may need JavaScript or a login to show its content.",
+  // Either the website or the model provider
+  rate_limited: "Too many requests right now. Wait a minute and try again.",
+  upstream_timeout: "The request took too long to respond. Try again in a moment.",
+  // Calling the model
+  quota_exceeded: "The model provider account has run out of credit. Check the billing settings for the API key.",
+  model_unavailable: "The model provider is unavailable or overloaded. Try again in a few minutes.",
+  model_refused: "The model declined to respond to this page with the selected prompt.",
+  model_error: "The model provider rejected the request. Check the model name and settings on the prompt.",
+  model_not_configured: "The model provider for this prompt is not configured on the server.",
+  embeddings_not_configured: "Semantic search is not set up on the server (no embedding provider is configured).",
+  structured_output_invalid: "The model's answer didn't match the prompt's output schema, even after retrying.",
+};
+
+// Prefer the message for a known code, keeping the server's details for context
+export const describeErrorCode = (code: string | undefined, details: string | undefined) => {
+  const message = code ? ERROR_MESSAGES[code] : undefined;
+  if (!message) return undefined;
+  return details ? `${message} (${details})` : message;
+};
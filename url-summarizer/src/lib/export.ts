@@ -0,0 +1,355 @@
+import { supabase } from "./supabase";
+import { createZip } from "./zip";
+
+// Exports of a workspace's URLs and their summaries (url_summery), built in the
+// browser from the rows the signed-in user can read:
+// - markdown: a ZIP of one note per URL with YAML frontmatter, for Obsidian-style vaults
+// - json: one document with every URL and its summaries
+// - csv: one row per summary, URL columns repeated
+// - html: a standalone report with its styles inline
+
+export type ExportFormat = "markdown" | "json" | "csv" | "html";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: "markdown", label: "Markdown", description: "ZIP of notes with YAML frontmatter (Obsidian vault)" },
+  { value: "json", label: "JSON", description: "One document with every URL and its summaries" },
+  { value: "csv", label: "CSV", description: "One row per summary, for spreadsheets" },
+  { value: "html", label: "HTML", description: "Self-contained report to read or print" },
+];
+
+export interface ExportSummary {
+  id: number;
+  created_at: string;
+  prompt_id: number;
+  prompt_name: string | null;
+  model: string | null;
+  ai_response: string;
+  structured_response: unknown;
+}
+
+export interface ExportUrl {
+  id: number;
+  created_at: string;
+  url: string;
+  caption: string | null;
+  title: string | null;
+  description: string | null;
+  author: string | null;
+  published_date: string | null;
+  site_name: string | null;
+  document_type: string | null;
+  language: string | null;
+  tags: string[];
+  saved_at: string | null;
+  // Newest first
+  summaries: ExportSummary[];
+}
+
+type SummaryRow = Omit<ExportSummary, "prompt_name"> & { url_id: number; prompts: { prompt_name: string } | null };
+
+export interface ExportFile {
+  filename: string;
+  blob: Blob;
+}
+
+const URL_COLUMNS =
+  "id, created_at, url, caption, title, description, author, published_date, site_name, document_type, language, tags, saved_at";
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// Selected ids per `in` filter, to keep request URLs short
+const ID_CHUNK_SIZE = 100;
+
+// Every row of a query, a page at a time
+const fetchAllRows = async <T>(query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// The workspace's URLs with their summaries; `urlIds` limits it to a selection
+export const fetchExportData = async (workspaceId: number, urlIds?: number[]): Promise<ExportUrl[]> => {
+  const idGroups = urlIds ? chunk(urlIds, ID_CHUNK_SIZE) : [null];
+  const urls: Omit<ExportUrl, "summaries">[] = [];
+  const summaries: SummaryRow[] = [];
+
+  for (const ids of idGroups) {
+    const urlRows = await fetchAllRows((from, to) => {
+      let query = supabase.from("urls").select(URL_COLUMNS).eq("workspace_id", workspaceId);
+      if (ids) query = query.in("id", ids);
+      return query.order("created_at", { ascending: false }).range(from, to);
+    });
+    urls.push(...urlRows);
+
+    const summaryRows = await fetchAllRows((from, to) => {
+      let query = supabase
+        .from("url_summery")
+        .select("id, created_at, url_id, prompt_id, model, ai_response, structured_response, prompts (prompt_name)")
+        .eq("workspace_id", workspaceId);
+      if (ids) query = query.in("url_id", ids);
+      return query.order("created_at", { ascending: false }).range(from, to);
+    });
+    // The prompt is a to-one embed, so an object rather than the array the client types it as
+    summaries.push(...(summaryRows as unknown as SummaryRow[]));
+  }
+
+  return urls.map((url) => ({
+    ...url,
+    tags: url.tags ?? [],
+    summaries: summaries
+      .filter((summary) => summary.url_id === url.id)
+      .map((summary) => ({
+        id: summary.id,
+        created_at: summary.created_at,
+        prompt_id: summary.prompt_id,
+        prompt_name: summary.prompts?.prompt_name ?? null,
+        model: summary.model,
+        ai_response: summary.ai_response,
+        structured_response: summary.structured_response,
+      })),
+  }));
+};
+
+export const buildExport = (format: ExportFormat, urls: ExportUrl[], workspaceName: string): ExportFile => {
+  const base = `${slugify(workspaceName) || "workspace"}-${new Date().toISOString().slice(0, 10)}`;
+
+  switch (format) {
+    case "markdown":
+      return { filename: `${base}-markdown.zip`, blob: createZip(toMarkdownNotes(urls, base)) };
+    case "json":
+      return {
+        filename: `${base}.json`,
+        blob: new Blob([toJson(urls, workspaceName)], { type: "application/json" }),
+      };
+    case "csv":
+      return { filename: `${base}.csv`, blob: new Blob([toCsv(urls)], { type: "text/csv;charset=utf-8" }) };
+    case "html":
+      return { filename: `${base}.html`, blob: new Blob([toHtml(urls, workspaceName)], { type: "text/html;charset=utf-8" }) };
+  }
+};
+
+export const downloadFile = ({ filename, blob }: ExportFile) => {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = filename;
+  link.click();
+  // Revoked once the download has started
+  setTimeout(() => URL.revokeObjectURL(href), 0);
+};
+
+const displayTitle = (url: ExportUrl) => url.title || url.caption || url.url;
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+
+// Double-quoted YAML scalars accept JSON string escapes
+const yamlValue = (value: string | null) => (value === null ? "null" : JSON.stringify(value));
+
+const structuredBlock = (value: unknown) => "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+
+const toMarkdownNotes = (urls: ExportUrl[], folder: string) => {
+  const used = new Set<string>();
+
+  return urls.map((url) => {
+    // File names must be unique within the vault folder
+    const slug = slugify(displayTitle(url)) || `url-${url.id}`;
+    const name = used.has(slug) ? `${slug}-${url.id}` : slug;
+    used.add(name);
+
+    const frontmatter = [
+      "---",
+      `title: ${yamlValue(displayTitle(url))}`,
+      `url: ${yamlValue(url.url)}`,
+      `site: ${yamlValue(url.site_name)}`,
+      `author: ${yamlValue(url.author)}`,
+      `published: ${yamlValue(url.published_date)}`,
+      `document_type: ${yamlValue(url.document_type)}`,
+      `language: ${yamlValue(url.language)}`,
+      url.tags.length > 0 ? `tags:\n${url.tags.map((tag) => `  - ${yamlValue(tag)}`).join("\n")}` : "tags: []",
+      `created: ${yamlValue(url.created_at)}`,
+      `saved: ${yamlValue(url.saved_at)}`,
+      `summary_count: ${url.summaries.length}`,
+      "---",
+    ].join("\n");
+
+    const sections = url.summaries.map((summary) =>
+      [
+        `## ${summary.prompt_name ?? `Prompt ${summary.prompt_id}`}`,
+        `*${summary.created_at}${summary.model ? ` · ${summary.model}` : ""}*`,
+        summary.structured_response != null ? structuredBlock(summary.structured_response) : summary.ai_response,
+      ].join("\n\n")
+    );
+
+    const body = [
+      `# ${displayTitle(url)}`,
+      `<${url.url}>`,
+      ...(url.description ? [`> ${url.description.replace(/\n/g, "\n> ")}`] : []),
+      ...(sections.length > 0 ? sections : ["*No summaries yet.*"]),
+    ].join("\n\n");
+
+    return { name: `${folder}/${name}.md`, content: `${frontmatter}\n\n${body}\n` };
+  });
+};
+
+const toJson = (urls: ExportUrl[], workspaceName: string) =>
+  JSON.stringify(
+    {
+      workspace: workspaceName,
+      exported_at: new Date().toISOString(),
+      url_count: urls.length,
+      summary_count: urls.reduce((count, url) => count + url.summaries.length, 0),
+      urls,
+    },
+    null,
+    2
+  );
+
+const CSV_HEADERS = [
+  "url_id",
+  "url",
+  "title",
+  "site_name",
+  "author",
+  "published_date",
+  "document_type",
+  "tags",
+  "url_created_at",
+  "saved_at",
+  "summary_id",
+  "prompt_id",
+  "prompt_name",
+  "model",
+  "summary_created_at",
+  "ai_response",
+  "structured_response",
+];
+
+// Text that starts like a formula (=, +, -, @, tab, CR) would run as one in Excel and
+// Sheets; titles and summaries come from third-party pages, so it's prefixed with '
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// URLs without summaries are left out: there is a row per summary
+const toCsv = (urls: ExportUrl[]) => {
+  const rows = urls.flatMap((url) =>
+    url.summaries.map((summary) => [
+      url.id,
+      url.url,
+      displayTitle(url),
+      url.site_name,
+      url.author,
+      url.published_date,
+      url.document_type,
+      url.tags.join("; "),
+      url.created_at,
+      url.saved_at,
+      summary.id,
+      summary.prompt_id,
+      summary.prompt_name,
+      summary.model,
+      summary.created_at,
+      summary.ai_response,
+      summary.structured_response != null ? JSON.stringify(summary.structured_response) : "",
+    ])
+  );
+  // The byte order mark makes Excel read the file as UTF-8
+  return "\uFEFF" + [CSV_HEADERS, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Only http(s) links are made clickable
+const safeHref = (value: string) => (/^https?:\/\//i.test(value) ? escapeHtml(value) : "#");
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : "");
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #222; line-height: 1.5; }
+  h1 { margin-bottom: 0.25rem; }
+  nav ol { padding-left: 1.25rem; }
+  article { border-top: 1px solid #ddd; padding-top: 1rem; margin-top: 2rem; }
+  article h2 { margin: 0 0 0.25rem; }
+  .meta { color: #666; font-size: 0.85rem; }
+  .tag { display: inline-block; background: #eef; border-radius: 3px; padding: 0 6px; margin-right: 4px; }
+  section { margin: 1rem 0; padding-left: 12px; border-left: 3px solid #61dafb; }
+  section h3 { margin: 0; font-size: 1rem; }
+  .response { white-space: pre-wrap; }
+  pre { background: #f5f5f5; padding: 8px; overflow-x: auto; }
+  @media print { article { page-break-inside: avoid; } }
+`;
+
+const toHtml = (urls: ExportUrl[], workspaceName: string) => {
+  const articles = urls.map((url) => {
+    const details = [
+      url.site_name,
+      url.author && `by ${url.author}`,
+      url.published_date && `published ${url.published_date}`,
+      `added ${formatDate(url.created_at)}`,
+      url.saved_at && `saved ${formatDate(url.saved_at)}`,
+    ].filter(Boolean);
+
+    const sections = url.summaries.map(
+      (summary) => `
+      <section>
+        <h3>${escapeHtml(summary.prompt_name ?? `Prompt ${summary.prompt_id}`)}</h3>
+        <p class="meta">${escapeHtml([formatDate(summary.created_at), summary.model].filter(Boolean).join(" · "))}</p>
+        ${
+          summary.structured_response != null
+            ? `<pre>${escapeHtml(JSON.stringify(summary.structured_response, null, 2))}</pre>`
+            : `<div class="response">${escapeHtml(summary.ai_response ?? "")}</div>`
+        }
+      </section>`
+    );
+
+    return `
+    <article id="url-${url.id}">
+      <h2>${escapeHtml(displayTitle(url))}</h2>
+      <p class="meta"><a href="${safeHref(url.url)}">${escapeHtml(url.url)}</a><br>${escapeHtml(details.join(" · "))}</p>
+      ${url.tags.length > 0 ? `<p>${url.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join("")}</p>` : ""}
+      ${url.description ? `<p>${escapeHtml(url.description)}</p>` : ""}
+      ${sections.length > 0 ? sections.join("") : '<p class="meta">No summaries yet.</p>'}
+    </article>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(workspaceName)} – URL summaries</title>
+  <style>${HTML_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(workspaceName)}</h1>
+  <p class="meta">${urls.length} URLs, exported ${escapeHtml(new Date().toLocaleString())}</p>
+  <nav>
+    <ol>
+      ${urls.map((url) => `<li><a href="#url-${url.id}">${escapeHtml(displayTitle(url))}</a></li>`).join("\n      ")}
+    </ol>
+  </nav>
+  ${articles.join("\n")}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,36 @@
+import { describeErrorCode } from "./errorCodes";
+import { supabase, supabaseAnonKey, supabaseUrl } from "./supabase";
+
+// Calls an edge function and returns its JSON body. Unlike supabase.functions.invoke,
+// failures are thrown with the message for the error code the function returned
+// (see supabase/functions/_shared/errors.ts).
+
+interface FunctionError {
+  error?: string;
+  details?: string;
+  code?: string;
+}
+
+export const errorMessage = (data: FunctionError, fallback: string) =>
+  describeErrorCode(data.code, data.details) ??
+  (data.details ? `${data.error || fallback}: ${data.details}` : data.error || fallback);
+
+export const invokeFunction = async <T>(functionName: string, body: Record<string, unknown>): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${session?.access_token ?? supabaseAnonKey}`,
+      apikey: supabaseAnonKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(errorMessage(data, `Request failed with status ${response.status}`));
+  }
+  return data as T;
+};
@@ -0,0 +1,124 @@
+import { describeErrorCode } from "./errorCodes";
+import { invokeFunction } from "./functions";
+import { supabase } from "./supabase";
+
+// Summaries run as jobs in the summary_jobs table (see supabase/functions/_shared/jobs.ts).
+// process-url and summerize_url return a job id, process-batch a batch of them; status
+// changes arrive through Realtime.
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+export interface SummaryJob<Result = unknown> {
+  id: number;
+  created_at: string;
+  url_id: number;
+  prompt_id: number;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  finished_at: string | null;
+  progress: string | null;
+  error_code: string | null;
+  error_message: string | null;
+  summary_id: number | null;
+  result: Result | null;
+  batch_id: number | null;
+}
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  succeeded: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export const isActiveJob = (job: Pick<SummaryJob, "status">) =>
+  job.status === "queued" || job.status === "running";
+
+export const describeJobError = (job: SummaryJob) =>
+  describeErrorCode(job.error_code ?? undefined, job.error_message ?? undefined) ??
+  job.error_message ??
+  "The summary failed.";
+
+export const fetchJob = async <Result = unknown>(jobId: number) => {
+  const { data, error } = await supabase.from("summary_jobs").select("*").eq("id", jobId).single();
+  if (error) throw error;
+  return data as SummaryJob<Result>;
+};
+
+// Calls onChange with every inserted or updated job (optionally filtered, e.g.
+// "id=eq.42"). Changes made before the channel is ready are missed, so read the jobs
+// in onSubscribed. Returns a function that ends the subscription.
+export const subscribeToJobs = (
+  onChange: (job: SummaryJob) => void,
+  filter?: string,
+  onSubscribed?: () => void
+) => {
+  const channel = supabase
+    .channel(`summary-jobs-${filter ?? "all"}-${Math.random().toString(36).slice(2)}`)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "summary_jobs", ...(filter ? { filter } : {}) },
+      (payload) => {
+        if (payload.new && "id" in payload.new) onChange(payload.new as SummaryJob);
+      }
+    )
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") onSubscribed?.();
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// A running job finishes its current step, but its outcome is not recorded
+export const cancelJob = async (jobId: number) => {
+  const { error } = await supabase
+    .from("summary_jobs")
+    .update({ status: "cancelled", finished_at: new Date().toISOString(), locked_until: null, progress: null })
+    .eq("id", jobId)
+    .in("status", ["queued", "running"]);
+  if (error) throw error;
+};
+
+export interface BatchOptions {
+  forceRefresh?: boolean;
+  // Jobs of the batch running at once; the server caps it
+  concurrency?: number;
+}
+
+// Queues every URL x prompt pair of a workspace and returns the batch id and its jobs
+export const startBatch = async (
+  workspaceId: number,
+  urlIds: number[],
+  promptIds: number[],
+  options: BatchOptions = {}
+) => {
+  const { batch_id } = await invokeFunction<{ batch_id: number }>("process-batch", {
+    workspace_id: workspaceId,
+    url_ids: urlIds,
+    prompt_ids: promptIds,
+    force_refresh: !!options.forceRefresh,
+    ...(options.concurrency ? { concurrency: options.concurrency } : {}),
+  });
+  return { batchId: batch_id, jobs: await fetchBatchJobs(batch_id) };
+};
+
+export const fetchBatchJobs = async <Result = unknown>(batchId: number) => {
+  const { data, error } = await supabase.from("summary_jobs").select("*").eq("batch_id", batchId).order("id");
+  if (error) throw error;
+  return (data || []) as SummaryJob<Result>[];
+};
+
+// Cancels the jobs of a batch that haven't finished
+export const cancelBatch = async (batchId: number) => {
+  const { error } = await supabase
+    .from("summary_jobs")
+    .update({ status: "cancelled", finished_at: new Date().toISOString(), locked_until: null, progress: null })
+    .eq("batch_id", batchId)
+    .in("status", ["queued", "running"]);
+  if (error) throw error;
+};
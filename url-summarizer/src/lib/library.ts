@@ -0,0 +1,75 @@
+import { invokeFunction } from "./functions";
+import type { LlmProvider } from "./providers";
+import { supabase } from "./supabase";
+
+// Questions answered from a workspace's saved pages (supabase/functions/_shared/library.ts).
+// Pages are embedded into page_chunks when they are summarized, and recorded in
+// page_indexes; index-library embeds the ones saved before.
+
+// A retrieved passage; the answer cites it as [n]
+export interface LibrarySource {
+  n: number;
+  id: number;
+  url_id: number;
+  chunk_index: number;
+  content: string;
+  // Cosine similarity to the question, 1 being identical
+  similarity: number;
+  url: string;
+  title: string | null;
+  caption: string | null;
+  cited: boolean;
+}
+
+export interface LibraryAnswer {
+  question: string;
+  answer: string;
+  model: string;
+  provider: LlmProvider;
+  usage: { promptTokens: number; completionTokens: number } | null;
+  sources: LibrarySource[];
+}
+
+export interface IndexRun {
+  indexed: number;
+  failed: number;
+  failures: { url_id: number; error: string; code: string }[];
+  // Unindexed URLs after the cursor
+  remaining: number;
+  // Last URL tried; the next run continues after it
+  cursor: number;
+}
+
+export interface LibraryStatus {
+  urls: number;
+  // URLs that were indexed, whichever embedding model did it
+  indexed: number;
+}
+
+export const askLibrary = (workspaceId: number, question: string, provider: LlmProvider | null, model: string) =>
+  invokeFunction<LibraryAnswer>("ask-library", {
+    workspace_id: workspaceId,
+    question,
+    provider,
+    model: model.trim() || null,
+  });
+
+export const indexLibrary = (workspaceId: number, afterUrlId = 0) =>
+  invokeFunction<IndexRun>("index-library", { workspace_id: workspaceId, after_url_id: afterUrlId });
+
+export const fetchLibraryStatus = async (workspaceId: number): Promise<LibraryStatus> => {
+  const [urls, indexed] = await Promise.all([
+    supabase.from("urls").select("id", { count: "exact", head: true }).eq("workspace_id", workspaceId),
+    supabase.from("page_indexes").select("url_id", { count: "exact", head: true }).eq("workspace_id", workspaceId),
+  ]);
+  if (urls.error) throw urls.error;
+  if (indexed.error) throw indexed.error;
+  return { urls: urls.count ?? 0, indexed: indexed.count ?? 0 };
+};
+
+// Alternating plain text and [n] citations, to link each citation to its source
+export const splitCitations = (answer: string) =>
+  answer.split(/(\[\d+(?:\s*,\s*\d+)*\])/).map((text) => {
+    const citation = /^\[(\d+(?:\s*,\s*\d+)*)\]$/.exec(text);
+    return { text, sources: citation ? citation[1].split(",").map(Number) : [] };
+  });
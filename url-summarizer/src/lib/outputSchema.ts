@@ -0,0 +1,52 @@
+// Output schemas let a prompt ask for structured (JSON) results instead of free text.
+// The edge functions validate the model's reply against the schema
+// (see supabase/functions/_shared/structured.ts).
+
+export type JsonSchema = Record<string, unknown>;
+
+export const EXAMPLE_OUTPUT_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "summary": { "type": "string" },
+    "key_points": { "type": "array", "items": { "type": "string" } }
+  },
+  "required": ["summary", "key_points"]
+}`;
+
+// Blank text means no schema (free-text output)
+export const parseOutputSchema = (text: string): { schema: JsonSchema | null; error: string | null } => {
+  if (!text.trim()) {
+    return { schema: null, error: null };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    return { schema: null, error: `Output schema is not valid JSON: ${(err as Error).message}` };
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { schema: null, error: "Output schema must be a JSON object" };
+  }
+
+  const schema = value as JsonSchema;
+  if (schema.type !== undefined && typeof schema.type !== "string" && !Array.isArray(schema.type)) {
+    return { schema: null, error: 'Output schema "type" must be a string or an array of strings' };
+  }
+  if (schema.properties !== undefined && (typeof schema.properties !== "object" || Array.isArray(schema.properties))) {
+    return { schema: null, error: 'Output schema "properties" must be an object' };
+  }
+
+  return { schema, error: null };
+};
+
+export const formatOutputSchema = (schema: JsonSchema | null) =>
+  schema ? JSON.stringify(schema, null, 2) : "";
+
+export const describeOutputSchema = (schema: JsonSchema | null) => {
+  if (!schema) return "Free text";
+  const properties = schema.properties as Record<string, unknown> | undefined;
+  const fields = properties ? Object.keys(properties) : [];
+  return fields.length > 0 ? `Structured JSON: ${fields.join(", ")}` : "Structured JSON";
+};
@@ -0,0 +1,52 @@
+// Prompt template variables, rendered by the edge functions (see
+// supabase/functions/_shared/template.ts). Keep the two lists in sync.
+export const PROMPT_VARIABLES = [
+  { name: "url", description: "The page URL" },
+  { name: "title", description: "The page title" },
+  { name: "content", description: "The extracted page text (appended at the end when not used)" },
+  { name: "domain", description: "The site domain, without www." },
+  { name: "published_date", description: "The publication date, when the page declares one" },
+  { name: "target_language", description: "The prompt's target language (English by default)" },
+] as const;
+
+const KNOWN_VARIABLES: ReadonlySet<string> = new Set(PROMPT_VARIABLES.map((variable) => variable.name));
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const VALID_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+export interface TemplateValidation {
+  // Problems that would render incorrectly and block saving
+  errors: string[];
+  // Suspicious but renderable, e.g. unknown variables that are left as-is
+  warnings: string[];
+}
+
+export const validatePromptTemplate = (template: string): TemplateValidation => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const opening = template.split("{{").length - 1;
+  const closing = template.split("}}").length - 1;
+  if (opening !== closing) {
+    errors.push("Unbalanced braces: every {{ needs a matching }}");
+  }
+
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const name = match[1];
+    if (!VALID_NAME.test(name)) {
+      errors.push(`Invalid placeholder "${match[0]}"`);
+    } else if (!KNOWN_VARIABLES.has(name)) {
+      unknown.add(name);
+    }
+  }
+
+  if (unknown.size > 0) {
+    warnings.push(
+      `Unknown variable${unknown.size > 1 ? "s" : ""} ${[...unknown].map((name) => `{{${name}}}`).join(", ")} ` +
+      "will be left as-is"
+    );
+  }
+
+  return { errors, warnings };
+};
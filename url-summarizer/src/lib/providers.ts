@@ -0,0 +1,11 @@
+// Model providers the edge functions can call (supabase/functions/_shared/llm.ts)
+
+export type LlmProvider = "openai" | "anthropic" | "openai_compatible";
+
+export const PROVIDER_LABELS: Record<LlmProvider, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  openai_compatible: "OpenAI-compatible (local)",
+};
+
+export const LLM_PROVIDERS = Object.keys(PROVIDER_LABELS) as LlmProvider[];
@@ -0,0 +1,60 @@
+import { supabase } from "./supabase";
+
+// Full-text search over a workspace's URLs and summaries (the search_urls database
+// function). Snippets mark matched words with <mark></mark>; splitSnippet turns them
+// into parts to render, so snippet text is never treated as HTML.
+
+export interface SearchFilters {
+  query: string;
+  promptId: number | null;
+  domain: string;
+  // Dates as entered in <input type="date">, inclusive
+  from: string;
+  to: string;
+}
+
+export const EMPTY_SEARCH: SearchFilters = { query: "", promptId: null, domain: "", from: "", to: "" };
+
+export interface SearchResult {
+  url_id: number;
+  rank: number;
+  url_snippet: string;
+  summary_id: number | null;
+  prompt_id: number | null;
+  prompt_name: string | null;
+  summary_snippet: string | null;
+  content_snippet: string | null;
+  matching_summaries: number;
+  total_count: number;
+}
+
+export const SEARCH_PAGE_SIZE = 50;
+
+export const isSearchActive = (filters: SearchFilters) =>
+  filters.query.trim() !== "" || filters.promptId !== null || filters.domain.trim() !== "" || !!filters.from || !!filters.to;
+
+// Local midnight at the start of the day, or of the day after for an end date
+const startOfDay = (date: string, addDays = 0) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + addDays);
+  return day.toISOString();
+};
+
+export const searchUrls = async (workspaceId: number, filters: SearchFilters, offset = 0) => {
+  const { data, error } = await supabase.rpc("search_urls", {
+    target_workspace: workspaceId,
+    search_query: filters.query.trim(),
+    prompt_filter: filters.promptId,
+    domain_filter: filters.domain.trim().replace(/^www\./, "") || null,
+    added_after: filters.from ? startOfDay(filters.from) : null,
+    added_before: filters.to ? startOfDay(filters.to, 1) : null,
+    result_limit: SEARCH_PAGE_SIZE,
+    result_offset: offset,
+  });
+  if (error) throw error;
+  return (data || []) as SearchResult[];
+};
+
+// Alternating plain and highlighted text
+export const splitSnippet = (snippet: string) =>
+  snippet.split(/<mark>|<\/mark>/).map((text, index) => ({ text, highlighted: index % 2 === 1 }));
@@ -0,0 +1,90 @@
+import { errorMessage } from "./functions";
+import { supabase, supabaseAnonKey, supabaseUrl } from "./supabase";
+
+// supabase.functions.invoke buffers the whole response, so streaming calls go
+// through fetch and parse the Server-Sent Events sent by the edge functions
+// (see supabase/functions/_shared/sse.ts for the event types).
+
+export interface StreamHandlers {
+  // The summary_jobs row the run is recorded on, sent before anything else
+  onJob?: (jobId: number) => void;
+  onToken?: (text: string) => void;
+  onStatus?: (message: string) => void;
+}
+
+export const invokeStreaming = async <T>(
+  functionName: string,
+  body: Record<string, unknown>,
+  { onJob, onToken, onStatus }: StreamHandlers = {}
+): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${session?.access_token ?? supabaseAnonKey}`,
+      apikey: supabaseAnonKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  // Validation failures happen before streaming starts and come back as JSON
+  if (!response.headers.get("Content-Type")?.includes("text/event-stream")) {
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(errorMessage(data, `Request failed with status ${response.status}`));
+    }
+    return data as T;
+  }
+
+  if (!response.body) {
+    throw new Error("Streaming response has no body");
+  }
+
+  for await (const { event, data } of readSseEvents(response.body)) {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case "job":
+        onJob?.(payload.job_id);
+        break;
+      case "token":
+        onToken?.(payload.text);
+        break;
+      case "status":
+        onStatus?.(payload.message);
+        break;
+      case "done":
+        return payload as T;
+      case "error":
+        throw new Error(errorMessage(payload, "Streaming request failed"));
+    }
+  }
+
+  throw new Error("Stream ended before the response was complete");
+};
+
+async function* readSseEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length) yield { event, data: data.join("\n") };
+    }
+  }
+}
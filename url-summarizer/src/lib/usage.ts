@@ -0,0 +1,37 @@
+// Formatting for the token, timing and cost figures stored with each summary
+
+export interface SummaryUsage {
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  tokens_estimated?: boolean;
+  cost_usd: number | string | null;
+  scrape_ms: number | null;
+  llm_ms: number | null;
+  total_ms: number | null;
+}
+
+// NUMERIC columns arrive from PostgREST as strings
+export const formatCost = (cost: number | string | null | undefined) => {
+  if (cost === null || cost === undefined) return "—";
+  const value = Number(cost);
+  if (value === 0) return "$0";
+  return value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+};
+
+export const formatTokens = (tokens: number | null | undefined) =>
+  tokens === null || tokens === undefined ? "—" : tokens.toLocaleString();
+
+export const formatDuration = (ms: number | string | null | undefined) => {
+  if (ms === null || ms === undefined) return "—";
+  const value = Number(ms);
+  return value < 1000 ? `${Math.round(value)} ms` : `${(value / 1000).toFixed(1)} s`;
+};
+
+// One-line summary for a summary header, e.g. "1,234 + 210 tokens · $0.0004 · 3.2 s"
+export const describeUsage = (usage: SummaryUsage) => {
+  if (usage.prompt_tokens === null && usage.total_ms === null) return null;
+  const tokens = `${formatTokens(usage.prompt_tokens)} + ${formatTokens(usage.completion_tokens)} tokens${
+    usage.tokens_estimated ? " (est.)" : ""
+  }`;
+  return [tokens, formatCost(usage.cost_usd), formatDuration(usage.total_ms)].join(" · ");
+};
@@ -0,0 +1,111 @@
+import type { SummaryJob } from "./jobs";
+import { supabase } from "./supabase";
+
+// Watched URLs (url_watches) are re-scraped on a schedule by the watch-urls function
+// (see supabase/functions/_shared/watches.ts). Meaningful changes are recorded in
+// url_changes with a line diff and, when the watch has a prompt, a re-run job.
+
+export interface UrlWatch {
+  id: number;
+  url_id: number;
+  prompt_id: number | null;
+  enabled: boolean;
+  interval_minutes: number;
+  min_change_ratio: number;
+  next_check_at: string;
+  last_checked_at: string | null;
+  last_change_at: string | null;
+  last_error: string | null;
+}
+
+export interface WatchSettings {
+  prompt_id: number | null;
+  interval_minutes: number;
+  enabled: boolean;
+}
+
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  text: string;
+}
+
+export interface DiffHunk {
+  old_start: number;
+  new_start: number;
+  lines: DiffLine[];
+}
+
+export interface UrlChange {
+  id: number;
+  created_at: string;
+  url_id: number;
+  change_ratio: number;
+  added_lines: number;
+  removed_lines: number;
+  diff: { hunks: DiffHunk[]; truncated: boolean };
+  previous_summary_id: number | null;
+  job_id: number | null;
+  acknowledged_at: string | null;
+  // The re-run job, embedded by fetchOpenChanges
+  summary_jobs?: SummaryJob | null;
+}
+
+export const WATCH_INTERVALS = [
+  { minutes: 60, label: "Hourly" },
+  { minutes: 360, label: "Every 6 hours" },
+  { minutes: 1440, label: "Daily" },
+  { minutes: 10080, label: "Weekly" },
+];
+
+export const describeInterval = (minutes: number) =>
+  WATCH_INTERVALS.find((interval) => interval.minutes === minutes)?.label ?? `Every ${minutes} minutes`;
+
+export const fetchWatches = async () => {
+  const { data, error } = await supabase.from("url_watches").select("*");
+  if (error) throw error;
+  return (data || []) as UrlWatch[];
+};
+
+// Creates or updates the URL's watch. A new watch is checked on the next scheduled run,
+// which records the page as it is now to compare later versions against.
+export const saveWatch = async (urlId: number, settings: WatchSettings) => {
+  const { data, error } = await supabase
+    .from("url_watches")
+    .upsert({ url_id: urlId, ...settings }, { onConflict: "url_id" })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as UrlWatch;
+};
+
+export const deleteWatch = async (urlId: number) => {
+  const { error } = await supabase.from("url_watches").delete().eq("url_id", urlId);
+  if (error) throw error;
+};
+
+// The latest change per URL that hasn't been dismissed
+export const fetchOpenChanges = async () => {
+  const { data, error } = await supabase
+    .from("url_changes")
+    .select("*, summary_jobs (*)")
+    .is("acknowledged_at", null)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const latest: { [urlId: number]: UrlChange } = {};
+  for (const change of (data || []) as UrlChange[]) {
+    if (!latest[change.url_id]) latest[change.url_id] = change;
+  }
+  return latest;
+};
+
+// Dismisses the change and any earlier ones for the same URL
+export const acknowledgeChange = async (change: UrlChange) => {
+  const { error } = await supabase
+    .from("url_changes")
+    .update({ acknowledged_at: new Date().toISOString() })
+    .eq("url_id", change.url_id)
+    .lte("id", change.id)
+    .is("acknowledged_at", null);
+  if (error) throw error;
+};
@@ -0,0 +1,101 @@
+import { invokeFunction } from "./functions";
+import { supabase } from "./supabase";
+
+// Outgoing webhooks of a workspace (supabase/functions/_shared/webhooks.ts). Only
+// owners and editors can read or change them. Deliveries are written by the edge
+// functions; replays and test events go through deliver-webhooks.
+
+export type WebhookEvent = "summary.created" | "summary.failed" | "url.changed";
+
+export const WEBHOOK_EVENTS: { value: WebhookEvent; label: string }[] = [
+  { value: "summary.created", label: "Summary created" },
+  { value: "summary.failed", label: "Summary failed" },
+  { value: "url.changed", label: "Watched URL changed" },
+];
+
+export interface Webhook {
+  id: number;
+  created_at: string;
+  workspace_id: number;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  // Key for the X-Webhook-Signature HMAC, generated by the database
+  secret: string;
+  enabled: boolean;
+}
+
+export type WebhookInput = Pick<Webhook, "url" | "description" | "events" | "enabled">;
+
+export interface WebhookDelivery {
+  id: number;
+  created_at: string;
+  webhook_id: number;
+  event: WebhookEvent | "ping";
+  payload: Record<string, unknown>;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number | null;
+  replay_of: number | null;
+}
+
+const DELIVERY_LOG_LIMIT = 50;
+
+export const fetchWebhooks = async (workspaceId: number) => {
+  const { data, error } = await supabase
+    .from("webhooks")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as Webhook[];
+};
+
+export const createWebhook = async (workspaceId: number, input: WebhookInput) => {
+  const { error } = await supabase.from("webhooks").insert({ workspace_id: workspaceId, ...input });
+  if (error) throw error;
+};
+
+export const updateWebhook = async (webhook: Webhook, updates: Partial<WebhookInput>) => {
+  const { error } = await supabase.from("webhooks").update(updates).eq("id", webhook.id);
+  if (error) throw error;
+};
+
+export const deleteWebhook = async (webhook: Webhook) => {
+  const { error } = await supabase.from("webhooks").delete().eq("id", webhook.id);
+  if (error) throw error;
+};
+
+// Newest deliveries of the workspace's webhooks
+export const fetchDeliveries = async (webhookIds: number[]) => {
+  if (webhookIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .in("webhook_id", webhookIds)
+    .order("created_at", { ascending: false })
+    .limit(DELIVERY_LOG_LIMIT);
+  if (error) throw error;
+  return (data || []) as WebhookDelivery[];
+};
+
+// Both send right away and resolve with the new delivery once it has been attempted
+export const replayDelivery = async (delivery: WebhookDelivery) => {
+  const { delivery: replay } = await invokeFunction<{ delivery: WebhookDelivery }>("deliver-webhooks", {
+    delivery_id: delivery.id,
+  });
+  return replay;
+};
+
+export const sendTestEvent = async (webhook: Webhook) => {
+  const { delivery } = await invokeFunction<{ delivery: WebhookDelivery }>("deliver-webhooks", {
+    webhook_id: webhook.id,
+  });
+  return delivery;
+};
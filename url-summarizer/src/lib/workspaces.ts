@@ -0,0 +1,162 @@
+import { invokeFunction } from "./functions";
+import { supabase } from "./supabase";
+
+// URLs, prompts and summaries belong to a workspace (see
+// supabase/migrations/20250831090000_workspaces.sql). Owners manage members and
+// invitations, editors add URLs, edit prompts and run them, viewers only read.
+
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+export interface Workspace {
+  id: number;
+  created_at: string;
+  name: string;
+  created_by: string | null;
+  personal: boolean;
+  // The signed-in user's role
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  workspace_id: number;
+  user_id: string;
+  created_at: string;
+  email: string | null;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceInvite {
+  id: number;
+  created_at: string;
+  workspace_id: number;
+  workspace_name: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+export const WORKSPACE_ROLES: { role: WorkspaceRole; label: string; description: string }[] = [
+  { role: "owner", label: "Owner", description: "Manages members and invitations" },
+  { role: "editor", label: "Editor", description: "Adds URLs, edits prompts and runs them" },
+  { role: "viewer", label: "Viewer", description: "Reads URLs and summaries" },
+];
+
+export const roleLabel = (role: WorkspaceRole) =>
+  WORKSPACE_ROLES.find((option) => option.role === role)?.label ?? role;
+
+export const canEditWorkspace = (workspace: Pick<Workspace, "role">) =>
+  workspace.role === "owner" || workspace.role === "editor";
+
+// PostgREST `or` filter for the prompts of a workspace plus the shared ones
+export const promptScopeFilter = (workspaceId: number) =>
+  `workspace_id.is.null,workspace_id.eq.${workspaceId}`;
+
+// The workspace picked last, so a reload opens the same one
+const CURRENT_WORKSPACE_KEY = "url-summarizer.workspace";
+
+export const loadCurrentWorkspaceId = () => {
+  const stored = Number(localStorage.getItem(CURRENT_WORKSPACE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : null;
+};
+
+export const storeCurrentWorkspaceId = (workspaceId: number) => {
+  localStorage.setItem(CURRENT_WORKSPACE_KEY, String(workspaceId));
+};
+
+// The user's workspaces, personal first, then by name
+export const fetchWorkspaces = async (userId: string) => {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("role, workspaces (*)")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  return ((data || []) as unknown as { role: WorkspaceRole; workspaces: Omit<Workspace, "role"> | null }[])
+    .filter((row) => row.workspaces)
+    .map((row) => ({ ...row.workspaces!, role: row.role }))
+    .sort((a, b) => Number(b.personal) - Number(a.personal) || a.name.localeCompare(b.name));
+};
+
+// New workspace with the signed-in user as its owner
+export const createWorkspace = async (name: string) => {
+  const { data, error } = await supabase.rpc("create_workspace", { workspace_name: name });
+  if (error) throw error;
+  return { ...(data as Omit<Workspace, "role">), role: "owner" as const };
+};
+
+export const fetchMembers = async (workspaceId: number) => {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as WorkspaceMember[];
+};
+
+export const updateMemberRole = async (member: WorkspaceMember, role: WorkspaceRole) => {
+  const { error } = await supabase
+    .from("workspace_members")
+    .update({ role })
+    .eq("workspace_id", member.workspace_id)
+    .eq("user_id", member.user_id);
+  if (error) throw error;
+};
+
+// Removes a member, or the signed-in user leaving the workspace
+export const removeMember = async (member: WorkspaceMember) => {
+  const { error } = await supabase
+    .from("workspace_members")
+    .delete()
+    .eq("workspace_id", member.workspace_id)
+    .eq("user_id", member.user_id);
+  if (error) throw error;
+};
+
+// Invitations of a workspace that haven't been accepted (visible to its owners)
+export const fetchWorkspaceInvites = async (workspaceId: number) => {
+  const { data, error } = await supabase
+    .from("workspace_invites")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .is("accepted_at", null)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as WorkspaceInvite[];
+};
+
+// Invitations sent to the signed-in user that can still be accepted
+export const fetchMyInvites = async (email: string) => {
+  const { data, error } = await supabase
+    .from("workspace_invites")
+    .select("*")
+    .eq("email", email.toLowerCase())
+    .is("accepted_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as WorkspaceInvite[];
+};
+
+// Stores the invitation and emails it (see supabase/functions/invite-member)
+export const inviteMember = (workspaceId: number, email: string, role: WorkspaceRole) =>
+  invokeFunction<{ invite: WorkspaceInvite; email_sent: boolean }>("invite-member", {
+    workspace_id: workspaceId,
+    email,
+    role,
+  });
+
+// Joins the invitation's workspace and returns its id
+export const acceptInvite = async (invite: WorkspaceInvite) => {
+  const { data, error } = await supabase.rpc("accept_workspace_invite", { invite_id: invite.id });
+  if (error) throw error;
+  return data as number;
+};
+
+// Revoked by an owner or declined by the invitee
+export const deleteInvite = async (invite: WorkspaceInvite) => {
+  const { error } = await supabase.from("workspace_invites").delete().eq("id", invite.id);
+  if (error) throw error;
+};